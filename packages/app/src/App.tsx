@@ -25,6 +25,8 @@ import { UserSettingsPage } from '@backstage/plugin-user-settings';
 import { apis } from './apis';
 import { entityPage } from './components/catalog/EntityPage';
 import { searchPage } from './components/search/SearchPage';
+import { BrokenLinksPage } from './components/links/BrokenLinksPage';
+import { StaleDatasetsPage } from './components/freshness/StaleDatasetsPage';
 import { Root } from './components/Root';
 
 import { AlertDisplay, OAuthRequestDialog } from '@backstage/core-components';
@@ -93,6 +95,8 @@ const routes = (
     </Route>
     <Route path="/settings" element={<UserSettingsPage />} />
     <Route path="/catalog-graph" element={<CatalogGraphPage />} />
+    <Route path="/broken-links" element={<BrokenLinksPage />} />
+    <Route path="/stale-datasets" element={<StaleDatasetsPage />} />
   </FlatRoutes>
 );
 
@@ -1,3 +1,4 @@
+import React from 'react';
 import {
   ScmIntegrationsApi,
   scmIntegrationsApiRef,
@@ -8,6 +9,25 @@ import {
   configApiRef,
   createApiFactory,
 } from '@backstage/core-plugin-api';
+import { ApiEntity } from '@backstage/catalog-model';
+import {
+  ApiDefinitionWidget,
+  apiDocsConfigRef,
+  defaultDefinitionWidgets,
+  PlainApiDefinitionWidget,
+} from '@backstage/plugin-api-docs';
+
+// The bundled WSDLs of the api.viss.gov.lv SOAP APIs have the type wsdl
+const wsdlApiWidget: ApiDefinitionWidget = {
+  type: 'wsdl',
+  title: 'WSDL',
+  rawLanguage: 'xml',
+  component: definition =>
+    React.createElement(PlainApiDefinitionWidget, {
+      definition,
+      language: 'xml',
+    }),
+};
 
 export const apis: AnyApiFactory[] = [
   createApiFactory({
@@ -16,4 +36,15 @@ export const apis: AnyApiFactory[] = [
     factory: ({ configApi }) => ScmIntegrationsApi.fromConfig(configApi),
   }),
   ScmAuth.createDefaultApiFactory(),
+  createApiFactory({
+    api: apiDocsConfigRef,
+    deps: {},
+    factory: () => {
+      const definitionWidgets = [...defaultDefinitionWidgets(), wsdlApiWidget];
+      return {
+        getApiDefinitionWidget: (apiEntity: ApiEntity) =>
+          definitionWidgets.find(d => d.type === apiEntity.spec.type),
+      };
+    },
+  }),
 ];
@@ -2,6 +2,8 @@ import React, { PropsWithChildren } from 'react';
 import { makeStyles } from '@material-ui/core';
 import HomeIcon from '@material-ui/icons/Home';
 import ExtensionIcon from '@material-ui/icons/Extension';
+import LinkOffIcon from '@material-ui/icons/LinkOff';
+import UpdateIcon from '@material-ui/icons/Update';
 import LogoFull from './LogoFull';
 import LogoIcon from './LogoIcon';
 import {
@@ -63,6 +65,12 @@ export const Root = ({ children }: PropsWithChildren<{}>) => (
         {/* Global nav, not org-specific */}
         <SidebarItem icon={HomeIcon} to="catalog" text="Home" />
         <SidebarItem icon={ExtensionIcon} to="api-docs" text="APIs" />
+        <SidebarItem icon={LinkOffIcon} to="broken-links" text="Broken links" />
+        <SidebarItem
+          icon={UpdateIcon}
+          to="stale-datasets"
+          text="Stale datasets"
+        />
         {/* End global nav */}
         <SidebarDivider />
       </SidebarGroup>
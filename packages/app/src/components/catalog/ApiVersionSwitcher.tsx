@@ -0,0 +1,108 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import useAsync from 'react-use/lib/useAsync';
+import {
+  InfoCard,
+  Progress,
+  ResponseErrorPanel,
+  Select,
+} from '@backstage/core-components';
+import { useApi, useRouteRef } from '@backstage/core-plugin-api';
+import {
+  catalogApiRef,
+  entityRouteParams,
+  entityRouteRef,
+  useEntity,
+} from '@backstage/plugin-catalog-react';
+import {
+  Entity,
+  RELATION_API_PROVIDED_BY,
+  stringifyEntityRef,
+} from '@backstage/catalog-model';
+
+/**
+ * The version annotations of the api-viss-gov-lv catalog module, see its README.
+ */
+export const ANNOTATION_API_VERSION = 'api.viss.gov.lv/version';
+export const ANNOTATION_DEFAULT_VERSION = 'api.viss.gov.lv/default-version';
+
+export const hasApiVersion = (entity: Entity) =>
+  Boolean(entity.metadata.annotations?.[ANNOTATION_API_VERSION]);
+
+function versionLabel(entity: Entity): string {
+  const annotations = entity.metadata.annotations ?? {};
+  const version = annotations[ANNOTATION_API_VERSION] ?? entity.metadata.name;
+  return annotations[ANNOTATION_DEFAULT_VERSION] === 'true'
+    ? `${version} (default)`
+    : version;
+}
+
+/**
+ * Switches between the versions of an API, the APIs provided by the same version-agnostic Component.
+ */
+export const ApiVersionSwitcher = () => {
+  const { entity } = useEntity();
+  const catalogApi = useApi(catalogApiRef);
+  const entityRoute = useRouteRef(entityRouteRef);
+  const navigate = useNavigate();
+  // The gateway environment Resources provide the API too
+  const parentRef = entity.relations?.find(
+    relation =>
+      relation.type === RELATION_API_PROVIDED_BY &&
+      relation.targetRef.startsWith('component:'),
+  )?.targetRef;
+
+  const {
+    value: versions,
+    loading,
+    error,
+  } = useAsync(async () => {
+    if (!parentRef) {
+      return [entity];
+    }
+    const response = await catalogApi.getEntities({
+      filter: {
+        kind: 'API',
+        [`relations.${RELATION_API_PROVIDED_BY}`]: parentRef,
+      },
+      fields: [
+        'kind',
+        'metadata.namespace',
+        'metadata.name',
+        'metadata.annotations',
+      ],
+    });
+    return response.items.sort((a, b) =>
+      (a.metadata.annotations?.[ANNOTATION_API_VERSION] ?? '').localeCompare(
+        b.metadata.annotations?.[ANNOTATION_API_VERSION] ?? '',
+        undefined,
+        { numeric: true },
+      ),
+    );
+  }, [catalogApi, entity, parentRef]);
+
+  return (
+    <InfoCard title="Versions" variant="gridItem">
+      {loading && <Progress />}
+      {error && <ResponseErrorPanel error={error} />}
+      {versions && (
+        <Select
+          label="Version"
+          selected={stringifyEntityRef(entity)}
+          items={versions.map(version => ({
+            label: versionLabel(version),
+            value: stringifyEntityRef(version),
+          }))}
+          onChange={value => {
+            const version = versions.find(
+              item => stringifyEntityRef(item) === value,
+            );
+            if (version) {
+              navigate(entityRoute(entityRouteParams(version)));
+            }
+          }}
+        />
+      )}
+    </InfoCard>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { List, ListItem, ListItemIcon, ListItemText } from '@material-ui/core';
+import CheckCircleIcon from '@material-ui/icons/CheckCircle';
+import ErrorIcon from '@material-ui/icons/Error';
+import { Gauge, InfoCard } from '@backstage/core-components';
+import { useEntity } from '@backstage/plugin-catalog-react';
+import { Entity } from '@backstage/catalog-model';
+
+/**
+ * The quality annotations of the data-gov-lv catalog module, see its README.
+ */
+export const ANNOTATION_QUALITY_SCORE = 'data.gov.lv/quality-score';
+export const ANNOTATION_QUALITY_FAILED_CHECKS =
+  'data.gov.lv/quality-failed-checks';
+
+/** The checks of `QUALITY_CHECKS` in the order they run */
+export const QUALITY_CHECKS: Record<string, string> = {
+  description: 'Has a description',
+  license: 'Has a license',
+  maintainer: 'Has a maintainer',
+  tags: 'Has tags',
+  fresh: 'Updated as often as declared',
+  distributions: 'Has distributions',
+  schema: 'Every distribution has a known schema',
+  'no-bom': 'No file starts with a byte order mark',
+  'utf-8': 'Every file is UTF-8',
+  links: 'No broken links',
+  active: 'Every resource is active',
+};
+
+export function qualityScore(entity: Entity): number | undefined {
+  const score = entity.metadata.annotations?.[ANNOTATION_QUALITY_SCORE];
+  return score ? Number(score) : undefined;
+}
+
+export function failedQualityChecks(entity: Entity): string[] {
+  const failed =
+    entity.metadata.annotations?.[ANNOTATION_QUALITY_FAILED_CHECKS];
+  return failed ? failed.split(',') : [];
+}
+
+export const hasQualityScore = (entity: Entity) =>
+  qualityScore(entity) !== undefined;
+
+export const DatasetQualityCard = () => {
+  const { entity } = useEntity();
+  const score = qualityScore(entity) ?? 0;
+  const failed = failedQualityChecks(entity);
+
+  return (
+    <InfoCard title="Quality" variant="gridItem">
+      <Gauge value={score / 100} />
+      <List dense>
+        {Object.entries(QUALITY_CHECKS).map(([id, title]) => (
+          <ListItem key={id}>
+            <ListItemIcon>
+              {failed.includes(id) ? (
+                <ErrorIcon color="error" />
+              ) : (
+                <CheckCircleIcon color="primary" />
+              )}
+            </ListItemIcon>
+            <ListItemText primary={title} />
+          </ListItem>
+        ))}
+      </List>
+    </InfoCard>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import useAsync from 'react-use/lib/useAsync';
+import { Progress, WarningPanel } from '@backstage/core-components';
+import {
+  useApi,
+  useRouteRef,
+  useRouteRefParams,
+} from '@backstage/core-plugin-api';
+import {
+  catalogApiRef,
+  entityRouteParams,
+  entityRouteRef,
+} from '@backstage/plugin-catalog-react';
+
+/**
+ * The CKAN annotations of the data-gov-lv catalog module, see its README.
+ */
+const ALIAS_ANNOTATIONS = ['data.gov.lv/ckan-id', 'data.gov.lv/ckan-name'];
+
+/**
+ * Shown instead of "Entity not found": redirects a former entity name, e.g. a CKAN resource UUID,
+ * to the entity that has it as its CKAN id or name.
+ */
+export const EntityAliasRedirect = () => {
+  const { name } = useRouteRefParams(entityRouteRef);
+  const entityRoute = useRouteRef(entityRouteRef);
+  const catalogApi = useApi(catalogApiRef);
+
+  const { value: entity, loading } = useAsync(async () => {
+    const response = await catalogApi.getEntities({
+      filter: ALIAS_ANNOTATIONS.map(annotation => ({
+        [`metadata.annotations.${annotation}`]: name,
+      })),
+      fields: ['kind', 'metadata.namespace', 'metadata.name'],
+    });
+    return response.items[0];
+  }, [catalogApi, name]);
+
+  if (loading) {
+    return <Progress />;
+  }
+  if (!entity) {
+    return (
+      <WarningPanel title="Entity not found">
+        There is no entity named {name}.
+      </WarningPanel>
+    );
+  }
+  return <Navigate to={entityRoute(entityRouteParams(entity))} replace />;
+};
@@ -17,13 +17,19 @@ import {
   EntitySwitch,
   EntityOrphanWarning,
   EntityProcessingErrorsPanel,
-  isComponentType,
   isKind,
   hasCatalogProcessingErrors,
   isOrphan,
   hasRelationWarnings,
   EntityRelationWarning,
+  RelatedEntitiesCard,
 } from '@backstage/plugin-catalog';
+import { EntityTable } from '@backstage/plugin-catalog-react';
+import {
+  EntityTechdocsContent,
+  isTechDocsAvailable,
+} from '@backstage/plugin-techdocs';
+import { TableColumn } from '@backstage/core-components';
 import {
   EntityUserProfileCard,
   EntityGroupProfileCard,
@@ -35,6 +41,7 @@ import {
   EntityCatalogGraphCard,
 } from '@backstage/plugin-catalog-graph';
 import {
+  Entity,
   RELATION_API_CONSUMED_BY,
   RELATION_API_PROVIDED_BY,
   RELATION_CONSUMES_API,
@@ -44,6 +51,16 @@ import {
   RELATION_PART_OF,
   RELATION_PROVIDES_API,
 } from '@backstage/catalog-model';
+import { EntityAliasRedirect } from './EntityAliasRedirect';
+import { hasBrokenLinks, LinkHealthWarning } from '../links/LinkHealthWarning';
+import { FreshnessWarning, isOverdue } from '../freshness/FreshnessWarning';
+import { DatasetQualityCard, hasQualityScore } from './DatasetQualityCard';
+import {
+  isOrganization,
+  OrganizationQualityCard,
+} from './OrganizationQualityCard';
+import { DefinitionHistoryContent } from '../history/DefinitionHistoryContent';
+import { ApiVersionSwitcher, hasApiVersion } from './ApiVersionSwitcher';
 
 const entityWarningContent = (
   <>
@@ -63,6 +80,22 @@ const entityWarningContent = (
       </EntitySwitch.Case>
     </EntitySwitch>
 
+    <EntitySwitch>
+      <EntitySwitch.Case if={isOverdue}>
+        <Grid item xs={12}>
+          <FreshnessWarning />
+        </Grid>
+      </EntitySwitch.Case>
+    </EntitySwitch>
+
+    <EntitySwitch>
+      <EntitySwitch.Case if={hasBrokenLinks}>
+        <Grid item xs={12}>
+          <LinkHealthWarning />
+        </Grid>
+      </EntitySwitch.Case>
+    </EntitySwitch>
+
     <EntitySwitch>
       <EntitySwitch.Case if={hasCatalogProcessingErrors}>
         <Grid item xs={12}>
@@ -92,14 +125,6 @@ const overviewContent = (
   </Grid>
 );
 
-const datasetEntityPage = (
-  <EntityLayout>
-    <EntityLayout.Route path="/" title="Overview">
-      {overviewContent}
-    </EntityLayout.Route>
-  </EntityLayout>
-);
-
 /**
  * NOTE: This page is designed to work on small screens such as mobile devices.
  * This is based on Material UI Grid. If breakpoints are used, each grid item must set the `xs` prop to a column size or to `true`,
@@ -108,7 +133,7 @@ const datasetEntityPage = (
  */
 
 const defaultEntityPage = (
-  <EntityLayout>
+  <EntityLayout NotFoundComponent={<EntityAliasRedirect />}>
     <EntityLayout.Route path="/" title="Overview">
       {overviewContent}
     </EntityLayout.Route>
@@ -117,14 +142,86 @@ const defaultEntityPage = (
 
 const componentPage = (
   <EntitySwitch>
-    <EntitySwitch.Case if={isComponentType('dataset')}>
-      {datasetEntityPage}
-    </EntitySwitch.Case>
-
     <EntitySwitch.Case>{defaultEntityPage}</EntitySwitch.Case>
   </EntitySwitch>
 );
 
+const distributionColumns: TableColumn<Entity>[] = [
+  EntityTable.columns.createEntityRefColumn({ defaultKind: 'distribution' }),
+  EntityTable.columns.createSpecTypeColumn(),
+  { title: 'Format', field: 'spec.format' },
+  { title: 'Charset', field: 'spec.charset' },
+];
+
+const datasetPage = (
+  <EntityLayout>
+    <EntityLayout.Route path="/" title="Overview">
+      <Grid container spacing={3} alignItems="stretch">
+        {entityWarningContent}
+        <Grid item md={6}>
+          <EntityAboutCard variant="gridItem" />
+        </Grid>
+        <Grid item md={6} xs={12}>
+          <EntityCatalogGraphCard variant="gridItem" height={400} />
+        </Grid>
+        <Grid item md={8} xs={12}>
+          <RelatedEntitiesCard
+            variant="gridItem"
+            title="Distributions"
+            entityKind="Distribution"
+            relationType={RELATION_HAS_PART}
+            columns={distributionColumns}
+            emptyMessage="No distribution is part of this dataset"
+            emptyHelpLink="https://data.gov.lv/"
+            asRenderableEntities={entities => entities}
+          />
+        </Grid>
+        <Grid item md={4} xs={12}>
+          <EntityLinksCard />
+        </Grid>
+        <EntitySwitch>
+          <EntitySwitch.Case if={hasQualityScore}>
+            <Grid item md={4} xs={12}>
+              <DatasetQualityCard />
+            </Grid>
+          </EntitySwitch.Case>
+        </EntitySwitch>
+      </Grid>
+    </EntityLayout.Route>
+  </EntityLayout>
+);
+
+const distributionPage = (
+  <EntityLayout>
+    <EntityLayout.Route path="/" title="Overview">
+      <Grid container spacing={3}>
+        {entityWarningContent}
+        <Grid item md={6}>
+          <EntityAboutCard />
+        </Grid>
+        <Grid item md={6} xs={12}>
+          <EntityCatalogGraphCard variant="gridItem" height={400} />
+        </Grid>
+        <Grid item md={4} xs={12}>
+          <EntityLinksCard />
+        </Grid>
+      </Grid>
+    </EntityLayout.Route>
+
+    <EntityLayout.Route path="/definition" title="Definition">
+      <Grid container spacing={3}>
+        <Grid item xs={12}>
+          <EntityApiDefinitionCard />
+        </Grid>
+      </Grid>
+    </EntityLayout.Route>
+
+    <EntityLayout.Route path="/changelog" title="Changelog">
+      <DefinitionHistoryContent />
+    </EntityLayout.Route>
+  </EntityLayout>
+);
+
 const apiPage = (
   <EntityLayout>
     <EntityLayout.Route path="/" title="Overview">
@@ -139,6 +236,13 @@ const apiPage = (
         <Grid item md={4} xs={12}>
           <EntityLinksCard />
         </Grid>
+        <EntitySwitch>
+          <EntitySwitch.Case if={hasApiVersion}>
+            <Grid item md={4} xs={12}>
+              <ApiVersionSwitcher />
+            </Grid>
+          </EntitySwitch.Case>
+        </EntitySwitch>
         <Grid container item md={12}>
           <Grid item md={6}>
             <EntityProvidingComponentsCard />
@@ -152,11 +256,26 @@ const apiPage = (
 
     <EntityLayout.Route path="/definition" title="Definition">
       <Grid container spacing={3}>
+        <EntitySwitch>
+          <EntitySwitch.Case if={hasApiVersion}>
+            <Grid item md={4} xs={12}>
+              <ApiVersionSwitcher />
+            </Grid>
+          </EntitySwitch.Case>
+        </EntitySwitch>
         <Grid item xs={12}>
           <EntityApiDefinitionCard />
         </Grid>
       </Grid>
     </EntityLayout.Route>
+
+    <EntityLayout.Route path="/docs" title="Docs" if={isTechDocsAvailable}>
+      <EntityTechdocsContent />
+    </EntityLayout.Route>
+
+    <EntityLayout.Route path="/changelog" title="Changelog">
+      <DefinitionHistoryContent />
+    </EntityLayout.Route>
   </EntityLayout>
 );
 
@@ -193,6 +312,13 @@ const groupPage = (
         <Grid item xs={12} md={6}>
           <EntityLinksCard />
         </Grid>
+        <EntitySwitch>
+          <EntitySwitch.Case if={isOrganization}>
+            <Grid item xs={12}>
+              <OrganizationQualityCard />
+            </Grid>
+          </EntitySwitch.Case>
+        </EntitySwitch>
       </Grid>
     </EntityLayout.Route>
   </EntityLayout>
@@ -272,6 +398,11 @@ export const entityPage = (
     <EntitySwitch.Case if={isKind('user')} children={userPage} />
     <EntitySwitch.Case if={isKind('system')} children={systemPage} />
     <EntitySwitch.Case if={isKind('domain')} children={domainPage} />
+    <EntitySwitch.Case if={isKind('dataset')} children={datasetPage} />
+    <EntitySwitch.Case
+      if={isKind('distribution')}
+      children={distributionPage}
+    />
 
     <EntitySwitch.Case>{defaultEntityPage}</EntitySwitch.Case>
   </EntitySwitch>
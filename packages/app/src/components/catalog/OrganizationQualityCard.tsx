@@ -0,0 +1,106 @@
+import React from 'react';
+import useAsync from 'react-use/lib/useAsync';
+import {
+  Progress,
+  ResponseErrorPanel,
+  Table,
+  TableColumn,
+} from '@backstage/core-components';
+import { useApi } from '@backstage/core-plugin-api';
+import {
+  catalogApiRef,
+  EntityRefLink,
+  useEntity,
+} from '@backstage/plugin-catalog-react';
+import {
+  Entity,
+  RELATION_OWNED_BY,
+  stringifyEntityRef,
+} from '@backstage/catalog-model';
+import {
+  ANNOTATION_QUALITY_FAILED_CHECKS,
+  ANNOTATION_QUALITY_SCORE,
+  failedQualityChecks,
+  QUALITY_CHECKS,
+  qualityScore,
+} from './DatasetQualityCard';
+
+type RankedDataset = {
+  rank: number;
+  entity: Entity;
+  score: number;
+  failedChecks: string[];
+};
+
+const columns: TableColumn<RankedDataset>[] = [
+  { title: '#', field: 'rank', width: '5%' },
+  {
+    title: 'Dataset',
+    render: row => <EntityRefLink entityRef={row.entity} />,
+  },
+  { title: 'Score', field: 'score', width: '10%' },
+  {
+    title: 'Failed checks',
+    render: row =>
+      row.failedChecks.map(id => QUALITY_CHECKS[id] ?? id).join(', '),
+  },
+];
+
+/** CKAN organizations are the groups that publish datasets */
+export const isOrganization = (entity: Entity) =>
+  entity.spec?.type === 'organization';
+
+/**
+ * The datasets of an organization ranked by their quality score, best first.
+ */
+export const OrganizationQualityCard = () => {
+  const { entity } = useEntity();
+  const catalogApi = useApi(catalogApiRef);
+
+  const { value, loading, error } = useAsync(async () => {
+    const response = await catalogApi.getEntities({
+      filter: {
+        kind: 'Dataset',
+        [`relations.${RELATION_OWNED_BY}`]: stringifyEntityRef(entity),
+      },
+      fields: [
+        'kind',
+        'metadata.namespace',
+        'metadata.name',
+        'metadata.title',
+        `metadata.annotations.${ANNOTATION_QUALITY_SCORE}`,
+        `metadata.annotations.${ANNOTATION_QUALITY_FAILED_CHECKS}`,
+      ],
+    });
+    return response.items
+      .map(dataset => ({
+        entity: dataset,
+        score: qualityScore(dataset) ?? 0,
+        failedChecks: failedQualityChecks(dataset),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .map((dataset, index) => ({ ...dataset, rank: index + 1 }));
+  }, [catalogApi, entity]);
+
+  if (loading) {
+    return <Progress />;
+  } else if (error) {
+    return <ResponseErrorPanel error={error} />;
+  }
+
+  const datasets = value ?? [];
+  const average = datasets.length
+    ? Math.round(
+        datasets.reduce((sum, d) => sum + d.score, 0) / datasets.length,
+      )
+    : 0;
+
+  return (
+    <Table<RankedDataset>
+      title={`Dataset quality (average ${average})`}
+      options={{ search: false, paging: datasets.length > 10, pageSize: 10 }}
+      columns={columns}
+      data={datasets}
+    />
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { WarningPanel } from '@backstage/core-components';
+import { Entity } from '@backstage/catalog-model';
+import { useEntity } from '@backstage/plugin-catalog-react';
+
+/** The freshness annotations of the data-gov-lv catalog module, see its README */
+export const ANNOTATION_FRESHNESS = 'data.gov.lv/freshness';
+export const ANNOTATION_OVERDUE_SINCE = 'data.gov.lv/overdue-since';
+export const ANNOTATION_DATA_MODIFIED = 'data.gov.lv/data-modified';
+export const ANNOTATION_METADATA_MODIFIED = 'data.gov.lv/metadata-modified';
+
+export const isOverdue = (entity: Entity) =>
+  entity.metadata.annotations?.[ANNOTATION_FRESHNESS] === 'overdue';
+
+/** When the data of a dataset last changed, or its metadata */
+export function lastModified(entity: Entity): string | undefined {
+  const annotations = entity.metadata.annotations ?? {};
+  return (
+    annotations[ANNOTATION_DATA_MODIFIED] ??
+    annotations[ANNOTATION_METADATA_MODIFIED]
+  );
+}
+
+function formatDate(date: string | undefined): string {
+  return date ? new Date(date).toLocaleDateString() : 'unknown';
+}
+
+export const FreshnessWarning = () => {
+  const { entity } = useEntity();
+  const frequency = entity.metadata.labels?.frequency;
+  const overdueSince = entity.metadata.annotations?.[ANNOTATION_OVERDUE_SINCE];
+
+  return (
+    <WarningPanel title="Dataset is overdue">
+      The dataset declares a {frequency} update frequency, but it was last
+      updated on {formatDate(lastModified(entity))}. The next update was due on{' '}
+      {formatDate(overdueSince)}.
+    </WarningPanel>
+  );
+};
@@ -0,0 +1,124 @@
+import React from 'react';
+import useAsync from 'react-use/lib/useAsync';
+import {
+  Content,
+  Header,
+  Page,
+  ResponseErrorPanel,
+  Table,
+  TableColumn,
+} from '@backstage/core-components';
+import { useApi } from '@backstage/core-plugin-api';
+import { catalogApiRef, EntityRefLink } from '@backstage/plugin-catalog-react';
+import { Entity, RELATION_OWNED_BY } from '@backstage/catalog-model';
+import {
+  ANNOTATION_DATA_MODIFIED,
+  ANNOTATION_FRESHNESS,
+  ANNOTATION_METADATA_MODIFIED,
+  ANNOTATION_OVERDUE_SINCE,
+  lastModified,
+} from './FreshnessWarning';
+
+type StaleDataset = {
+  entity: Entity;
+  /** Unset when the dataset has no `spec.owner` */
+  owner?: string;
+  frequency?: string;
+  lastModified?: string;
+  overdueSince?: string;
+  overdueDays: number;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const columns: TableColumn<StaleDataset>[] = [
+  {
+    title: 'Owner',
+    field: 'owner',
+    defaultGroupOrder: 0,
+    render: row =>
+      row.owner ? <EntityRefLink entityRef={row.owner} /> : '—',
+  },
+  {
+    title: 'Dataset',
+    render: row => <EntityRefLink entityRef={row.entity} />,
+  },
+  { title: 'Frequency', field: 'frequency' },
+  {
+    title: 'Last updated',
+    field: 'lastModified',
+    render: row =>
+      row.lastModified && new Date(row.lastModified).toLocaleDateString(),
+  },
+  {
+    title: 'Overdue',
+    field: 'overdueDays',
+    defaultSort: 'desc',
+    render: row => `${row.overdueDays} days`,
+  },
+];
+
+/**
+ * The overdue datasets grouped by their owner, most overdue first.
+ */
+export const StaleDatasetsPage = () => {
+  const catalogApi = useApi(catalogApiRef);
+
+  const { value, loading, error } = useAsync(async () => {
+    const response = await catalogApi.getEntities({
+      filter: {
+        kind: 'Dataset',
+        [`metadata.annotations.${ANNOTATION_FRESHNESS}`]: 'overdue',
+      },
+      fields: [
+        'kind',
+        'metadata.namespace',
+        'metadata.name',
+        'metadata.title',
+        'metadata.labels.frequency',
+        `metadata.annotations.${ANNOTATION_OVERDUE_SINCE}`,
+        `metadata.annotations.${ANNOTATION_DATA_MODIFIED}`,
+        `metadata.annotations.${ANNOTATION_METADATA_MODIFIED}`,
+        'relations',
+      ],
+    });
+    const now = Date.now();
+    return response.items.map(entity => {
+      const overdueSince =
+        entity.metadata.annotations?.[ANNOTATION_OVERDUE_SINCE];
+      return {
+        entity,
+        owner: entity.relations?.find(
+          relation => relation.type === RELATION_OWNED_BY,
+        )?.targetRef,
+        frequency: entity.metadata.labels?.frequency,
+        lastModified: lastModified(entity),
+        overdueSince,
+        overdueDays: overdueSince
+          ? Math.floor((now - Date.parse(overdueSince)) / DAY)
+          : 0,
+      };
+    });
+  }, [catalogApi]);
+
+  return (
+    <Page themeId="tool">
+      <Header
+        title="Stale datasets"
+        subtitle="Datasets not updated as often as they declare"
+      />
+      <Content>
+        {error ? (
+          <ResponseErrorPanel error={error} />
+        ) : (
+          <Table<StaleDataset>
+            isLoading={loading}
+            options={{ grouping: true, paging: true, pageSize: 50 }}
+            columns={columns}
+            data={value ?? []}
+          />
+        )}
+      </Content>
+    </Page>
+  );
+};
@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import useAsync from 'react-use/lib/useAsync';
+import { diffLines } from 'diff';
+import { Chip, Grid, makeStyles } from '@material-ui/core';
+import { alpha } from '@material-ui/core/styles';
+import {
+  EmptyState,
+  InfoCard,
+  Progress,
+  ResponseErrorPanel,
+  Select,
+  Table,
+  TableColumn,
+} from '@backstage/core-components';
+import {
+  DiscoveryApi,
+  discoveryApiRef,
+  FetchApi,
+  fetchApiRef,
+  useApi,
+} from '@backstage/core-plugin-api';
+import { ResponseError } from '@backstage/errors';
+import { useEntity } from '@backstage/plugin-catalog-react';
+import { stringifyEntityRef } from '@backstage/catalog-model';
+
+/** A change of a definition version of the data-gov-lv catalog module, see its README */
+type DefinitionChange = {
+  kind: 'added' | 'removed' | 'type-changed' | 'changed';
+  path: string;
+  from?: string;
+  to?: string;
+  breaking: boolean;
+};
+
+type DefinitionVersion = {
+  id: number;
+  type: string;
+  definition?: string;
+  changes: DefinitionChange[];
+  breaking: boolean;
+  createdAt: string;
+};
+
+type DiffRow = {
+  left?: { number: number; text: string; removed: boolean };
+  right?: { number: number; text: string; added: boolean };
+};
+
+const useStyles = makeStyles(theme => ({
+  container: {
+    maxHeight: '70vh',
+    overflow: 'auto',
+  },
+  diff: {
+    fontFamily: 'monospace',
+    fontSize: theme.typography.pxToRem(12),
+    borderCollapse: 'collapse',
+    width: '100%',
+    '& td': {
+      whiteSpace: 'pre-wrap',
+      wordBreak: 'break-all',
+      verticalAlign: 'top',
+      padding: theme.spacing(0, 1),
+      width: '50%',
+    },
+    '& td.number': {
+      width: 'auto',
+      color: theme.palette.text.secondary,
+      textAlign: 'right',
+      userSelect: 'none',
+    },
+  },
+  removed: {
+    backgroundColor: alpha(theme.palette.error.main, 0.15),
+  },
+  added: {
+    backgroundColor: alpha(theme.palette.success.main, 0.15),
+  },
+}));
+
+async function fetchJson(
+  apis: { discoveryApi: DiscoveryApi; fetchApi: FetchApi },
+  path: string,
+) {
+  const baseUrl = await apis.discoveryApi.getBaseUrl('catalog');
+  const response = await apis.fetchApi.fetch(`${baseUrl}/data-gov-lv${path}`);
+  if (!response.ok) {
+    throw await ResponseError.fromResponse(response);
+  }
+  return response.json();
+}
+
+/** JSON definitions are pretty-printed, so that they diff by line */
+function formatDefinition(definition: string): string {
+  try {
+    return JSON.stringify(JSON.parse(definition), null, 2);
+  } catch {
+    return definition;
+  }
+}
+
+/**
+ * The line diff as side-by-side rows: removed lines are paired with the added lines that replace them.
+ */
+function sideBySide(before: string, after: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let removed: string[] = [];
+
+  const flushRemoved = (added: string[]) => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({
+        left:
+          i < removed.length
+            ? { number: leftNumber++, text: removed[i], removed: true }
+            : undefined,
+        right:
+          i < added.length
+            ? { number: rightNumber++, text: added[i], added: true }
+            : undefined,
+      });
+    }
+    removed = [];
+  };
+
+  for (const part of diffLines(before, after)) {
+    const lines = part.value.replace(/\n$/, '').split('\n');
+    if (part.removed) {
+      removed = lines;
+    } else if (part.added) {
+      flushRemoved(lines);
+    } else {
+      flushRemoved([]);
+      for (const text of lines) {
+        rows.push({
+          left: { number: leftNumber++, text, removed: false },
+          right: { number: rightNumber++, text, added: false },
+        });
+      }
+    }
+  }
+  flushRemoved([]);
+  return rows;
+}
+
+const changeColumns: TableColumn<DefinitionChange>[] = [
+  { title: 'Change', field: 'kind' },
+  { title: 'Field', field: 'path' },
+  { title: 'From', field: 'from' },
+  { title: 'To', field: 'to' },
+  {
+    title: 'Breaking',
+    render: row =>
+      row.breaking ? <Chip label="breaking" color="secondary" /> : null,
+  },
+];
+
+function summary(version: DefinitionVersion): string {
+  if (version.changes.length === 0) {
+    return 'First version';
+  }
+  const counts = new Map<string, number>();
+  for (const change of version.changes) {
+    counts.set(change.kind, (counts.get(change.kind) ?? 0) + 1);
+  }
+  return [...counts].map(([kind, count]) => `${count} ${kind}`).join(', ');
+}
+
+const DefinitionDiff = (props: {
+  before: DefinitionVersion;
+  after: DefinitionVersion;
+}) => {
+  const classes = useStyles();
+  const rows = sideBySide(
+    formatDefinition(props.before.definition ?? ''),
+    formatDefinition(props.after.definition ?? ''),
+  );
+
+  return (
+    <div className={classes.container}>
+      <table className={classes.diff}>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index}>
+              <td className="number">{row.left?.number}</td>
+              <td className={row.left?.removed ? classes.removed : undefined}>
+                {row.left?.text}
+              </td>
+              <td className="number">{row.right?.number}</td>
+              <td className={row.right?.added ? classes.added : undefined}>
+                {row.right?.text}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+/**
+ * The changelog of the spec.definition of the entity, with a side-by-side diff of two of its versions.
+ */
+export const DefinitionHistoryContent = () => {
+  const { entity } = useEntity();
+  const discoveryApi = useApi(discoveryApiRef);
+  const fetchApi = useApi(fetchApiRef);
+  const entityRef = stringifyEntityRef(entity);
+  const [beforeId, setBeforeId] = useState<number>();
+  const [afterId, setAfterId] = useState<number>();
+
+  const versions = useAsync(async () => {
+    const data: { items: DefinitionVersion[] } = await fetchJson(
+      { discoveryApi, fetchApi },
+      `/definitions?${new URLSearchParams({ entityRef })}`,
+    );
+    return data.items;
+  }, [discoveryApi, fetchApi, entityRef]);
+
+  // The latest change by default
+  useEffect(() => {
+    const items = versions.value ?? [];
+    setAfterId(items[0]?.id);
+    setBeforeId(items[1]?.id);
+  }, [versions.value]);
+
+  const diff = useAsync(async () => {
+    if (beforeId === undefined || afterId === undefined) {
+      return undefined;
+    }
+    const [before, after]: DefinitionVersion[] = await Promise.all([
+      fetchJson({ discoveryApi, fetchApi }, `/definitions/${beforeId}`),
+      fetchJson({ discoveryApi, fetchApi }, `/definitions/${afterId}`),
+    ]);
+    return { before, after };
+  }, [discoveryApi, fetchApi, beforeId, afterId]);
+
+  if (versions.loading) {
+    return <Progress />;
+  } else if (versions.error) {
+    return <ResponseErrorPanel error={versions.error} />;
+  } else if (!versions.value?.length) {
+    return (
+      <EmptyState
+        missing="data"
+        title="No definition history"
+        description="The definition is recorded when the entity is processed."
+      />
+    );
+  }
+
+  const items = versions.value;
+  const versionItems = items.map(version => ({
+    label: `${new Date(version.createdAt).toLocaleString()} (${version.type})`,
+    value: version.id,
+  }));
+  const selected = items.find(version => version.id === afterId);
+
+  const versionColumns: TableColumn<DefinitionVersion>[] = [
+    {
+      title: 'First seen',
+      render: row => new Date(row.createdAt).toLocaleString(),
+    },
+    { title: 'Type', field: 'type' },
+    { title: 'Changes', render: row => summary(row) },
+    {
+      title: 'Breaking',
+      render: row =>
+        row.breaking ? <Chip label="breaking" color="secondary" /> : null,
+    },
+  ];
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12}>
+        <Table<DefinitionVersion>
+          title="Changelog"
+          options={{ search: false, paging: items.length > 10, pageSize: 10 }}
+          columns={versionColumns}
+          data={items}
+          onRowClick={(_event, row) => {
+            if (row) {
+              const index = items.indexOf(row);
+              setAfterId(row.id);
+              setBeforeId(items[index + 1]?.id ?? row.id);
+            }
+          }}
+        />
+      </Grid>
+      {selected && selected.changes.length > 0 && (
+        <Grid item xs={12}>
+          <Table<DefinitionChange>
+            title={`Changes of ${new Date(
+              selected.createdAt,
+            ).toLocaleString()}`}
+            options={{ search: true, paging: selected.changes.length > 20 }}
+            columns={changeColumns}
+            data={selected.changes}
+          />
+        </Grid>
+      )}
+      <Grid item xs={12}>
+        <InfoCard title="Diff">
+          <Grid container spacing={2}>
+            <Grid item xs={6}>
+              <Select
+                label="Before"
+                selected={beforeId}
+                items={versionItems}
+                onChange={value => setBeforeId(Number(value))}
+              />
+            </Grid>
+            <Grid item xs={6}>
+              <Select
+                label="After"
+                selected={afterId}
+                items={versionItems}
+                onChange={value => setAfterId(Number(value))}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              {diff.loading && <Progress />}
+              {diff.error && <ResponseErrorPanel error={diff.error} />}
+              {diff.value && (
+                <DefinitionDiff
+                  before={diff.value.before}
+                  after={diff.value.after}
+                />
+              )}
+            </Grid>
+          </Grid>
+        </InfoCard>
+      </Grid>
+    </Grid>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import useAsync from 'react-use/lib/useAsync';
+import {
+  Content,
+  ContentHeader,
+  Header,
+  Link,
+  Page,
+  ResponseErrorPanel,
+  Select,
+  Table,
+  TableColumn,
+} from '@backstage/core-components';
+import {
+  discoveryApiRef,
+  fetchApiRef,
+  useApi,
+} from '@backstage/core-plugin-api';
+import { ResponseError } from '@backstage/errors';
+import { catalogApiRef, EntityRefLink } from '@backstage/plugin-catalog-react';
+import { stringifyEntityRef } from '@backstage/catalog-model';
+
+/** A link check of the data-gov-lv catalog module, see its README */
+type LinkCheck = {
+  entityRef: string;
+  ownerRef?: string;
+  linkType: 'file' | 'endpoint';
+  url: string;
+  status?: number;
+  redirectUrl?: string;
+  error?: string;
+  responseTime?: number;
+  checkedAt: string;
+};
+
+const ALL_ORGANIZATIONS = '';
+
+const columns: TableColumn<LinkCheck>[] = [
+  {
+    title: 'Entity',
+    render: row => <EntityRefLink entityRef={row.entityRef} />,
+  },
+  {
+    title: 'Organization',
+    render: row =>
+      row.ownerRef ? <EntityRefLink entityRef={row.ownerRef} /> : null,
+  },
+  { title: 'Type', field: 'linkType' },
+  {
+    title: 'URL',
+    render: row => <Link to={row.url}>{row.url}</Link>,
+  },
+  {
+    title: 'Status',
+    render: row => row.status ?? row.error,
+  },
+  {
+    title: 'Redirected to',
+    render: row =>
+      row.redirectUrl ? (
+        <Link to={row.redirectUrl}>{row.redirectUrl}</Link>
+      ) : null,
+  },
+  {
+    title: 'Response time',
+    render: row =>
+      row.responseTime === undefined ? null : `${row.responseTime} ms`,
+  },
+  {
+    title: 'Checked',
+    render: row => new Date(row.checkedAt).toLocaleString(),
+  },
+];
+
+export const BrokenLinksPage = () => {
+  const catalogApi = useApi(catalogApiRef);
+  const discoveryApi = useApi(discoveryApiRef);
+  const fetchApi = useApi(fetchApiRef);
+  const [owner, setOwner] = useState(ALL_ORGANIZATIONS);
+
+  const organizations = useAsync(async () => {
+    const response = await catalogApi.getEntities({
+      filter: { kind: 'Group', 'spec.type': 'organization' },
+      fields: ['kind', 'metadata.namespace', 'metadata.name', 'metadata.title'],
+    });
+    return response.items
+      .map(group => ({
+        label: group.metadata.title ?? group.metadata.name,
+        value: stringifyEntityRef(group),
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [catalogApi]);
+
+  const checks = useAsync(async () => {
+    const params = new URLSearchParams({ broken: 'true' });
+    if (owner !== ALL_ORGANIZATIONS) {
+      params.set('owner', owner);
+    }
+    const baseUrl = await discoveryApi.getBaseUrl('catalog');
+    const response = await fetchApi.fetch(
+      `${baseUrl}/data-gov-lv/links?${params}`,
+    );
+    if (!response.ok) {
+      throw await ResponseError.fromResponse(response);
+    }
+    const data: { items: LinkCheck[] } = await response.json();
+    return data.items;
+  }, [discoveryApi, fetchApi, owner]);
+
+  return (
+    <Page themeId="tool">
+      <Header
+        title="Broken links"
+        subtitle="Data files and API endpoints that failed their latest check"
+      />
+      <Content>
+        <ContentHeader title="">
+          <Select
+            label="Organization"
+            selected={owner}
+            items={[
+              { label: 'All', value: ALL_ORGANIZATIONS },
+              ...(organizations.value ?? []),
+            ]}
+            onChange={value => setOwner(`${value}`)}
+          />
+        </ContentHeader>
+        {checks.error ? (
+          <ResponseErrorPanel error={checks.error} />
+        ) : (
+          <Table<LinkCheck>
+            isLoading={checks.loading}
+            options={{ search: true, paging: true, pageSize: 20 }}
+            columns={columns}
+            data={checks.value ?? []}
+          />
+        )}
+      </Content>
+    </Page>
+  );
+};
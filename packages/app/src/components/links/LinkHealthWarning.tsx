@@ -0,0 +1,24 @@
+import React from 'react';
+import { Link, WarningPanel } from '@backstage/core-components';
+import { Entity } from '@backstage/catalog-model';
+import { useEntity } from '@backstage/plugin-catalog-react';
+
+/** The link health annotations of the data-gov-lv catalog module, see its README */
+const ANNOTATION_LINK_HEALTH = 'data.gov.lv/link-health';
+const ANNOTATION_LINK_CHECKED_AT = 'data.gov.lv/link-checked-at';
+
+export const hasBrokenLinks = (entity: Entity) =>
+  entity.metadata.annotations?.[ANNOTATION_LINK_HEALTH] === 'broken';
+
+export const LinkHealthWarning = () => {
+  const { entity } = useEntity();
+  const checkedAt = entity.metadata.annotations?.[ANNOTATION_LINK_CHECKED_AT];
+
+  return (
+    <WarningPanel title="Broken link">
+      A link of this entity did not work when it was checked
+      {checkedAt ? ` on ${new Date(checkedAt).toLocaleString()}` : ''}, see the{' '}
+      <Link to="/broken-links">broken links</Link> report.
+    </WarningPanel>
+  );
+};
@@ -1,9 +1,33 @@
+import { CatalogClient } from '@backstage/catalog-client';
 import { CatalogBuilder } from '@backstage/plugin-catalog-backend';
 import { ScaffolderEntitiesProcessor } from '@backstage/plugin-catalog-backend-module-scaffolder-entity-model';
+import { Publisher } from '@backstage/plugin-techdocs-backend';
 import { Router } from 'express';
 import { PluginEnvironment } from '../types';
+import { CkanEntityProvider } from '../../../../plugins/catalog-backend-module-data-gov-lv/src/ckan-provider';
 import { DataGovLvProvider } from '../../../../plugins/catalog-backend-module-data-gov-lv/src/datagovlv-provider';
+import { CkanSyncStore } from '../../../../plugins/catalog-backend-module-data-gov-lv/src/sync-store';
+import { HttpCache } from '../../../../plugins/catalog-backend-module-data-gov-lv/src/http-cache';
+import { CkanNameStore } from '../../../../plugins/catalog-backend-module-data-gov-lv/src/name-store';
+import { DatasetEntitiesProcessor } from '../../../../plugins/catalog-backend-module-data-gov-lv/src/kinds';
+import { DatasetFreshnessProcessor } from '../../../../plugins/catalog-backend-module-data-gov-lv/src/freshness';
+import { DatasetQualityProcessor } from '../../../../plugins/catalog-backend-module-data-gov-lv/src/quality';
+import {
+  createLinksRouter,
+  LinkChecker,
+  LinkHealthProcessor,
+  LinkStore,
+} from '../../../../plugins/catalog-backend-module-data-gov-lv/src/links';
+import {
+  createDefinitionsRouter,
+  DefinitionHistoryProcessor,
+  DefinitionStore,
+} from '../../../../plugins/catalog-backend-module-data-gov-lv/src/history';
+import { createFrictionlessRouter } from '../../../../plugins/catalog-backend-module-data-gov-lv/src/frictionless';
+import { createDcatRouter } from '../../../../plugins/catalog-backend-module-data-gov-lv/src/dcat';
 import { ApiVissGovLvProvider } from '../../../../plugins/catalog-backend-module-api-viss-gov-lv/src/apivissgovlv-provider';
+import { ApiGatewayProcessor } from '../../../../plugins/catalog-backend-module-api-viss-gov-lv/src/processor';
+import { ListingStore } from '../../../../plugins/catalog-backend-module-api-viss-gov-lv/src/listing-store';
 
 export default async function createPlugin(
   env: PluginEnvironment,
@@ -11,39 +35,89 @@ export default async function createPlugin(
   const builder = CatalogBuilder.create(env);
 
   builder.setFieldFormatValidators({
-    // Default is KubernetesValidatorFunctions.isValidObjectName, which does not allow >63 char names
-    isValidEntityName: () => true,
+    // Entity names keep the default KubernetesValidatorFunctions.isValidObjectName check, the CKAN
+    // and api.viss.gov.lv providers slug the names and cut them to 63 characters.
     // Allow all tags and labels
     isValidTag: () => true,
     isValidLabelValue: () => true,
   });
 
+  const catalogApi = new CatalogClient({ discoveryApi: env.discovery });
+  const linkStore = await LinkStore.create(env.database);
+  const definitionStore = await DefinitionStore.create(env.database);
+
   builder.addProcessor(new ScaffolderEntitiesProcessor());
+  builder.addProcessor(new DatasetEntitiesProcessor());
+  builder.addProcessor(new ApiGatewayProcessor());
+  builder.addProcessor(new LinkHealthProcessor(linkStore));
+  builder.addProcessor(new DatasetQualityProcessor());
+  builder.addProcessor(new DefinitionHistoryProcessor(definitionStore));
+  builder.addProcessor(new DatasetFreshnessProcessor());
 
-  const dataGovLv = new DataGovLvProvider('production');
-  const apiVissGovLv = new ApiVissGovLvProvider('production');
-  builder.addEntityProvider(dataGovLv);
+  const syncStore = await CkanSyncStore.create(env.database);
+  const httpCache = await HttpCache.create(env.database);
+  const nameStore = await CkanNameStore.create(env.database);
+  const ckanProviders = [
+    ...DataGovLvProvider.fromConfig(env.config, { syncStore, httpCache, nameStore, linkStore }),
+    ...CkanEntityProvider.fromConfig(env.config, { syncStore, httpCache, nameStore, linkStore }),
+  ];
+  const apiVissGovLv = ApiVissGovLvProvider.fromConfig(env.config, {
+    publisher: await Publisher.fromConfig(env.config, {
+      logger: env.logger,
+      discovery: env.discovery,
+    }),
+    listingStore: await ListingStore.create(env.database),
+  });
+  builder.addEntityProvider(ckanProviders);
   builder.addEntityProvider(apiVissGovLv);
 
   const { processingEngine, router } = await builder.build();
   await processingEngine.start();
 
+  for (const ckan of ckanProviders) {
+    await env.scheduler.scheduleTask({
+      id: `run_${ckan.getProviderName()}_refresh`,
+      fn: async () => {
+        await ckan.run();
+      },
+      ...ckan.schedule,
+    });
+  }
   await env.scheduler.scheduleTask({
-    id: 'run_dataGovLv_refresh',
+    id: 'run_apiVissGovLv_refresh',
     fn: async () => {
-      await dataGovLv.run();
+      await apiVissGovLv.run();
     },
-    frequency: { minutes: 300 },
-    timeout: { minutes: 200 },
+    ...apiVissGovLv.schedule,
+  });
+
+  const linkChecker = LinkChecker.fromConfig(env.config, {
+    catalogApi,
+    tokenManager: env.tokenManager,
+    linkStore,
   });
   await env.scheduler.scheduleTask({
-    id: 'run_apiVissGovLv_refresh',
+    id: 'run_link_checker',
     fn: async () => {
-      await apiVissGovLv.run();
+      await linkChecker.run();
     },
-    frequency: { minutes: 300 },
-    timeout: { minutes: 200 },
+    ...linkChecker.schedule,
   });
 
-  return router;
+  // The data-gov-lv routes are served under the catalog, the link and definition histories live in its database
+  const catalogRouter = Router();
+  catalogRouter.use('/data-gov-lv', await createLinksRouter({ linkStore }));
+  catalogRouter.use('/data-gov-lv', await createDefinitionsRouter({ definitionStore }));
+  catalogRouter.use('/data-gov-lv', await createFrictionlessRouter({
+    catalogApi,
+    tokenManager: env.tokenManager,
+  }));
+  catalogRouter.use('/data-gov-lv', await createDcatRouter({
+    config: env.config,
+    catalogApi,
+    tokenManager: env.tokenManager,
+    discovery: env.discovery,
+  }));
+  catalogRouter.use(router);
+  return catalogRouter;
 }
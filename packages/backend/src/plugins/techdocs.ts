@@ -1,6 +1,7 @@
 import { DockerContainerRunner } from '@backstage/backend-common';
 import {
   createRouter,
+  DocsBuildStrategy,
   Generators,
   Preparers,
   Publisher,
@@ -8,6 +9,7 @@ import {
 import Docker from 'dockerode';
 import { Router } from 'express';
 import { PluginEnvironment } from '../types';
+import { ANNOTATION_TECHDOCS_BUILDER } from '../../../../plugins/catalog-backend-module-api-viss-gov-lv/src/documents';
 
 export default async function createPlugin(
   env: PluginEnvironment,
@@ -39,6 +41,13 @@ export default async function createPlugin(
   // checks if the publisher is working and logs the result
   await publisher.getReadiness();
 
+  // The api.viss.gov.lv documents are published by the catalog provider, there is nothing to build
+  const docsBuildStrategy: DocsBuildStrategy = {
+    shouldBuild: async ({ entity }) =>
+      env.config.getString('techdocs.builder') === 'local' &&
+      entity.metadata.annotations?.[ANNOTATION_TECHDOCS_BUILDER] !== 'external',
+  };
+
   return await createRouter({
     preparers,
     generators,
@@ -47,5 +56,6 @@ export default async function createPlugin(
     config: env.config,
     discovery: env.discovery,
     cache: env.cache,
+    docsBuildStrategy,
   });
 }
@@ -0,0 +1,65 @@
+import { TaskScheduleDefinitionConfig } from '@backstage/backend-tasks';
+
+export interface Config {
+  catalog?: {
+    providers?: {
+      /**
+       * ApiVissGovLvProvider configuration.
+       */
+      apiVissGovLv?: {
+        /**
+         * (Optional) Environment of the provider, part of its name.
+         * Default: `production`.
+         */
+        env?: string;
+        /**
+         * (Optional) A listing with fewer APIs than this share of the last applied listing is not
+         * applied, so that a partial listing does not remove the missing APIs. Set it to 0 for a
+         * run to apply a shrink that is confirmed.
+         * Default: `0.5`.
+         */
+        minCountRatio?: number;
+        /**
+         * (Optional) TaskScheduleDefinition for the refresh.
+         * Default: every 300 minutes with a 200 minute timeout.
+         */
+        schedule?: TaskScheduleDefinitionConfig;
+        /**
+         * (Optional) Credentials of the api.viss.gov.lv devportal, either an API key or OAuth2
+         * client credentials. The WSDLs of the SOAP APIs are only fetched with them.
+         */
+        auth?: {
+          /**
+           * API key of a devportal application.
+           * @visibility secret
+           */
+          apiKey?: string;
+          /**
+           * (Optional) Header of the API key.
+           * Default: `apikey`.
+           */
+          header?: string;
+          /**
+           * Consumer key of a devportal application, for the client credentials grant.
+           */
+          clientId?: string;
+          /**
+           * Consumer secret of a devportal application.
+           * @visibility secret
+           */
+          clientSecret?: string;
+          /**
+           * (Optional) Token endpoint of the client credentials grant.
+           * Default: `https://api.viss.gov.lv/oauth2/token`.
+           */
+          tokenUrl?: string;
+          /**
+           * (Optional) Scope of the access token.
+           * Default: `apim:subscribe`.
+           */
+          scope?: string;
+        };
+      };
+    };
+  };
+}
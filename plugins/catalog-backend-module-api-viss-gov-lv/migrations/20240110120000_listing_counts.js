@@ -0,0 +1,30 @@
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('viss_listing_counts', table => {
+    table.comment('The API count of the last listing each api.viss.gov.lv provider applied');
+    table
+      .string('provider_name')
+      .primary()
+      .notNullable()
+      .comment('The entity provider name');
+    table
+      .integer('api_count')
+      .notNullable()
+      .comment('The number of listed APIs');
+    table
+      .timestamp('listed_at', { useTz: false })
+      .notNullable()
+      .comment('When the listing was applied');
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('viss_listing_counts');
+};
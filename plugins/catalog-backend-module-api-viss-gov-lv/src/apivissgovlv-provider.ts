@@ -1,12 +1,25 @@
 import {
-  ApiEntity, ComponentEntity, GroupEntity, SystemEntity,
+  ApiEntity, ComponentEntity, GroupEntity, ResourceEntity, SystemEntity,
   ANNOTATION_ORIGIN_LOCATION, ANNOTATION_LOCATION, ANNOTATION_VIEW_URL,
 } from '@backstage/catalog-model';
 import {
   EntityProvider,
   EntityProviderConnection,
 } from '@backstage/plugin-catalog-node';
+import { TaskScheduleDefinition } from '@backstage/backend-tasks';
+import { Config } from '@backstage/config';
+import { PublisherBase } from '@backstage/plugin-techdocs-node';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, join } from 'path';
 import PQueue from 'p-queue';
+import { DEFAULT_SCHEDULE, DevportalAuthConfig, readApiVissGovLvConfig } from './config';
+import { DevportalCredentials } from './credentials';
+import { ANNOTATION_TECHDOCS_BUILDER, ApiDocument, docsSite, DocumentContent } from './documents';
+import { ListingStore } from './listing-store';
+import { entityName, versionedEntityName } from './names';
+import { RESOURCE_TYPE_API_GATEWAY } from './processor';
+import { bundleWsdl } from './wsdl';
 
 type ApiListItem = {
   id: string
@@ -24,6 +37,35 @@ type ApiListItem = {
   [k: string]: unknown
 };
 
+type DevportalList<T> = {
+  /** The number of items on this page */
+  count: number
+  list: T[]
+  pagination?: {
+    offset: number
+    limit: number
+    total: number
+    next: string
+    previous: string
+  }
+};
+
+type EndpointUrls = {
+  http: string | null
+  https: string | null
+  ws: string | null
+  wss: string | null
+};
+
+/** The URLs of an API in a gateway environment */
+type Endpoint = {
+  environmentName: string
+  environmentDisplayName: string
+  environmentType: string
+  URLs: EndpointUrls
+  defaultVersionURLs: EndpointUrls
+};
+
 type ApiDefinition = {
   id: string
   name: string
@@ -32,7 +74,7 @@ type ApiDefinition = {
   version: string
   provider: string
   apiDefinition: string
-  wsdlUri: null
+  wsdlUri: string | null
   lifeCycleStatus: "PUBLISHED"
   isDefaultVersion: boolean
   type: "HTTP"
@@ -54,23 +96,7 @@ type ApiDefinition = {
     value: "false" | "true"
     display: boolean
   }[]
-  endpointURLs: {
-    environmentName: string
-    environmentDisplayName: string
-    environmentType: string
-    URLs: {
-      http: string | null
-      https: string
-      ws: null
-      wss: null
-    }
-    defaultVersionURLs: {
-      http: string | null
-      https: string | null
-      ws: null
-      wss: null
-    }
-  }[]
+  endpointURLs: Endpoint[]
   businessInformation: {
     businessOwner: string | null
     businessOwnerEmail: null | string
@@ -91,21 +117,70 @@ type ApiDefinition = {
   [k: string]: unknown
 }
 
+/** The version of an API version entity */
+export const ANNOTATION_API_VERSION = "api.viss.gov.lv/version";
+/** `true` on the API version entity of the default version */
+export const ANNOTATION_DEFAULT_VERSION = "api.viss.gov.lv/default-version";
+
+export type ApiVissGovLvProviderOptions = {
+  /** Publishes the devportal documents of the APIs as their TechDocs sites */
+  publisher?: PublisherBase
+  /** Credentials of the devportal, the WSDLs of the SOAP APIs are only fetched with them */
+  auth?: DevportalAuthConfig
+  /** Keeps the API count of the last applied listing across restarts, without it the count is kept in memory */
+  listingStore?: ListingStore
+  /** A listing with fewer APIs than this share of the last applied one is not applied, default 0.5 */
+  minCountRatio?: number
+  /** When to run the provider, default every 300 minutes with a 200 minute timeout */
+  schedule?: TaskScheduleDefinition
+};
+
+/** A gateway environment, the ApiGatewayProcessor emits the relations of `spec.providesApis` */
+type GatewayResourceEntity = ResourceEntity & {
+  spec: { providesApis: string[] }
+};
+
 export class ApiVissGovLvProvider implements EntityProvider {
-  private static readonly API_LIST = "https://api.viss.gov.lv/api/am/devportal/v2/apis?limit=1000&offset=0";
+  private static readonly API_LIST = "https://api.viss.gov.lv/api/am/devportal/v2/apis";
   private static readonly API_SHOW = "https://api.viss.gov.lv/api/am/devportal/v2/apis/{ID}";
   private static readonly API_DOCS = "https://api.viss.gov.lv/api/am/devportal/v2/apis/{ID}/documents";
   private static readonly API_WSDL = "https://api.viss.gov.lv";
 
   private static readonly NAMESPACE = "viss-gov-lv";
 
+  /** Owner of the gateway environments */
+  private static readonly GATEWAY_OWNER = "api-viss-gov-lv";
+
+  private static readonly PAGE_SIZE = 100;
+
+  private static readonly DEFAULT_MIN_COUNT_RATIO = 0.5;
+
   private readonly env: string;
+  private readonly publisher?: PublisherBase;
+  private readonly credentials?: DevportalCredentials;
+  private readonly listingStore?: ListingStore;
+  private readonly minCountRatio: number;
+  readonly schedule: TaskScheduleDefinition;
   private connection?: EntityProviderConnection;
+  private previousCount?: number;
 
   private readonly pqueue = new PQueue({ concurrency: 10, });
 
-  constructor(env: string) {
+  constructor(env: string, options: ApiVissGovLvProviderOptions = {}) {
     this.env = env;
+    this.publisher = options.publisher;
+    this.credentials = options.auth && new DevportalCredentials(options.auth);
+    this.listingStore = options.listingStore;
+    this.minCountRatio = options.minCountRatio ?? ApiVissGovLvProvider.DEFAULT_MIN_COUNT_RATIO;
+    this.schedule = options.schedule ?? DEFAULT_SCHEDULE;
+  }
+
+  static fromConfig(
+    config: Config,
+    options: Omit<ApiVissGovLvProviderOptions, "auth" | "minCountRatio" | "schedule"> = {},
+  ): ApiVissGovLvProvider {
+    const { env, auth, minCountRatio, schedule } = readApiVissGovLvConfig(config);
+    return new ApiVissGovLvProvider(env, { ...options, auth, minCountRatio, schedule });
   }
 
   getProviderName(): string {
@@ -122,30 +197,46 @@ export class ApiVissGovLvProvider implements EntityProvider {
     }
 
     const apis = await this.listApis();
+    // The full mutation deletes the APIs missing from the listing, a partial listing would empty the catalog
+    const previousCount = this.listingStore
+      ? await this.listingStore.getCount(this.getProviderName())
+      : this.previousCount;
+    if (previousCount !== undefined && apis.length < previousCount * this.minCountRatio) {
+      console.error(`Listed ${apis.length} APIs, ${previousCount} in the last applied listing, the catalog is left as it is`);
+      return;
+    }
+
     const apiDefinitions = this.promiseApiDefinitions(apis);
 
-    const components = this.transformToComponents(apiDefinitions);
+    const components = await this.transformToComponents(apiDefinitions);
     const apiComponents = this.transformToApis(apiDefinitions);
     const groups = this.transformToGroups(apiDefinitions);
     const systems = this.transformToSystems(apiDefinitions);
+    const resources = await this.transformToResources(apiDefinitions);
 
     console.log(`Components:\t${components.length}`);
     console.log(`APIs:\t${apiComponents.length}`);
     console.log(`Groups:\t${groups.length}`);
     console.log(`Systems:\t${systems.length}`);
+    console.log(`Resources:\t${resources.length}`);
 
     await this.connection.applyMutation({
       type: 'full',
       entities: [
-        ...await Promise.all(components),
+        ...components,
         ...await Promise.all(apiComponents),
         ...await Promise.all(groups),
         ...(await Promise.all(systems)).flat(),
+        ...resources,
+        this.transformToGatewayOwner(),
       ].map(entity => ({
         entity,
         locationKey: `${this.getProviderName()}:${this.env}`,
       })),
     });
+
+    this.previousCount = apis.length;
+    await this.listingStore?.setCount(this.getProviderName(), apis.length);
   }
 
   transformToSystems(apis: Promise<ApiDefinition>[]): Promise<SystemEntity | []>[] {
@@ -162,7 +253,8 @@ export class ApiVissGovLvProvider implements EntityProvider {
       apiVersion: 'backstage.io/v1beta1',
       kind: 'System',
       metadata: {
-        name: api.categories[0],
+        name: entityName(api.categories[0]),
+        title: api.categories[0],
         namespace: ApiVissGovLvProvider.NAMESPACE,
         links: [{
           url: `https://api.viss.gov.lv/devportal/apis?offset=0&query=api-category%3A${api.categories[0]}`,
@@ -171,7 +263,7 @@ export class ApiVissGovLvProvider implements EntityProvider {
         annotations: this.annotations(),
       },
       spec: {
-        owner: api.businessInformation.businessOwner ?? api.businessInformation.technicalOwner ?? api.provider,
+        owner: this.ownerName(api),
       },
     }
   }
@@ -183,13 +275,12 @@ export class ApiVissGovLvProvider implements EntityProvider {
   async transformToGroup(apiPromise: Promise<ApiDefinition>): Promise<GroupEntity> {
     const api = await apiPromise;
 
-    const name = api.businessInformation.businessOwner ?? api.businessInformation.technicalOwner ?? api.provider;
-
     return {
       apiVersion: 'backstage.io/v1beta1',
       kind: 'Group',
       metadata: {
-        name: name,
+        name: this.ownerName(api),
+        title: this.owner(api),
         namespace: ApiVissGovLvProvider.NAMESPACE,
         annotations: this.annotations(),
       },
@@ -210,52 +301,252 @@ export class ApiVissGovLvProvider implements EntityProvider {
 
   async transformToApi(apiPromise: Promise<ApiDefinition>): Promise<ApiEntity> {
     const api = await apiPromise;
-    return {
+    const wsdl = await this.getWsdl(api);
+    const entity: ApiEntity = {
       apiVersion: 'backstage.io/v1beta1',
       kind: 'API',
       metadata: {
-        name: api.name,
+        name: versionedEntityName(api.name, api.version),
+        title: `${api.name} ${api.version}`,
         namespace: ApiVissGovLvProvider.NAMESPACE,
         description: (api.description ?? "") +
-          (api.wsdlUri ? `\n\n!!! WSDL: ${ApiVissGovLvProvider.API_WSDL + api.wsdlUri}` : ""),
-          annotations: this.annotations(),
-          links: [{
+          (api.wsdlUri && !wsdl ? `\n\n!!! WSDL: ${ApiVissGovLvProvider.API_WSDL + api.wsdlUri}` : ""),
+        annotations: {
+          ...this.annotations(),
+          [ANNOTATION_API_VERSION]: api.version,
+          ...(api.isDefaultVersion ? { [ANNOTATION_DEFAULT_VERSION]: "true" } : {}),
+        },
+        links: [{
           url: `https://api.viss.gov.lv/devportal/apis/${api.id}/overview`,
           title: "Backlink to api.viss.gov.lv",
-        }],
+        }, ...this.endpointLinks(api)],
       },
       spec: {
-        type: api.wsdlUri ? "WSDL" : "swagger",
+        // Without the WSDL a SOAP API has the generated OpenAPI document as its definition
+        type: wsdl ? "wsdl" : "swagger",
         lifecycle: api.lifeCycleStatus === "PUBLISHED" ? "production" : "experimental",
-        owner: api.businessInformation.businessOwner ?? api.businessInformation.technicalOwner ?? api.provider,
-        // WSDL behind auth
-        // definition: api.wsdlUri
-        //   ? { $text: ApiVissGovLvProvider.API_WSDL + api.wsdlUri }
-        //   : api.apiDefinition,
-        definition: api.apiDefinition,
-        system: api.categories.at(0),
+        owner: this.ownerName(api),
+        definition: wsdl ?? api.apiDefinition,
+        system: this.systemName(api),
       },
     };
+
+    if (this.publisher && await this.publishDocuments(entity, api)) {
+      entity.metadata.annotations = {
+        ...entity.metadata.annotations,
+        "backstage.io/techdocs-ref": "dir:.",
+        [ANNOTATION_TECHDOCS_BUILDER]: "external",
+      };
+    }
+    return entity;
   }
 
-  transformToComponents(apis: Promise<ApiDefinition>[]): Promise<ComponentEntity>[] {
-    return apis.map(api => this.transformToComponent(api));
+  /**
+   * The WSDL of a SOAP API bundled with the schemas it imports. The WSDL is behind auth, so it is
+   * only fetched with the devportal credentials.
+   */
+  async getWsdl(api: ApiDefinition): Promise<string | undefined> {
+    if (!api.wsdlUri || !this.credentials) {
+      return undefined;
+    }
+    try {
+      return await bundleWsdl(ApiVissGovLvProvider.API_WSDL + api.wsdlUri, url => this.fetchAuthorized(url));
+    } catch (error) {
+      console.error(`Fetching the WSDL of ${api.name} failed`, error);
+      return undefined;
+    }
   }
 
-  async transformToComponent(apiPromise: Promise<ApiDefinition>): Promise<ComponentEntity> {
-    const api = await apiPromise;
+  async fetchAuthorized(url: string): Promise<string> {
+    const headers = await this.credentials!.headers();
+    const response = await this.pqueue.add(() => fetch(url, { headers }));
+    if (response.status !== 200) {
+      throw new Error(`${url} returned ${response.status} - ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  /**
+   * Publishes the devportal documents of an API as the TechDocs site of its entity, unless the
+   * published site has the same etag. Returns whether the API has a site.
+   */
+  async publishDocuments(entity: ApiEntity, api: ApiDefinition): Promise<boolean> {
+    const publisher = this.publisher!;
+    try {
+      const documents = await this.listPages<ApiDocument>(ApiVissGovLvProvider.API_DOCS.replace("{ID}", api.id));
+      if (documents.length === 0) {
+        return false;
+      }
+      const contents = await Promise.all(documents.map(document => this.getDocumentContent(api, document)));
+      const site = docsSite(api, documents.map((document, i) => ({ document, content: contents[i] })));
+
+      const published = await publisher.fetchTechDocsMetadata({
+        namespace: ApiVissGovLvProvider.NAMESPACE,
+        kind: entity.kind,
+        name: entity.metadata.name,
+      }).catch(() => undefined);
+      if (published?.etag === site.etag) {
+        return true;
+      }
+
+      const directory = await mkdtemp(join(tmpdir(), 'apivissgovlv-docs-'));
+      try {
+        for (const [path, content] of site.files) {
+          await mkdir(dirname(join(directory, path)), { recursive: true });
+          await writeFile(join(directory, path), content);
+        }
+        await publisher.publish({ entity, directory });
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+      return true;
+    } catch (error) {
+      console.error(`Publishing the documents of ${api.name} failed`, error);
+      // The site published in an earlier run is still readable
+      return publisher.hasDocsBeenGenerated(entity).catch(() => false);
+    }
+  }
+
+  /**
+   * The text of an inline or markdown document, the file of a file document. URL documents are only linked.
+   */
+  async getDocumentContent(api: ApiDefinition, document: ApiDocument): Promise<DocumentContent> {
+    if (document.sourceType === "URL") {
+      return undefined;
+    }
+    const url = `${ApiVissGovLvProvider.API_DOCS.replace("{ID}", api.id)}/${document.documentId}/content`;
+    const response = await this.pqueue.add(() => fetch(url));
+    if (response.status !== 200) {
+      throw new Error(`${url} returned ${response.status} - ${response.statusText}`);
+    }
+    if (document.sourceType !== "FILE") {
+      return { text: await response.text() };
+    }
+    const disposition = response.headers.get("content-disposition") ?? "";
+    return {
+      file: Buffer.from(await response.arrayBuffer()),
+      fileName: basename(disposition.match(/filename="?([^";]+)"?/)?.[1] ?? document.name),
+      contentType: response.headers.get("content-type") ?? "",
+    };
+  }
+
+  /**
+   * The gateway URL of each environment, the link checker checks the links of type `endpoint`.
+   */
+  endpointLinks(api: ApiDefinition) {
+    return (api.endpointURLs ?? [])
+      .map(endpoint => ({
+        url: endpoint.URLs.https ?? endpoint.URLs.http,
+        title: `${endpoint.environmentDisplayName} endpoint`,
+        type: "endpoint",
+      }))
+      .filter((link): link is { url: string; title: string; type: string } => !!link.url);
+  }
+
+  /**
+   * One Resource per gateway environment, with the endpoint URLs of the API versions exposed there
+   * as links. The environment provides the API versions and their Components depend on it.
+   */
+  async transformToResources(apis: Promise<ApiDefinition>[]): Promise<GatewayResourceEntity[]> {
+    const environments = new Map<string, { api: ApiDefinition, endpoint: Endpoint }[]>();
+    for (const api of await Promise.all(apis)) {
+      for (const endpoint of api.endpointURLs ?? []) {
+        environments.set(endpoint.environmentName, [...(environments.get(endpoint.environmentName) ?? []), { api, endpoint }]);
+      }
+    }
+
+    return [...environments.values()].map((exposed): GatewayResourceEntity => {
+      const { endpoint } = exposed[0];
+      const environmentApis = exposed.map(({ api }) => api);
+      return {
+        apiVersion: 'backstage.io/v1beta1',
+        kind: 'Resource',
+        metadata: {
+          name: entityName(`${endpoint.environmentName}-gateway`),
+          title: `${endpoint.environmentDisplayName} gateway`,
+          namespace: ApiVissGovLvProvider.NAMESPACE,
+          labels: {
+            "environment-type": endpoint.environmentType,
+          },
+          annotations: this.annotations(),
+          links: exposed.flatMap(({ api, endpoint: apiEndpoint }) => this.environmentLinks(api, apiEndpoint)),
+        },
+        spec: {
+          type: RESOURCE_TYPE_API_GATEWAY,
+          owner: ApiVissGovLvProvider.GATEWAY_OWNER,
+          dependencyOf: [...new Set(environmentApis.map(api => `component:${entityName(api.name)}`))],
+          providesApis: environmentApis.map(api => versionedEntityName(api.name, api.version)),
+        },
+      };
+    });
+  }
+
+  /**
+   * The URLs of an API version in an environment, by protocol, and the URLs without the version
+   * that the default version is also served at.
+   */
+  environmentLinks(api: ApiDefinition, endpoint: Endpoint) {
+    const protocols = ["https", "http", "wss", "ws"] as const;
+    return [
+      ...protocols.map(protocol => ({
+        url: endpoint.URLs[protocol],
+        title: `${api.name} ${api.version} (${protocol})`,
+      })),
+      ...protocols.map(protocol => ({
+        url: api.isDefaultVersion ? endpoint.defaultVersionURLs?.[protocol] : undefined,
+        title: `${api.name} default version (${protocol})`,
+      })),
+    ].filter((link): link is { url: string; title: string } => !!link.url);
+  }
+
+  transformToGatewayOwner(): GroupEntity {
+    return {
+      apiVersion: 'backstage.io/v1beta1',
+      kind: 'Group',
+      metadata: {
+        name: ApiVissGovLvProvider.GATEWAY_OWNER,
+        title: "api.viss.gov.lv",
+        namespace: ApiVissGovLvProvider.NAMESPACE,
+        annotations: this.annotations(),
+        links: [{
+          url: "https://api.viss.gov.lv/devportal/apis",
+          title: "Backlink to api.viss.gov.lv",
+        }],
+      },
+      spec: {
+        type: "platform",
+        children: [],
+      },
+    };
+  }
+
+  /**
+   * One Component per API name, the version-agnostic parent that provides the API versions.
+   * Its metadata comes from the default version.
+   */
+  async transformToComponents(apis: Promise<ApiDefinition>[]): Promise<ComponentEntity[]> {
+    const versions = new Map<string, ApiDefinition[]>();
+    for (const api of await Promise.all(apis)) {
+      const name = entityName(api.name);
+      versions.set(name, [...(versions.get(name) ?? []), api]);
+    }
+    return [...versions.values()].map(apiVersions => this.transformToComponent(apiVersions));
+  }
+
+  transformToComponent(apiVersions: ApiDefinition[]): ComponentEntity {
+    const api = apiVersions.find(version => version.isDefaultVersion) ?? apiVersions[apiVersions.length - 1];
     return {
       apiVersion: 'backstage.io/v1beta1',
       kind: 'Component',
       metadata: {
-        name: api.name,
+        name: entityName(api.name),
+        title: api.name,
         namespace: ApiVissGovLvProvider.NAMESPACE,
         description: api.description ?? undefined,
         labels: {
         },
         tags: api.tags,
         annotations: {
-          version: api.version,
           provider: api.provider,
           avgRating: api.avgRating,
           ...this.annotations(),
@@ -268,14 +559,26 @@ export class ApiVissGovLvProvider implements EntityProvider {
       },
       spec: {
         type: api.type,
-        owner: api.businessInformation.businessOwner ?? api.businessInformation.technicalOwner ?? api.provider,
+        owner: this.ownerName(api),
         lifecycle: api.lifeCycleStatus === "PUBLISHED" ? "production" : "experimental",
-        providesApis: [api.name],
-        system: api.categories.at(0),
+        providesApis: apiVersions.map(version => versionedEntityName(version.name, version.version)),
+        system: this.systemName(api),
       },
     };
   }
 
+  owner(api: ApiDefinition): string {
+    return api.businessInformation.businessOwner ?? api.businessInformation.technicalOwner ?? api.provider;
+  }
+
+  ownerName(api: ApiDefinition): string {
+    return entityName(this.owner(api));
+  }
+
+  systemName(api: ApiDefinition): string | undefined {
+    return api.categories.length > 0 ? entityName(api.categories[0]) : undefined;
+  }
+
   promiseApiDefinitions(apis: ApiListItem[]): Promise<ApiDefinition>[] {
     return apis.map(api => this.getApiDefinition(api));
   }
@@ -291,9 +594,32 @@ export class ApiVissGovLvProvider implements EntityProvider {
   }
 
   async listApis(): Promise<ApiListItem[]> {
-    const response = await fetch(ApiVissGovLvProvider.API_LIST);
-    const data = await response.json();
-    return data.list as ApiListItem[];
+    return this.listPages<ApiListItem>(ApiVissGovLvProvider.API_LIST);
+  }
+
+  /**
+   * Pages through a devportal listing until the `pagination.total` items it reports are fetched.
+   * The total is read from every page, a listing that ends short of it is an error.
+   */
+  async listPages<T>(url: string): Promise<T[]> {
+    const limit = ApiVissGovLvProvider.PAGE_SIZE;
+    const items: T[] = [];
+    for (let offset = 0; ; offset += limit) {
+      const params = new URLSearchParams({ limit: `${limit}`, offset: `${offset}` });
+      const response = await this.pqueue.add(() => fetch(`${url}?${params}`));
+      if (response.status !== 200) {
+        throw new Error(`${url} returned ${response.status} - ${response.statusText}`);
+      }
+      const data: DevportalList<T> = await response.json();
+      items.push(...data.list);
+      const total = data.pagination?.total ?? data.count;
+      if (items.length >= total) {
+        return items;
+      }
+      if (data.list.length === 0) {
+        throw new Error(`${url} listed ${items.length} of ${total} items`);
+      }
+    }
   }
 
   annotations() {
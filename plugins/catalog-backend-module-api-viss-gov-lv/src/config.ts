@@ -0,0 +1,88 @@
+import {
+  readTaskScheduleDefinitionFromConfig,
+  TaskScheduleDefinition,
+} from '@backstage/backend-tasks';
+import { Config } from '@backstage/config';
+
+/**
+ * Credentials of the api.viss.gov.lv devportal, for the documents behind auth such as the WSDLs of SOAP APIs.
+ */
+export type DevportalAuthConfig =
+  | {
+    type: "clientCredentials"
+    clientId: string
+    clientSecret: string
+    tokenUrl: string
+    scope: string
+  }
+  | {
+    type: "apiKey"
+    apiKey: string
+    header: string
+  };
+
+export type ApiVissGovLvConfig = {
+  env: string
+  auth?: DevportalAuthConfig
+  /** A listing with fewer APIs than this share of the last applied one is not applied */
+  minCountRatio: number
+  schedule: TaskScheduleDefinition
+};
+
+const DEFAULT_ENV = "production";
+const DEFAULT_TOKEN_URL = "https://api.viss.gov.lv/oauth2/token";
+const DEFAULT_SCOPE = "apim:subscribe";
+const DEFAULT_API_KEY_HEADER = "apikey";
+const DEFAULT_MIN_COUNT_RATIO = 0.5;
+export const DEFAULT_SCHEDULE: TaskScheduleDefinition = {
+  frequency: { minutes: 300 },
+  timeout: { minutes: 200 },
+};
+
+/**
+ * Reads the provider config at `catalog.providers.apiVissGovLv`, all of it is optional. Without
+ * credentials the APIs are read from the public devportal listing only.
+ */
+export function readApiVissGovLvConfig(config: Config): ApiVissGovLvConfig {
+  const providerConfig = config.getOptionalConfig("catalog.providers.apiVissGovLv");
+  const authConfig = providerConfig?.getOptionalConfig("auth");
+  const env = providerConfig?.getOptionalString("env") ?? DEFAULT_ENV;
+  const minCountRatio = providerConfig?.getOptionalNumber("minCountRatio") ?? DEFAULT_MIN_COUNT_RATIO;
+  if (minCountRatio < 0 || minCountRatio > 1) {
+    throw new Error("Invalid minCountRatio for api.viss.gov.lv, expected a number from 0 to 1");
+  }
+  const schedule = providerConfig?.has("schedule")
+    ? readTaskScheduleDefinitionFromConfig(providerConfig.getConfig("schedule"))
+    : DEFAULT_SCHEDULE;
+
+  if (!authConfig) {
+    return { env, minCountRatio, schedule };
+  }
+  if (authConfig.has("apiKey")) {
+    return {
+      env,
+      minCountRatio,
+      schedule,
+      auth: {
+        type: "apiKey",
+        apiKey: authConfig.getString("apiKey"),
+        header: authConfig.getOptionalString("header") ?? DEFAULT_API_KEY_HEADER,
+      },
+    };
+  }
+  if (!authConfig.has("clientId") || !authConfig.has("clientSecret")) {
+    throw new Error("Invalid auth for api.viss.gov.lv, expected an apiKey or a clientId and clientSecret");
+  }
+  return {
+    env,
+    minCountRatio,
+    schedule,
+    auth: {
+      type: "clientCredentials",
+      clientId: authConfig.getString("clientId"),
+      clientSecret: authConfig.getString("clientSecret"),
+      tokenUrl: authConfig.getOptionalString("tokenUrl") ?? DEFAULT_TOKEN_URL,
+      scope: authConfig.getOptionalString("scope") ?? DEFAULT_SCOPE,
+    },
+  };
+}
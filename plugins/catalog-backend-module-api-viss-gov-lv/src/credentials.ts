@@ -0,0 +1,52 @@
+import { DevportalAuthConfig } from './config';
+
+type AccessToken = { value: string, expiresAt: number };
+
+/** Seconds before the expiry of an access token when a new one is requested */
+const EXPIRY_MARGIN = 60;
+
+/**
+ * The authorization headers of the devportal requests: the API key, or an OAuth2 access token of
+ * the client credentials grant, requested again before it expires.
+ */
+export class DevportalCredentials {
+  private token?: Promise<AccessToken>;
+
+  constructor(private readonly auth: DevportalAuthConfig) {}
+
+  async headers(): Promise<Record<string, string>> {
+    if (this.auth.type === "apiKey") {
+      return { [this.auth.header]: this.auth.apiKey };
+    }
+
+    const token = this.token && await this.token.catch(() => undefined);
+    if (!token || token.expiresAt <= Date.now()) {
+      // Concurrent requests share one token request
+      this.token = this.requestToken();
+    }
+    return { Authorization: `Bearer ${(await this.token!).value}` };
+  }
+
+  private async requestToken(): Promise<AccessToken> {
+    if (this.auth.type !== "clientCredentials") {
+      throw new Error("No client credentials");
+    }
+    const { clientId, clientSecret, tokenUrl, scope } = this.auth;
+    const response = await fetch(tokenUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ grant_type: "client_credentials", scope }),
+    });
+    if (response.status !== 200) {
+      throw new Error(`${tokenUrl} returned ${response.status} - ${response.statusText}`);
+    }
+    const data = await response.json();
+    return {
+      value: data.access_token,
+      expiresAt: Date.now() + (Number(data.expires_in ?? 3600) - EXPIRY_MARGIN) * 1000,
+    };
+  }
+}
@@ -0,0 +1,24 @@
+import {
+  PluginDatabaseManager,
+  resolvePackagePath,
+} from '@backstage/backend-common';
+import { Knex } from 'knex';
+
+const migrationsDir = resolvePackagePath(
+  '@internal/plugin-catalog-backend-module-api-viss-gov-lv',
+  'migrations',
+);
+
+/**
+ * The module shares the catalog database, so it keeps its own migrations table.
+ */
+export async function getMigratedClient(database: PluginDatabaseManager): Promise<Knex> {
+  const client = await database.getClient();
+  if (!database.migrations?.skip) {
+    await client.migrate.latest({
+      directory: migrationsDir,
+      tableName: 'viss_knex_migrations',
+    });
+  }
+  return client;
+}
@@ -0,0 +1,211 @@
+import { createHash } from 'crypto';
+import { marked } from 'marked';
+
+/**
+ * The devportal documents of an API as a prebuilt TechDocs site: an index page and a page per document
+ * in the markup of the MkDocs Material theme the TechDocs reader expects, `techdocs_metadata.json`
+ * and the `search/search_index.json` of the search collator.
+ */
+
+/** Entities with this annotation set to `external` are published by the provider, not built by TechDocs */
+export const ANNOTATION_TECHDOCS_BUILDER = "backstage.io/techdocs-builder";
+
+export type ApiDocument = {
+  documentId: string
+  name: string
+  type:
+    | "HOWTO"
+    | "SAMPLES"
+    | "PUBLIC_FORUM"
+    | "SUPPORT_FORUM"
+    | "API_MESSAGE_FORMAT"
+    | "SWAGGER_DOC"
+    | "OTHER"
+  summary: string | null
+  sourceType: "INLINE" | "MARKDOWN" | "URL" | "FILE"
+  sourceUrl: string | null
+  otherTypeName: string | null
+  visibility: string
+  [k: string]: unknown
+};
+
+/**
+ * The content of a document: the text of inline and markdown documents, the file of file documents.
+ * URL documents have none.
+ */
+export type DocumentContent =
+  | { text: string }
+  | { file: Buffer, fileName: string, contentType: string }
+  | undefined;
+
+export type DocsSite = {
+  etag: string
+  /** File contents by their path in the site */
+  files: Map<string, string | Buffer>
+};
+
+const TYPE_TITLES: Record<ApiDocument["type"], string> = {
+  HOWTO: "How to",
+  SAMPLES: "Samples & SDK",
+  PUBLIC_FORUM: "Public forum",
+  SUPPORT_FORUM: "Support forum",
+  API_MESSAGE_FORMAT: "Message formats",
+  SWAGGER_DOC: "API definition",
+  OTHER: "Other",
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function slug(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function typeTitle(document: ApiDocument): string {
+  return document.type === "OTHER" && document.otherTypeName ? document.otherTypeName : TYPE_TITLES[document.type] ?? document.type;
+}
+
+function page(siteName: string, title: string, nav: { title: string, href: string }[], body: string): string {
+  const items = nav
+    .map(item => `<li class="md-nav__item"><a class="md-nav__link" href="${escapeHtml(item.href)}">${escapeHtml(item.title)}</a></li>`)
+    .join("");
+  return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${escapeHtml(title)} - ${escapeHtml(siteName)}</title></head>
+<body>
+<div class="md-container">
+<main class="md-main">
+<div class="md-main__inner md-grid">
+<div class="md-sidebar md-sidebar--primary">
+<div class="md-sidebar__scrollwrap">
+<div class="md-sidebar__inner">
+<nav class="md-nav md-nav--primary">
+<label class="md-nav__title">${escapeHtml(siteName)}</label>
+<ul class="md-nav__list">${items}</ul>
+</nav>
+</div>
+</div>
+</div>
+<div class="md-content">
+<article class="md-content__inner md-typeset">
+${body}
+</article>
+</div>
+</div>
+</main>
+</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * The body of a document page. Inline documents are the HTML of the devportal editor, the TechDocs
+ * reader sanitizes it. Files other than markdown and HTML are offered as a download.
+ */
+function documentBody(document: ApiDocument, content: DocumentContent): string {
+  const summary = document.summary ? `<p><em>${escapeHtml(document.summary)}</em></p>` : "";
+  const heading = `<h1>${escapeHtml(document.name)}</h1>${summary}`;
+
+  if (document.sourceType === "URL" || !content) {
+    return document.sourceUrl
+      ? `${heading}<p><a href="${escapeHtml(document.sourceUrl)}">${escapeHtml(document.sourceUrl)}</a></p>`
+      : heading;
+  }
+  if ("text" in content) {
+    return `${heading}${document.sourceType === "MARKDOWN" ? marked.parse(content.text) : content.text}`;
+  }
+  if (/markdown/.test(content.contentType)) {
+    return `${heading}${marked.parse(content.file.toString("utf8"))}`;
+  }
+  if (/html/.test(content.contentType)) {
+    return `${heading}${content.file.toString("utf8")}`;
+  }
+  return `${heading}<p><a download href="files/${escapeHtml(encodeURIComponent(content.fileName))}">${escapeHtml(content.fileName)}</a></p>`;
+}
+
+/**
+ * Builds the site of the documents of an API. The etag is a hash of the documents and their contents,
+ * so an unchanged site need not be published again.
+ */
+export function docsSite(
+  api: { name: string, description: string | null },
+  documents: { document: ApiDocument, content: DocumentContent }[],
+): DocsSite {
+  const hash = createHash("sha256");
+  const slugs = new Set<string>();
+  const pages = documents.map(({ document, content }) => {
+    let path = slug(document.name) || "document";
+    for (let suffix = 2; slugs.has(path); suffix++) {
+      path = `${slug(document.name) || "document"}-${suffix}`;
+    }
+    slugs.add(path);
+
+    hash.update(JSON.stringify(document));
+    if (content && "text" in content) {
+      hash.update(content.text);
+    } else if (content) {
+      hash.update(content.file);
+    }
+    return { path, document, content, body: documentBody(document, content) };
+  });
+
+  const files = new Map<string, string | Buffer>();
+  const nav = (prefix: string) => [
+    { title: "Overview", href: prefix || "./" },
+    ...pages.map(({ path, document }) => ({ title: document.name, href: `${prefix}${path}/` })),
+  ];
+
+  const types = [...new Set(pages.map(({ document }) => typeTitle(document)))];
+  const item = ({ path, document }: { path: string, document: ApiDocument }) => {
+    const summary = document.summary ? ` - ${escapeHtml(document.summary)}` : "";
+    return `<li><a href="${path}/">${escapeHtml(document.name)}</a>${summary}</li>`;
+  };
+  const sections = types.map(type => {
+    const items = pages.filter(({ document }) => typeTitle(document) === type).map(item).join("");
+    return `<h2>${escapeHtml(type)}</h2><ul>${items}</ul>`;
+  });
+  const description = api.description ? `<p>${escapeHtml(api.description)}</p>` : "";
+  const index = `<h1>${escapeHtml(api.name)}</h1>${description}${sections.join("")}`;
+  files.set("index.html", page(api.name, "Overview", nav(""), index));
+
+  for (const { path, document, content, body } of pages) {
+    files.set(`${path}/index.html`, page(api.name, document.name, nav("../"), body));
+    if (content && "file" in content) {
+      files.set(`${path}/files/${content.fileName}`, content.file);
+    }
+  }
+
+  files.set("search/search_index.json", JSON.stringify({
+    config: { lang: ["en"], separator: "[\\s\\-]+" },
+    docs: [
+      { location: "", title: api.name, text: stripHtml(index) },
+      ...pages.map(({ path, document, body }) => ({ location: `${path}/`, title: document.name, text: stripHtml(body) })),
+    ],
+  }));
+
+  const etag = hash.digest("hex");
+  files.set("techdocs_metadata.json", JSON.stringify({
+    site_name: api.name,
+    site_description: api.description ?? "",
+    etag,
+    build_timestamp: Date.now(),
+    files: [...files.keys(), "techdocs_metadata.json"],
+  }));
+
+  return { etag, files };
+}
@@ -0,0 +1,35 @@
+import { PluginDatabaseManager } from '@backstage/backend-common';
+import { Knex } from 'knex';
+import { getMigratedClient } from './database';
+
+type ListingCountRow = {
+  provider_name: string;
+  api_count: number;
+  listed_at: Date | string;
+};
+
+/**
+ * Keeps the API count of the last listing each provider applied in the catalog database,
+ * so that a short listing is caught after a restart too.
+ */
+export class ListingStore {
+  static async create(database: PluginDatabaseManager): Promise<ListingStore> {
+    return new ListingStore(await getMigratedClient(database));
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async getCount(providerName: string): Promise<number | undefined> {
+    const row = await this.db<ListingCountRow>("viss_listing_counts")
+      .where({ provider_name: providerName })
+      .first();
+    return row?.api_count;
+  }
+
+  async setCount(providerName: string, count: number): Promise<void> {
+    await this.db<ListingCountRow>("viss_listing_counts")
+      .insert({ provider_name: providerName, api_count: count, listed_at: new Date() })
+      .onConflict("provider_name")
+      .merge();
+  }
+}
@@ -0,0 +1,35 @@
+import { entityName, versionedEntityName } from './names';
+
+describe("entityName", () => {
+  it("makes a slug of the name", () => {
+    expect(entityName("Valsts zemes dienests")).toBe("valsts-zemes-dienests");
+    expect(entityName("Ģeotelpiskie dati (ĶVĒDS) v2.1")).toBe("geotelpiskie-dati-kveds-v2.1");
+  });
+
+  it("cuts long slugs and ends them with a hash of the full name", () => {
+    const long = "Valsts reģionālās attīstības aģentūras valsts informācijas sistēmu savietotājs";
+    const name = entityName(long);
+    expect(name).toMatch(/^valsts-regionalas-attistibas-agenturas-valsts-informacij-[0-9a-f]{6}$/);
+    expect(name.length).toBeLessThanOrEqual(63);
+    expect(entityName(long)).toBe(name);
+    expect(entityName(`${long}s`)).not.toBe(name);
+  });
+
+  it("is a hash for names without letters or digits", () => {
+    expect(entityName("***")).toMatch(/^[0-9a-f]{6}$/);
+  });
+});
+
+describe("versionedEntityName", () => {
+  it("adds the version to the name", () => {
+    expect(versionedEntityName("Adresu reģistrs", "1.0.0")).toBe("adresu-registrs-v1.0.0");
+    expect(versionedEntityName("Adresu reģistrs", "Beta 2")).toBe("adresu-registrs-beta-2");
+    expect(versionedEntityName("Adresu reģistrs", "")).toBe("adresu-registrs-version");
+  });
+
+  it("cuts the version and then the name", () => {
+    const name = versionedEntityName("a".repeat(60), "2023-12-31-snapshot-build");
+    expect(name).toMatch(/^a{35}-[0-9a-f]{6}-v2023-12-31-snapshot$/);
+    expect(name.length).toBe(63);
+  });
+});
@@ -0,0 +1,42 @@
+import { createHash } from 'crypto';
+
+/**
+ * Entity names for the api.viss.gov.lv API, owner and category names, which are free text
+ * such as `Valsts zemes dienests`, within the default entity name rules.
+ */
+
+const MAX_NAME_LENGTH = 63;
+
+/** Longer versions are cut, they are part of the name of every API version */
+const MAX_VERSION_LENGTH = 20;
+
+function slugify(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9.]+/g, "-")
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, "");
+}
+
+/**
+ * The slug of a name, e.g. `valsts-zemes-dienests`. Longer slugs are cut and end with a hash
+ * of the full name instead, so that they stay unique and stable.
+ */
+export function entityName(text: string, maxLength = MAX_NAME_LENGTH): string {
+  const slug = slugify(text);
+  if (slug && slug.length <= maxLength) {
+    return slug;
+  }
+  const hash = createHash("sha1").update(text).digest("hex").slice(0, 6);
+  return [slug.slice(0, maxLength - hash.length - 1).replace(/[^a-z0-9]+$/, ""), hash].filter(Boolean).join("-");
+}
+
+/**
+ * The name of an API version, e.g. `adresu-registrs-v1.0.0`. The API name is cut to make room for the version.
+ */
+export function versionedEntityName(name: string, version: string): string {
+  const slug = slugify(version).slice(0, MAX_VERSION_LENGTH).replace(/[^a-z0-9]+$/, "") || "version";
+  const suffix = /^[0-9]/.test(slug) ? `v${slug}` : slug;
+  return `${entityName(name, MAX_NAME_LENGTH - suffix.length - 1)}-${suffix}`;
+}
@@ -0,0 +1,41 @@
+import {
+  Entity,
+  getCompoundEntityRef,
+  parseEntityRef,
+  RELATION_API_PROVIDED_BY,
+  RELATION_PROVIDES_API,
+} from '@backstage/catalog-model';
+import { LocationSpec } from '@backstage/plugin-catalog-common';
+import {
+  CatalogProcessor,
+  CatalogProcessorEmit,
+  processingResult,
+} from '@backstage/plugin-catalog-node';
+
+/** The Resource type of the api.viss.gov.lv gateway environments */
+export const RESOURCE_TYPE_API_GATEWAY = "api-gateway";
+
+/**
+ * Emits the `providesApi` relations of the gateway environment Resources to the APIs they expose,
+ * `spec.providesApis` is only a field of the Component kind.
+ */
+export class ApiGatewayProcessor implements CatalogProcessor {
+  getProcessorName(): string {
+    return "ApiGatewayProcessor";
+  }
+
+  async postProcessEntity(entity: Entity, _location: LocationSpec, emit: CatalogProcessorEmit): Promise<Entity> {
+    const providesApis = entity.spec?.providesApis;
+    if (entity.kind !== "Resource" || entity.spec?.type !== RESOURCE_TYPE_API_GATEWAY || !Array.isArray(providesApis)) {
+      return entity;
+    }
+
+    const selfRef = getCompoundEntityRef(entity);
+    for (const target of providesApis) {
+      const targetRef = parseEntityRef(`${target}`, { defaultKind: "API", defaultNamespace: selfRef.namespace });
+      emit(processingResult.relation({ source: selfRef, type: RELATION_PROVIDES_API, target: targetRef }));
+      emit(processingResult.relation({ source: targetRef, type: RELATION_API_PROVIDED_BY, target: selfRef }));
+    }
+    return entity;
+  }
+}
@@ -0,0 +1,151 @@
+import sax from 'sax';
+
+/**
+ * Bundles a WSDL with the XML Schemas it imports into a single document: the schemas referenced by
+ * `xsd:import`, `xsd:include` and `wsdl:import` are fetched, recursively, and embedded in `wsdl:types`.
+ * The `schemaLocation` of the imports is dropped, the includes and schema `wsdl:import`s are removed.
+ */
+
+export type FetchText = (url: string) => Promise<string>;
+
+const XSD_NS = "http://www.w3.org/2001/XMLSchema";
+const WSDL_NS = "http://schemas.xmlsoap.org/wsdl/";
+
+const XML_DECLARATION = /^\uFEFF?\s*<\?xml[^>]*\?>/;
+const SCHEMA_LOCATION = /\s+schemaLocation\s*=\s*("[^"]*"|'[^']*')/;
+
+type Reference = {
+  kind: "import" | "include" | "wsdl-import"
+  location: string
+  /** Open tag text and the element range */
+  tag: string
+  start: number
+  end: number
+};
+
+type Scan = {
+  root?: { local: string, uri: string, prefix: string, start: number, tagEnd: number }
+  references: Reference[]
+  /** Where the schemas go: before `</wsdl:types>`, or the self-closing `<wsdl:types/>` */
+  types?: { start: number, end: number, name: string, selfClosing: boolean }
+  /** End of the last `wsdl:import`, the types follow the imports */
+  importsEnd?: number
+};
+
+type Edit = { start: number, end: number, text: string };
+
+function scan(xml: string): Scan {
+  const parser = sax.parser(true, { xmlns: true, position: true });
+  const result: Scan = { references: [] };
+  const open: { tag: sax.QualifiedTag, start: number, tagEnd: number }[] = [];
+
+  parser.onopentag = node => {
+    const tag = node as sax.QualifiedTag;
+    const start = parser.startTagPosition - 1;
+    if (!result.root) {
+      result.root = { local: tag.local, uri: tag.uri, prefix: tag.prefix, start, tagEnd: parser.position };
+    }
+    open.push({ tag, start, tagEnd: parser.position });
+  };
+  parser.onclosetag = () => {
+    const { tag, start, tagEnd } = open.pop()!;
+    const end = parser.position;
+    const location = tag.uri === WSDL_NS ? tag.attributes.location?.value : tag.attributes.schemaLocation?.value;
+
+    if (tag.uri === XSD_NS && (tag.local === "import" || tag.local === "include") && location) {
+      result.references.push({ kind: tag.local, location, tag: xml.slice(start, tagEnd), start, end });
+    } else if (tag.uri === WSDL_NS && tag.local === "import") {
+      result.importsEnd = end;
+      if (location) {
+        result.references.push({ kind: "wsdl-import", location, tag: xml.slice(start, tagEnd), start, end });
+      }
+    } else if (tag.uri === WSDL_NS && tag.local === "types" && !result.types) {
+      result.types = tag.isSelfClosing
+        ? { start, end, name: tag.name, selfClosing: true }
+        : { start: parser.startTagPosition - 1, end: parser.startTagPosition - 1, name: tag.name, selfClosing: false };
+    }
+  };
+
+  parser.write(xml).close();
+  return result;
+}
+
+function applyEdits(xml: string, edits: Edit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), xml);
+}
+
+/** Imports keep the namespace, without the location, includes are embedded whole */
+function referenceEdit(reference: Reference): Edit {
+  return reference.kind === "import"
+    ? { start: reference.start, end: reference.start + reference.tag.length, text: reference.tag.replace(SCHEMA_LOCATION, "") }
+    : { start: reference.start, end: reference.end, text: "" };
+}
+
+function isSchema(scanned: Scan): boolean {
+  return scanned.root?.uri === XSD_NS && scanned.root.local === "schema";
+}
+
+class WsdlBundler {
+  /** Bundled schema texts by their URL, the imported schemas before the importing ones */
+  readonly schemas = new Map<string, string>();
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly fetchText: FetchText) {}
+
+  async addSchema(url: string, text: string): Promise<void> {
+    this.seen.add(url);
+    const scanned = scan(text);
+    for (const reference of scanned.references) {
+      const location = new URL(reference.location, url).href;
+      if (!this.seen.has(location)) {
+        await this.addSchema(location, await this.fetchText(location));
+      }
+    }
+    this.schemas.set(url, applyEdits(text, scanned.references.map(referenceEdit)).replace(XML_DECLARATION, "").trim());
+  }
+
+  async bundle(url: string, wsdl: string): Promise<string> {
+    this.seen.add(url);
+    const scanned = scan(wsdl);
+    const edits: Edit[] = [];
+
+    for (const reference of scanned.references) {
+      const location = new URL(reference.location, url).href;
+      if (reference.kind !== "wsdl-import") {
+        edits.push(referenceEdit(reference));
+        if (!this.seen.has(location)) {
+          await this.addSchema(location, await this.fetchText(location));
+        }
+        continue;
+      }
+      // A wsdl:import of another WSDL stays as it is
+      const imported = this.seen.has(location) ? undefined : await this.fetchText(location);
+      if (imported !== undefined && isSchema(scan(imported))) {
+        edits.push(referenceEdit(reference));
+        await this.addSchema(location, imported);
+      }
+    }
+
+    const schemas = [...this.schemas.values()].join("\n");
+    if (schemas && scanned.types?.selfClosing) {
+      edits.push({ ...scanned.types, text: `<${scanned.types.name}>\n${schemas}\n</${scanned.types.name}>` });
+    } else if (schemas && scanned.types) {
+      edits.push({ ...scanned.types, text: `${schemas}\n` });
+    } else if (schemas && scanned.root) {
+      const prefix = scanned.root.prefix ? `${scanned.root.prefix}:` : "";
+      const at = scanned.importsEnd ?? scanned.root.tagEnd;
+      edits.push({ start: at, end: at, text: `\n<${prefix}types>\n${schemas}\n</${prefix}types>` });
+    }
+    return applyEdits(wsdl, edits);
+  }
+}
+
+/**
+ * Fetches a WSDL and bundles it with the schemas it imports, resolving the locations against the
+ * document that references them.
+ */
+export async function bundleWsdl(url: string, fetchText: FetchText): Promise<string> {
+  return new WsdlBundler(fetchText).bundle(url, await fetchText(url));
+}
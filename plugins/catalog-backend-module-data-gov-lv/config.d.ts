@@ -0,0 +1,195 @@
+import { TaskScheduleDefinitionConfig } from '@backstage/backend-tasks';
+import { HumanDuration } from '@backstage/types';
+
+/**
+ * The options of a CKAN provider instance. The counts and sizes are positive integers.
+ */
+interface CkanProviderConfig {
+  /**
+   * (Optional) Environment name, used in the location key of the emitted entities.
+   * Default: `production`.
+   */
+  env?: string;
+  /**
+   * Base URL of the portal, without the trailing `/api/3/action`.
+   * Required for `ckan`, default for `dataGovLv`: `https://data.gov.lv/dati/lv`.
+   */
+  baseUrl?: string;
+  /**
+   * (Optional) Portal name shown in the dataset links.
+   * Default: host name of `baseUrl`, `data.gov.lv` for `dataGovLv`.
+   */
+  title?: string;
+  /**
+   * (Optional) Dataset page URL template, `{name}` is replaced with the dataset name.
+   * Default: `{baseUrl}/dataset/{name}`.
+   */
+  viewUrl?: string;
+  /**
+   * (Optional) Organization picture URL template for uploaded images,
+   * `{image}` is replaced with the organization `image_url`.
+   * Default: none, only absolute image URLs are used,
+   * `https://data.gov.lv/dati/uploads/group/{image}` for `dataGovLv`.
+   */
+  organizationImageUrl?: string;
+  /**
+   * (Optional) Catalog namespace of the emitted entities.
+   * Default: `default`, `data-gov-lv` for `dataGovLv`.
+   */
+  namespace?: string;
+  /**
+   * (Optional) Prefix added to the owner group names, e.g. `riga-`.
+   * Default: none.
+   */
+  ownerPrefix?: string;
+  /**
+   * (Optional) Maximum number of parallel requests to the portal.
+   * Default: `10`.
+   */
+  concurrency?: number;
+  /**
+   * (Optional) Timeout of a single HTTP request.
+   * Default: `{ minutes: 5 }`.
+   */
+  timeout?: HumanDuration;
+  /**
+   * (Optional) TaskScheduleDefinition for the refresh.
+   * Default: every 300 minutes with a 200 minute timeout.
+   */
+  schedule?: TaskScheduleDefinitionConfig;
+  /**
+   * (Optional) Only re-process datasets whose `metadata_modified` changed since the last run.
+   * Default: `true`.
+   */
+  incremental?: boolean;
+  /**
+   * (Optional) How often an incremental provider still does a full re-crawl.
+   * Default: `{ days: 1 }`.
+   */
+  fullSyncFrequency?: HumanDuration;
+  /**
+   * (Optional) Number of rows sampled for CSV schema inference.
+   * Default: `100`.
+   */
+  sampleRows?: number;
+  /**
+   * (Optional) Number of bytes requested from the start of a CSV or XML resource.
+   * Default: `1048576` (1 MiB).
+   */
+  sampleBytes?: number;
+  /**
+   * (Optional) Maximum number of bytes of a JSON resource read for schema inference.
+   * Default: `16777216` (16 MiB).
+   */
+  jsonMaxBytes?: number;
+  /**
+   * (Optional) Number of items sampled from every array of a JSON resource.
+   * Default: `100`.
+   */
+  jsonSampleItems?: number;
+  /**
+   * (Optional) Maximum size of a spreadsheet (XLSX, XLSM, XLS, ODS) resource that is downloaded for schema inference.
+   * Default: `33554432` (32 MiB).
+   */
+  spreadsheetMaxBytes?: number;
+  /**
+   * (Optional) Maximum size of a 7z archive, or of a zip archive on a server without Range requests, that is downloaded for inspection.
+   * Zip archives on servers with Range requests are read remotely whatever their size.
+   * Default: `67108864` (64 MiB).
+   */
+  archiveMaxBytes?: number;
+  /**
+   * (Optional) Number of supported members of an archive whose schema is inferred.
+   * Default: `20`.
+   */
+  archiveMaxMembers?: number;
+}
+
+export interface Config {
+  catalog?: {
+    /**
+     * Scheduled checks of the Distribution file URLs and the API endpoint links.
+     */
+    linkChecker?: {
+      /**
+       * (Optional) Parallel requests.
+       * Default: `10`.
+       */
+      concurrency?: number;
+      /**
+       * (Optional) Timeout of each request.
+       * Default: 30 seconds.
+       */
+      timeout?: HumanDuration;
+      /**
+       * (Optional) Schedule of the checks.
+       * Default: every 24 hours with a 6 hour timeout.
+       */
+      schedule?: TaskScheduleDefinitionConfig;
+      /**
+       * (Optional) How long the check history is kept.
+       * Default: 90 days.
+       */
+      historyAge?: HumanDuration;
+    };
+    /**
+     * The DCAT-AP export of the datasets at `/api/catalog/data-gov-lv/dcat`.
+     */
+    dcat?: {
+      /**
+       * (Optional) Title of the dcat:Catalog.
+       * Default: `data.gov.lv`.
+       */
+      title?: string;
+      /**
+       * (Optional) Description of the dcat:Catalog.
+       */
+      description?: string;
+      /**
+       * (Optional) Name of the publisher of the dcat:Catalog.
+       * Default: `Valsts digitālās attīstības aģentūra`.
+       */
+      publisher?: string;
+      /**
+       * (Optional) Homepage of the dcat:Catalog.
+       * Default: `https://data.gov.lv`.
+       */
+      homepage?: string;
+      /**
+       * (Optional) Language tag of the titles, descriptions and keywords.
+       * Default: `lv`.
+       */
+      language?: string;
+      /**
+       * (Optional) Namespaces of the exported Dataset entities.
+       * Default: `['data-gov-lv']`.
+       */
+      namespaces?: string[];
+      /**
+       * (Optional) Namespace of the API entities exported as data services with `?services=true`.
+       * Default: `viss-gov-lv`.
+       */
+      servicesNamespace?: string;
+      /**
+       * (Optional) Datasets and data services per page, unless the request asks for another `pageSize`.
+       * Default: `100`.
+       */
+      pageSize?: number;
+    };
+    providers?: {
+      /**
+       * CkanEntityProvider configuration for any CKAN 2.x portal, keyed by provider id.
+       */
+      ckan?: {
+        [id: string]: CkanProviderConfig & { baseUrl: string };
+      };
+      /**
+       * DataGovLvProvider configuration, keyed by provider id.
+       * Same as `ckan`, with data.gov.lv defaults.
+       */
+      dataGovLv?: {
+        [id: string]: CkanProviderConfig;
+      };
+    };
+  };
+}
@@ -0,0 +1,45 @@
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('ckan_sync_state', table => {
+    table.comment('Incremental sync state of each CKAN entity provider');
+    table
+      .string('provider_name')
+      .primary()
+      .notNullable()
+      .comment('The entity provider name');
+    table
+      .string('cursor')
+      .nullable()
+      .comment('The latest metadata_modified that has been synced');
+    table
+      .timestamp('last_full_sync_at', { useTz: false })
+      .nullable()
+      .comment('When the last full reconcile finished');
+  });
+
+  await knex.schema.createTable('ckan_sync_datasets', table => {
+    table.comment('The datasets each CKAN entity provider has emitted');
+    table
+      .string('provider_name')
+      .notNullable()
+      .comment('The entity provider name');
+    table.string('dataset_name').notNullable().comment('The CKAN package name');
+    table
+      .text('entity_refs')
+      .notNullable()
+      .comment('JSON array of the entity refs emitted for the dataset');
+    table.primary(['provider_name', 'dataset_name']);
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('ckan_sync_datasets');
+  await knex.schema.dropTable('ckan_sync_state');
+};
@@ -0,0 +1,36 @@
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('http_cache', table => {
+    table.comment('Validators and inferred schemas of probed resource URLs');
+    table
+      .string('url_hash')
+      .primary()
+      .notNullable()
+      .comment('sha256 of the URL');
+    table.text('url').notNullable().comment('The probed URL');
+    table.string('etag').nullable().comment('The ETag response header');
+    table
+      .string('last_modified')
+      .nullable()
+      .comment('The Last-Modified response header');
+    table
+      .text('schema_info')
+      .notNullable()
+      .comment('JSON of the SchemaInfo inferred from the response');
+    table
+      .timestamp('fetched_at', { useTz: false })
+      .notNullable()
+      .comment('When the response was last downloaded');
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('http_cache');
+};
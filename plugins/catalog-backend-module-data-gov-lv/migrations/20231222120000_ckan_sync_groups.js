@@ -0,0 +1,22 @@
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.alterTable('ckan_sync_state', table => {
+    table
+      .text('group_refs')
+      .nullable()
+      .comment('JSON array of the organization and group entity refs emitted');
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.alterTable('ckan_sync_state', table => {
+    table.dropColumn('group_refs');
+  });
+};
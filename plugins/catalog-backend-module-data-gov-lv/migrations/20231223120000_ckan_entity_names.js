@@ -0,0 +1,25 @@
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('ckan_entity_names', table => {
+    table.comment('The entity names assigned to CKAN resources');
+    table
+      .string('provider_name')
+      .notNullable()
+      .comment('The entity provider name');
+    table.string('entity_id').notNullable().comment('The CKAN resource id');
+    table.string('name').notNullable().comment('The assigned entity name');
+    table.primary(['provider_name', 'entity_id']);
+    table.unique(['provider_name', 'name']);
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('ckan_entity_names');
+};
@@ -0,0 +1,48 @@
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('link_checks', table => {
+    table.comment('History of the checked resource and endpoint URLs');
+    table.bigIncrements('id').primary();
+    table
+      .string('entity_ref')
+      .notNullable()
+      .comment('The entity the URL belongs to');
+    table
+      .string('owner_ref')
+      .nullable()
+      .comment('The owner of the entity when the URL was checked');
+    table.string('link_type').notNullable().comment('file or endpoint');
+    table.text('url').notNullable().comment('The checked URL');
+    table
+      .integer('status')
+      .nullable()
+      .comment('The HTTP status after redirects, null when the request failed');
+    table
+      .text('redirect_url')
+      .nullable()
+      .comment('Where the URL redirected to');
+    table.text('error').nullable().comment('Why the request failed');
+    table
+      .integer('response_time')
+      .nullable()
+      .comment('Milliseconds until the response headers, with redirects');
+    table.boolean('broken').notNullable();
+    table
+      .timestamp('checked_at', { useTz: false })
+      .notNullable()
+      .comment('When the URL was checked');
+    table.index(['entity_ref', 'url'], 'link_checks_entity_url_idx');
+    table.index('checked_at', 'link_checks_checked_at_idx');
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('link_checks');
+};
@@ -0,0 +1,43 @@
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('definition_versions', table => {
+    table.comment(
+      'Every distinct spec.definition of the Distribution and API entities',
+    );
+    table.bigIncrements('id').primary();
+    table
+      .string('entity_ref')
+      .notNullable()
+      .comment('The entity the definition belongs to');
+    table
+      .string('hash')
+      .notNullable()
+      .comment('SHA-256 of the spec.type and spec.definition');
+    table.string('type').notNullable().comment('The spec.type');
+    table.text('definition', 'longtext').notNullable();
+    table
+      .text('changes')
+      .notNullable()
+      .comment('JSON list of the changes from the previous version');
+    table
+      .boolean('breaking')
+      .notNullable()
+      .comment('Whether any of the changes is breaking');
+    table
+      .timestamp('created_at', { useTz: false })
+      .notNullable()
+      .comment('When the version was first seen');
+    table.index('entity_ref', 'definition_versions_entity_ref_idx');
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('definition_versions');
+};
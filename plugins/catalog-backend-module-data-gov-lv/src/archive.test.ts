@@ -0,0 +1,71 @@
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { read7zEntries } from './archive';
+
+jest.mock('child_process', () => ({ spawn: jest.fn() }));
+
+/** A 7za process that writes the output and exits with the code */
+function process7za(output: string, code = 0) {
+  const child = Object.assign(new EventEmitter(), { stdout: new PassThrough(), kill: jest.fn() });
+  setImmediate(() => {
+    child.emit('spawn');
+    child.stdout.end(output);
+    child.emit('close', code);
+  });
+  return child;
+}
+
+const LISTING = [
+  '7-Zip (a) 16.02',
+  '',
+  'Listing archive: adreses.7z',
+  '',
+  '--',
+  'Path = adreses.7z',
+  'Type = 7z',
+  '',
+  '----------',
+  'Path = dati',
+  'Size = 0',
+  'Folder = +',
+  '',
+  'Path = dati/adreses.csv',
+  'Size = 1200',
+  'Packed Size = 300',
+  'Folder = -',
+  '',
+].join('\n');
+
+describe('read7zEntries', () => {
+  const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+  afterEach(() => {
+    mockSpawn.mockReset();
+  });
+
+  it('reads the entries after the dashed line', async () => {
+    mockSpawn.mockImplementation(() => process7za(LISTING) as any);
+    const entries = await read7zEntries('/tmp/adreses.7z');
+    expect(entries.map(({ name, size, compressedSize, type }) => ({ name, size, compressedSize, type }))).toEqual([
+      { name: 'dati/', size: 0, compressedSize: undefined, type: 'directory' },
+      { name: 'dati/adreses.csv', size: 1200, compressedSize: 300, type: 'csv' },
+    ]);
+  });
+
+  it('has no entries without the dashed line', async () => {
+    mockSpawn.mockImplementation(() => process7za(LISTING.slice(0, LISTING.indexOf('----------'))) as any);
+    expect(await read7zEntries('/tmp/adreses.7z')).toEqual([]);
+  });
+
+  it('fails to open an entry when 7za cannot be started', async () => {
+    mockSpawn.mockImplementationOnce(() => process7za(LISTING) as any);
+    const [, csv] = await read7zEntries('/tmp/adreses.7z');
+
+    const child = Object.assign(new EventEmitter(), { stdout: new PassThrough(), kill: jest.fn() });
+    mockSpawn.mockImplementationOnce(() => child as any);
+    const opened = csv.open();
+    child.emit('error', new Error('spawn 7za ENOENT'));
+    await expect(opened).rejects.toThrow('spawn 7za ENOENT');
+  });
+});
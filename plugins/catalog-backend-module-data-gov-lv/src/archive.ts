@@ -0,0 +1,158 @@
+import { path7za } from '7zip-bin';
+import { spawn } from 'child_process';
+import { PassThrough, Readable } from 'stream';
+import yauzl from 'yauzl';
+
+export type ArchiveEntry = {
+  name: string;
+  size: number;
+  compressedSize?: number;
+  /** Lowercase file extension, `directory` for directories */
+  type: string;
+  /** Streams the uncompressed content of the entry */
+  open(): Promise<Readable>;
+};
+
+/**
+ * A zip archive read remotely with Range requests: the central directory at the end
+ * is in `tail`, the entries are only downloaded when opened.
+ */
+export type RemoteZip = {
+  size: number;
+  /** The last bytes of the archive */
+  tail: Buffer;
+  fetchRange(start: number, end: number): Promise<Readable>;
+};
+
+/**
+ * The end of central directory record is at most 22 bytes plus a 64 KiB comment from the end,
+ * the zip64 locator is right before it.
+ */
+export const ZIP_TAIL_BYTES = 22 + 0xffff + 20;
+
+function entryType(name: string): string {
+  if (name.endsWith('/')) {
+    return 'directory';
+  }
+  const base = name.slice(name.lastIndexOf('/') + 1);
+  return base.includes('.') ? base.slice(base.lastIndexOf('.') + 1).toLowerCase() : 'unknown';
+}
+
+class HttpRangeReader extends yauzl.RandomAccessReader {
+  constructor(private readonly zip: RemoteZip) {
+    super();
+  }
+
+  _readStreamForRange(start: number, end: number): Readable {
+    const tailStart = this.zip.size - this.zip.tail.length;
+    if (start >= tailStart) {
+      return Readable.from([this.zip.tail.subarray(start - tailStart, end - tailStart)]);
+    }
+
+    const stream = new PassThrough();
+    this.zip.fetchRange(start, end)
+      .then(body => {
+        body.on('error', error => stream.destroy(error));
+        // Stops the download when the consumer stops reading
+        stream.on('close', () => body.destroy());
+        body.pipe(stream);
+      })
+      .catch(error => stream.destroy(error));
+    return stream;
+  }
+}
+
+/**
+ * Lists the entries of a zip archive, either fully downloaded or read with Range requests.
+ * The archive stays open until `close` is called, so that the entries can be streamed.
+ */
+export async function readZipEntries(source: Buffer | RemoteZip): Promise<{ entries: ArchiveEntry[]; close(): void }> {
+  const options = { lazyEntries: true, autoClose: false };
+  const zipfile = Buffer.isBuffer(source)
+    ? await yauzl.fromBufferPromise(source, options)
+    : await yauzl.fromRandomAccessReaderPromise(new HttpRangeReader(source), source.size, options);
+
+  const entries = await new Promise<ArchiveEntry[]>((resolve, reject) => {
+    const result: ArchiveEntry[] = [];
+    zipfile.on('entry', (entry: yauzl.Entry) => {
+      result.push({
+        name: entry.fileName,
+        size: entry.uncompressedSize,
+        compressedSize: entry.compressedSize,
+        type: entryType(entry.fileName),
+        open: () => zipfile.openReadStreamPromise(entry),
+      });
+      zipfile.readEntry();
+    });
+    zipfile.on('end', () => resolve(result));
+    zipfile.on('error', reject);
+    zipfile.readEntry();
+  });
+  return { entries, close: () => zipfile.close() };
+}
+
+function run7za(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const process = spawn(path7za, args);
+    let output = '';
+    process.stdout.setEncoding('utf8').on('data', data => {
+      output += data;
+    });
+    process.on('error', reject);
+    process.on('close', code => {
+      if (code === 0) {
+        resolve(output);
+      } else {
+        reject(new Error(`7za ${args[0]} exited with ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Lists the entries of a 7z archive with the bundled 7za, the archive must be a local file.
+ */
+export async function read7zEntries(file: string): Promise<ArchiveEntry[]> {
+  const output = await run7za(['l', '-slt', '-sccUTF-8', file]);
+  // The technical listing is a block of `Key = Value` lines per entry, after a dashed line.
+  // Without the line there are no entries, the blocks before it describe the archive itself.
+  const start = output.indexOf('\n----------\n');
+  if (start === -1) {
+    return [];
+  }
+  const listing = output.slice(start + 12);
+  return listing.split(/\r?\n\r?\n/)
+    .map(block => new Map(block.split(/\r?\n/)
+      .map(line => line.match(/^([^=]+?) = (.*)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => [match[1], match[2]])))
+    .filter(properties => properties.has('Path'))
+    .map(properties => {
+      const name = properties.get('Path')!;
+      const directory = properties.get('Folder') === '+' || properties.get('Attributes')?.startsWith('D');
+      return {
+        name: directory ? `${name}/` : name,
+        size: Number(properties.get('Size') ?? 0),
+        compressedSize: properties.get('Packed Size') ? Number(properties.get('Packed Size')) : undefined,
+        type: directory ? 'directory' : entryType(name),
+        open: () => new Promise<Readable>((resolve, reject) => {
+          // -spd: the name is not a wildcard
+          const process = spawn(path7za, ['e', '-so', '-spd', file, name]);
+          process.stdout.on('close', () => process.kill());
+          let started = false;
+          // E.g. a missing 7za binary. After the process started, the reader of the output gets the error.
+          process.on('error', error => {
+            if (started) {
+              process.stdout.destroy(error);
+            } else {
+              reject(error);
+            }
+          });
+          process.on('spawn', () => {
+            started = true;
+            resolve(process.stdout);
+          });
+        }),
+      };
+    });
+}
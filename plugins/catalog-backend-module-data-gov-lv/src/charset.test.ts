@@ -0,0 +1,72 @@
+import { charsetDecoder, decodeText, detectCharset, isDecodableCharset, isUtf8 } from './charset';
+
+function bytes(...parts: (string | number[])[]): Uint8Array {
+  return Uint8Array.from(parts.flatMap(part => (typeof part === 'string' ? [...Buffer.from(part, 'latin1')] : part)));
+}
+
+describe('detectCharset', () => {
+  it('detects the byte order marks', () => {
+    expect(detectCharset(bytes([0xef, 0xbb, 0xbf], 'a'))).toEqual({ charset: 'utf-8-sig', hasBom: true, bomLength: 3 });
+    expect(detectCharset(bytes([0xff, 0xfe], 'a'))).toEqual({ charset: 'utf-16le', hasBom: true, bomLength: 2 });
+    expect(detectCharset(bytes([0xfe, 0xff], 'a'))).toEqual({ charset: 'utf-16be', hasBom: true, bomLength: 2 });
+  });
+
+  it('detects valid UTF-8', () => {
+    expect(detectCharset(Buffer.from('Rīga;Liepāja'))).toEqual({ charset: 'utf-8', hasBom: false, bomLength: 0 });
+    expect(detectCharset(new Uint8Array())).toEqual({ charset: 'utf-8', hasBom: false, bomLength: 0 });
+  });
+
+  it('allows a UTF-8 sequence cut off at the end', () => {
+    expect(detectCharset(Buffer.from('Rīga').subarray(0, 2)).charset).toBe('utf-8');
+  });
+
+  it('detects Windows-1257 by the Latvian letters', () => {
+    // Rīga, Liepāja, Jūrmala
+    expect(detectCharset(bytes('R', [0xee], 'ga, Liep', [0xe2], 'ja, J', [0xfb], 'rmala')).charset).toBe('windows-1257');
+  });
+
+  it('detects ISO-8859-13 by the quotation marks undefined in Windows-1257', () => {
+    // „Rīga”
+    expect(detectCharset(bytes([0xa5], 'R', [0xee], 'ga', [0xa1])).charset).toBe('iso-8859-13');
+  });
+});
+
+describe('decodeText', () => {
+  it('decodes the text without the byte order mark', () => {
+    expect(decodeText(bytes([0xef, 0xbb, 0xbf], [...Buffer.from('Rīga')]))).toEqual({
+      charset: 'utf-8-sig',
+      hasBom: true,
+      bomLength: 3,
+      text: 'Rīga',
+    });
+    expect(decodeText(bytes([0xff, 0xfe], [0x52, 0, 0x2b, 0x01])).text).toBe('Rī');
+  });
+
+  it('decodes a single-byte encoding', () => {
+    expect(decodeText(bytes('R', [0xee], 'ga')).text).toBe('Rīga');
+  });
+});
+
+describe('charsetDecoder', () => {
+  it('decodes UTF-8 with a byte order mark as UTF-8', () => {
+    expect(charsetDecoder('utf-8-sig').encoding).toBe('utf-8');
+  });
+});
+
+describe('isUtf8', () => {
+  it('is true for UTF-8 with and without a byte order mark', () => {
+    expect(isUtf8('utf-8')).toBe(true);
+    expect(isUtf8('utf-8-sig')).toBe(true);
+    expect(isUtf8('windows-1257')).toBe(false);
+    expect(isUtf8('')).toBe(false);
+  });
+});
+
+describe('isDecodableCharset', () => {
+  it('knows the WHATWG encoding labels', () => {
+    expect(isDecodableCharset('utf-8-sig')).toBe(true);
+    expect(isDecodableCharset('windows-1257')).toBe(true);
+    expect(isDecodableCharset('ISO-8859-13')).toBe(true);
+    expect(isDecodableCharset('baltic')).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Character encoding detection of text resources. Besides UTF-8, Latvian government files
+ * are often in the Baltic single-byte encodings Windows-1257 or ISO-8859-13.
+ */
+
+export type Charset = {
+  /** WHATWG encoding label, `utf-8-sig` for UTF-8 with a byte order mark */
+  charset: string;
+  hasBom: boolean;
+  /** Length of the byte order mark to skip */
+  bomLength: number;
+};
+
+/** Encodings other than UTF-8 need a warning, it is what everybody expects */
+export function isUtf8(charset: string): boolean {
+  return charset === 'utf-8' || charset === 'utf-8-sig';
+}
+
+const LATVIAN_LETTERS = new Set('āčēģīķļņšūžĀČĒĢĪĶĻŅŠŪŽ');
+
+const SINGLE_BYTE_CANDIDATES = ['windows-1257', 'iso-8859-13'];
+
+/** Bytes inspected for the detection, enough for a few hundred lines */
+export const DETECTION_BYTES = 64 * 1024;
+
+function bom(bytes: Uint8Array): Charset | undefined {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { charset: 'utf-8-sig', hasBom: true, bomLength: 3 };
+  } else if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { charset: 'utf-16le', hasBom: true, bomLength: 2 };
+  } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { charset: 'utf-16be', hasBom: true, bomLength: 2 };
+  }
+  return undefined;
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    // In streaming mode a sequence cut off at the end of a sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * How Latvian the text looks: letters with diacritics count for the encoding,
+ * C1 control characters and undefined bytes against it.
+ */
+function score(text: string): number {
+  let result = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (LATVIAN_LETTERS.has(char)) {
+      result++;
+    } else if (char === '\uFFFD' || (code >= 0x80 && code <= 0x9f)) {
+      result -= 5;
+    }
+  }
+  return result;
+}
+
+/**
+ * Detects the encoding of the beginning of a text file: the byte order mark, then valid UTF-8,
+ * then the single-byte encoding that decodes to the most Latvian letters, Windows-1257 on a tie.
+ */
+export function detectCharset(bytes: Uint8Array): Charset {
+  const detected = bom(bytes);
+  if (detected) {
+    return detected;
+  }
+
+  const sample = bytes.subarray(0, DETECTION_BYTES);
+  if (isValidUtf8(sample)) {
+    return { charset: 'utf-8', hasBom: false, bomLength: 0 };
+  }
+
+  const scores = SINGLE_BYTE_CANDIDATES.map(charset => ({
+    charset,
+    score: score(new TextDecoder(charset).decode(sample)),
+  }));
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  return { charset: best.charset, hasBom: false, bomLength: 0 };
+}
+
+/**
+ * A decoder for the detected encoding, the byte order mark is expected to be skipped already.
+ */
+export function charsetDecoder(charset: string): TextDecoder {
+  return new TextDecoder(charset === 'utf-8-sig' ? 'utf-8' : charset, { ignoreBOM: true });
+}
+
+/**
+ * Whether text in the charset can be decoded, i.e. it is an encoding label that TextDecoder knows.
+ */
+export function isDecodableCharset(charset: string): boolean {
+  try {
+    return Boolean(charsetDecoder(charset));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detects the encoding of the bytes and decodes them.
+ */
+export function decodeText(bytes: Uint8Array): Charset & { text: string } {
+  const charset = detectCharset(bytes);
+  return { ...charset, text: charsetDecoder(charset.charset).decode(bytes.subarray(charset.bomLength)) };
+}
@@ -0,0 +1,190 @@
+import { Entity, GroupEntity } from '@backstage/catalog-model';
+import { ConfigReader } from '@backstage/config';
+import { CkanEntityProvider } from './ckan-provider';
+import { HttpCache } from './http-cache';
+import { CkanNameStore } from './name-store';
+import { CkanSyncStore } from './sync-store';
+
+type Dataset = Awaited<ReturnType<CkanEntityProvider['searchModifiedDatasets']>>[number];
+
+function entity(kind: string, name: string): Entity {
+  return { apiVersion: 'data.gov.lv/v1alpha1', kind, metadata: { name } };
+}
+
+describe('CkanEntityProvider', () => {
+  const group: GroupEntity = {
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Group',
+    metadata: { name: 'vzd' },
+    spec: { type: 'organization', children: [] },
+  };
+  const connection = { applyMutation: jest.fn(), refresh: jest.fn() };
+  const syncStore = {
+    getDatasets: jest.fn(),
+    replaceDatasets: jest.fn(),
+    upsertDatasets: jest.fn(),
+    deleteDatasets: jest.fn(),
+    setState: jest.fn(),
+  };
+  let provider: CkanEntityProvider;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const config = new ConfigReader({
+      catalog: { providers: { ckan: { portal: { baseUrl: 'https://ckan.example.lv' } } } },
+    });
+    [provider] = CkanEntityProvider.fromConfig(config, {
+      syncStore: syncStore as unknown as CkanSyncStore,
+      httpCache: {} as HttpCache,
+      nameStore: {} as CkanNameStore,
+    });
+    await provider.connect(connection);
+    jest.spyOn(provider, 'createGroups').mockResolvedValue([group]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('fullSync', () => {
+    const dataset = { result: { name: 'a', type: 'dataset', metadata_modified: '2024-02-20T10:00:00.000000' } } as Dataset;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(provider, 'getDatasetNames').mockResolvedValue(['a', 'b']);
+      jest.spyOn(provider, 'applyDatasetEntities').mockResolvedValue(new Map([['a', [entity('Dataset', 'a')]]]));
+    });
+
+    it('replaces all entities when every dataset loads', async () => {
+      jest.spyOn(provider, 'fetchDataset').mockResolvedValue(dataset);
+
+      await provider.fullSync({});
+
+      expect(connection.applyMutation).toHaveBeenCalledWith({
+        type: 'full',
+        entities: [
+          { entity: group, locationKey: 'ckan-portal:production' },
+          { entity: entity('Dataset', 'a'), locationKey: 'ckan-portal:production' },
+        ],
+      });
+      expect(syncStore.replaceDatasets).toHaveBeenCalledWith('ckan-portal', new Map([['a', ['dataset:default/a']]]));
+    });
+
+    it('keeps the entities of a dataset that fails to load', async () => {
+      jest.spyOn(provider, 'fetchDataset').mockImplementation(async name => {
+        if (name === 'b') {
+          throw new Error('Dataset b returned Authorization Error: Access denied');
+        }
+        return dataset;
+      });
+      syncStore.getDatasets.mockResolvedValue(new Map([
+        ['a', ['dataset:default/a', 'distribution:default/a-old']],
+        ['b', ['dataset:default/b', 'distribution:default/b']],
+        ['c', ['dataset:default/c']],
+      ]));
+
+      await provider.fullSync({ groupRefs: ['group:default/vzd', 'group:default/likvidets'] });
+
+      expect(provider.applyDatasetEntities).toHaveBeenCalledWith([dataset]);
+      expect(connection.applyMutation).toHaveBeenCalledWith({
+        type: 'delta',
+        added: [
+          { entity: group, locationKey: 'ckan-portal:production' },
+          { entity: entity('Dataset', 'a'), locationKey: 'ckan-portal:production' },
+        ],
+        removed: [
+          { entityRef: 'distribution:default/a-old', locationKey: 'ckan-portal:production' },
+          { entityRef: 'dataset:default/c', locationKey: 'ckan-portal:production' },
+          { entityRef: 'group:default/likvidets', locationKey: 'ckan-portal:production' },
+        ],
+      });
+      expect(syncStore.replaceDatasets).toHaveBeenCalledWith('ckan-portal', new Map([
+        ['a', ['dataset:default/a']],
+        ['b', ['dataset:default/b', 'distribution:default/b']],
+      ]));
+      expect(syncStore.setState).toHaveBeenCalledWith('ckan-portal', expect.objectContaining({
+        cursor: '2024-02-20T10:00:00.000Z',
+      }));
+    });
+  });
+
+  describe('incrementalSync', () => {
+    it('removes the entities of deleted and changed datasets that no remaining dataset emits', async () => {
+      syncStore.getDatasets.mockResolvedValue(new Map([
+        ['a', ['dataset:default/a', 'distribution:default/shared']],
+        // Stored before the groups were synced on their own
+        ['b', ['dataset:default/b', 'distribution:default/shared', 'group:default/vzd']],
+        ['c', ['dataset:default/c', 'distribution:default/c-old']],
+      ]));
+      jest.spyOn(provider, 'getDatasetNames').mockResolvedValue(['a', 'c']);
+      jest.spyOn(provider, 'searchModifiedDatasets')
+        .mockResolvedValue([{ result: { name: 'c', metadata_modified: '2024-02-20T10:00:00.000000' } } as Dataset]);
+      const changed = new Map([['c', [entity('Dataset', 'c'), entity('Distribution', 'c-new')]]]);
+      jest.spyOn(provider, 'applyDatasetEntities').mockResolvedValue(changed);
+
+      await provider.incrementalSync({
+        cursor: '2024-02-19T00:00:00.000Z',
+        lastFullSyncAt: new Date('2024-02-19T00:00:00.000Z'),
+        groupRefs: ['group:default/vzd', 'group:default/likvidets'],
+      });
+
+      expect(provider.searchModifiedDatasets).toHaveBeenCalledWith('2024-02-19T00:00:00.000Z');
+      expect(connection.applyMutation).toHaveBeenCalledTimes(2);
+      expect(connection.applyMutation).toHaveBeenNthCalledWith(1, {
+        type: 'delta',
+        added: [{ entity: group, locationKey: 'ckan-portal:production' }],
+        removed: [],
+      });
+      expect(connection.applyMutation).toHaveBeenNthCalledWith(2, {
+        type: 'delta',
+        added: [],
+        removed: [
+          { entityRef: 'dataset:default/b', locationKey: 'ckan-portal:production' },
+          { entityRef: 'distribution:default/c-old', locationKey: 'ckan-portal:production' },
+          { entityRef: 'group:default/likvidets', locationKey: 'ckan-portal:production' },
+        ],
+      });
+      expect(syncStore.upsertDatasets).toHaveBeenCalledWith('ckan-portal', new Map([
+        ['c', ['dataset:default/c', 'distribution:default/c-new']],
+      ]));
+      expect(syncStore.deleteDatasets).toHaveBeenCalledWith('ckan-portal', ['b']);
+      expect(syncStore.setState).toHaveBeenCalledWith('ckan-portal', {
+        cursor: '2024-02-20T10:00:00.000Z',
+        lastFullSyncAt: new Date('2024-02-19T00:00:00.000Z'),
+        groupRefs: ['group:default/vzd'],
+      });
+    });
+
+    it('removes nothing and keeps the cursor when nothing changed', async () => {
+      syncStore.getDatasets.mockResolvedValue(new Map([['a', ['dataset:default/a']]]));
+      jest.spyOn(provider, 'getDatasetNames').mockResolvedValue(['a']);
+      jest.spyOn(provider, 'searchModifiedDatasets').mockResolvedValue([]);
+      jest.spyOn(provider, 'applyDatasetEntities').mockResolvedValue(new Map());
+
+      await provider.incrementalSync({ cursor: '2024-02-19T00:00:00.000Z', groupRefs: ['group:default/vzd'] });
+
+      expect(connection.applyMutation).toHaveBeenCalledTimes(1);
+      expect(syncStore.deleteDatasets).toHaveBeenCalledWith('ckan-portal', []);
+      expect(syncStore.setState).toHaveBeenCalledWith('ckan-portal', {
+        cursor: '2024-02-19T00:00:00.000Z',
+        groupRefs: ['group:default/vzd'],
+      });
+    });
+  });
+
+  describe('resourceUrl', () => {
+    it.each([
+      ['https://data.gov.lv/dati/adreses.csv', 'https://data.gov.lv/dati/adreses.csv'],
+      ['ftp://ftp.example.lv/adreses.zip', 'ftp://ftp.example.lv/adreses.zip'],
+      [' www.vzd.gov.lv ', 'https://www.vzd.gov.lv'],
+      ['data.example.lv/adreses.csv', 'https://data.example.lv/adreses.csv'],
+      ['//cdn.example.lv/adreses.csv', 'https://cdn.example.lv/adreses.csv'],
+      ['/dataset/adreses/resource/aw.csv', 'https://ckan.example.lv/dataset/adreses/resource/aw.csv'],
+      ['adreses.csv', 'https://ckan.example.lv/adreses.csv'],
+      ['', ''],
+    ])('makes %j absolute', (url, expected) => {
+      expect(provider.resourceUrl(url)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,1249 @@
+import {
+  Entity, GroupEntity, ResourceEntity, SystemEntity,
+  ANNOTATION_ORIGIN_LOCATION, ANNOTATION_LOCATION, ANNOTATION_VIEW_URL,
+  stringifyEntityRef,
+} from '@backstage/catalog-model';
+import {
+  EntityProvider,
+  EntityProviderConnection,
+} from '@backstage/plugin-catalog-node';
+import PQueue from 'p-queue';
+import { TaskScheduleDefinition } from '@backstage/backend-tasks';
+import { Config } from '@backstage/config';
+import { durationToMilliseconds } from '@backstage/types';
+import { CkanProviderConfig, readCkanProviderConfigs } from './config';
+import { CkanSyncState, CkanSyncStore } from './sync-store';
+import { CkanNameStore } from './name-store';
+import { ANNOTATION_CKAN_ID, ANNOTATION_CKAN_NAME, ckanEntityName, distributionName } from './names';
+import { ANNOTATION_DATA_MODIFIED, ANNOTATION_METADATA_MODIFIED } from './freshness';
+import { HttpCache } from './http-cache';
+import { LinkCheck, LinkStore } from './links/link-store';
+import { ANNOTATION_LINK_HEALTH, linkHealth } from './links/processor';
+import { withQualityScore } from './quality/checks';
+import { SchemaInfo } from './types';
+import { DATASET_API_VERSION, DatasetEntityV1alpha1, DistributionEntityV1alpha1 } from './kinds';
+import { readChunks, readSample, sampleRange } from './sample';
+import { decodeText, isUtf8 } from './charset';
+import { csvAvroSchema, inferCsvSchema } from './schema/csv';
+import { inferJsonSchema } from './schema/json';
+import { decodeXml, inferXmlSchema } from './schema/xml';
+import { inferSpreadsheetSchema, spreadsheetAvroSchema } from './schema/spreadsheet';
+import { ArchiveEntry, read7zEntries, readZipEntries, RemoteZip, ZIP_TAIL_BYTES } from './archive';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+
+export type CkanEntityProviderOptions = {
+  syncStore: CkanSyncStore;
+  httpCache: HttpCache;
+  nameStore: CkanNameStore;
+  /** The link checks, the health of the distribution links counts in the quality score of the datasets */
+  linkStore?: LinkStore;
+};
+
+type DatasetResource = {
+  id: string;
+  url: string;
+  name: string | undefined;
+  description: string | number;
+  format: any;
+  state: string;
+  created?: string;
+  /** When the file was last uploaded, null for links that were never updated */
+  last_modified?: string | null;
+};
+
+
+type Dataset = {
+  result: {
+    id: string;
+    name: string;
+    metadata_modified: string;
+    organization: any;
+    title?: string;
+    notes?: string;
+    license_title: string;
+    license_id: string;
+    license_url: string;
+    maintainer: string;
+    frequency: string;
+    tags: any;
+    type: string;
+    state: string;
+    resources: DatasetResource[];
+    /** Source URL of a harvest source, application URL of a showcase */
+    url?: string;
+    source_type?: string;
+    extras?: { key: string; value: string }[];
+    /** The thematic groups the dataset is a member of */
+    groups?: { name: string }[];
+  }
+};
+
+/**
+ * The response of a CKAN action, with its `result` on success and an `error` otherwise.
+ */
+type CkanResponse<T> =
+  | { success: true; result: T }
+  | { success: false; error: { __type: string; message?: string } };
+
+/**
+ * An organization or thematic group of `organization_list` or `group_list` with `all_fields`.
+ */
+type CkanGroup = {
+  id: string;
+  name: string;
+  title?: string;
+  description?: string;
+  image_url?: string;
+  is_organization: boolean;
+  package_count?: number;
+  member_count?: number;
+  /** The groups this one is a member of, with ckanext-hierarchy these are its parents */
+  groups?: { name: string }[];
+};
+
+/**
+ * Provides datasets of a CKAN 2.x portal (`package_list`, `package_show`, `datastore_info`)
+ * and its organizations and groups (`organization_list`, `group_list`) as catalog entities.
+ */
+export class CkanEntityProvider implements EntityProvider {
+  private readonly API_LIST: string;
+  private readonly API_SHOW: string;
+  private readonly API_INFO: string;
+  private readonly API_SEARCH: string;
+  private readonly API_SHOWCASE_DATASETS: string;
+  private readonly API_ORGANIZATION_LIST: string;
+  private readonly API_ORGANIZATION_SHOW: string;
+  private readonly API_GROUP_LIST: string;
+  private readonly API_GROUP_SHOW: string;
+
+  protected readonly id: string;
+  private readonly env: string;
+  private readonly baseUrl: string;
+  private readonly title: string;
+  private readonly viewUrl: string;
+  private readonly organizationImageUrl?: string;
+  private readonly namespace: string;
+  private readonly ownerPrefix: string;
+  private readonly timeout: number;
+  private readonly sampleRows: number;
+  private readonly sampleBytes: number;
+  private readonly jsonMaxBytes: number;
+  private readonly jsonSampleItems: number;
+  private readonly spreadsheetMaxBytes: number;
+  private readonly archiveMaxBytes: number;
+  private readonly archiveMaxMembers: number;
+  private readonly incremental: boolean;
+  private readonly fullSyncFrequency: number;
+  private readonly syncStore: CkanSyncStore;
+  private readonly nameStore: CkanNameStore;
+  private readonly httpCache: HttpCache;
+  private readonly linkStore?: LinkStore;
+  private geoJsonSchema?: Promise<SchemaInfo | undefined>;
+  private harvestSources = new Map<string, Promise<string | undefined>>();
+  private linkHealth = new Map<string, string>();
+  private connection?: EntityProviderConnection;
+
+  private readonly pqueue: PQueue;
+
+  readonly schedule: TaskScheduleDefinition;
+
+  static fromConfig(config: Config, options: CkanEntityProviderOptions): CkanEntityProvider[] {
+    return readCkanProviderConfigs(config, 'catalog.providers.ckan')
+      .map(providerConfig => new CkanEntityProvider(providerConfig, options));
+  }
+
+  constructor(config: CkanProviderConfig, options: CkanEntityProviderOptions) {
+    this.id = config.id;
+    this.env = config.env;
+    this.baseUrl = config.baseUrl;
+    this.title = config.title;
+    this.viewUrl = config.viewUrl;
+    this.organizationImageUrl = config.organizationImageUrl;
+    this.namespace = config.namespace;
+    this.ownerPrefix = config.ownerPrefix;
+    this.timeout = durationToMilliseconds(config.timeout);
+    this.sampleRows = config.sampleRows;
+    this.sampleBytes = config.sampleBytes;
+    this.jsonMaxBytes = config.jsonMaxBytes;
+    this.jsonSampleItems = config.jsonSampleItems;
+    this.spreadsheetMaxBytes = config.spreadsheetMaxBytes;
+    this.archiveMaxBytes = config.archiveMaxBytes;
+    this.archiveMaxMembers = config.archiveMaxMembers;
+    this.incremental = config.incremental;
+    this.fullSyncFrequency = durationToMilliseconds(config.fullSyncFrequency);
+    this.syncStore = options.syncStore;
+    this.httpCache = options.httpCache;
+    this.nameStore = options.nameStore;
+    this.linkStore = options.linkStore;
+    this.schedule = config.schedule;
+    this.pqueue = new PQueue({ concurrency: config.concurrency, });
+
+    this.API_LIST = `${config.baseUrl}/api/3/action/package_list`;
+    this.API_SHOW = `${config.baseUrl}/api/3/action/package_show`;
+    this.API_INFO = `${config.baseUrl}/api/3/action/datastore_info`;
+    this.API_SEARCH = `${config.baseUrl}/api/3/action/package_search`;
+    this.API_SHOWCASE_DATASETS = `${config.baseUrl}/api/3/action/ckanext_showcase_package_list`;
+    this.API_ORGANIZATION_LIST = `${config.baseUrl}/api/3/action/organization_list`;
+    this.API_ORGANIZATION_SHOW = `${config.baseUrl}/api/3/action/organization_show`;
+    this.API_GROUP_LIST = `${config.baseUrl}/api/3/action/group_list`;
+    this.API_GROUP_SHOW = `${config.baseUrl}/api/3/action/group_show`;
+  }
+
+  getProviderName(): string {
+    return `ckan-${this.id}`;
+  }
+
+  async connect(connection: EntityProviderConnection): Promise<void> {
+    this.connection = connection;
+  }
+
+  async run(): Promise<void> {
+    if (!this.connection) {
+      throw new Error('Not initialized');
+    }
+
+    this.geoJsonSchema = undefined;
+    this.harvestSources.clear();
+    this.linkHealth = await this.readLinkHealth();
+    const state = await this.syncStore.getState(this.getProviderName());
+    const fullSyncDue = !state.cursor || !state.lastFullSyncAt
+      || Date.now() - state.lastFullSyncAt.getTime() >= this.fullSyncFrequency;
+
+    if (this.incremental && !fullSyncDue) {
+      await this.incrementalSync(state);
+    } else {
+      await this.fullSync(state);
+    }
+  }
+
+  /**
+   * Emits every dataset. A dataset that fails to load is skipped and keeps the entities it emitted before,
+   * so then the entities of the datasets and groups that are gone are removed with a delta mutation
+   * instead of a full one.
+   */
+  async fullSync(state: CkanSyncState): Promise<void> {
+    const groups = await this.createGroups();
+    const datasetNames = await this.getDatasetNames();
+    const skippedNames: string[] = [];
+    const datasets: Dataset[] = (await Promise.all(datasetNames.map(name => this.fetchDataset(name)
+      .catch(reason => {
+        console.error(`Dataset ${name} failed, it keeps its entities`, reason);
+        skippedNames.push(name);
+        return undefined;
+      }))))
+      .filter((dataset): dataset is Dataset => dataset !== undefined);
+    const datasetEntities = await this.applyDatasetEntities(datasets);
+    const entities = [...groups, ...[...datasetEntities.values()].flat()];
+    const entityRefs = this.toEntityRefs(datasetEntities);
+
+    console.log(`Entities:\t${entities.length}\tSkipped datasets:\t${skippedNames.length}\n`);
+
+    if (skippedNames.length === 0) {
+      await this.connection!.applyMutation({
+        type: 'full',
+        entities: [...entities].map(entity => ({
+          entity,
+          locationKey: this.locationKey(),
+        })),
+      });
+    } else {
+      const knownDatasets = await this.syncStore.getDatasets(this.getProviderName());
+      skippedNames
+        .filter(name => knownDatasets.has(name))
+        .forEach(name => entityRefs.set(name, knownDatasets.get(name)!));
+      const keptRefs = new Set([
+        ...groups.map(group => stringifyEntityRef(group)),
+        ...[...entityRefs.values()].flat(),
+      ]);
+      const removedRefs = new Set([...[...knownDatasets.values()].flat(), ...state.groupRefs ?? []]
+        .filter(ref => !keptRefs.has(ref)));
+      await this.connection!.applyMutation({
+        type: 'delta',
+        added: entities.map(entity => ({
+          entity,
+          locationKey: this.locationKey(),
+        })),
+        removed: [...removedRefs].map(entityRef => ({
+          entityRef,
+          locationKey: this.locationKey(),
+        })),
+      });
+    }
+
+    await this.syncStore.replaceDatasets(this.getProviderName(), entityRefs);
+    await this.syncStore.setState(this.getProviderName(), {
+      cursor: this.latestModified(datasets),
+      lastFullSyncAt: new Date(),
+      groupRefs: groups.map(group => stringifyEntityRef(group)),
+    });
+  }
+
+  async incrementalSync(state: CkanSyncState): Promise<void> {
+    const groups = await this.createGroups();
+    const groupRefs = new Set(groups.map(group => stringifyEntityRef(group)));
+    await this.connection!.applyMutation({
+      type: 'delta',
+      added: groups.map(entity => ({
+        entity,
+        locationKey: this.locationKey(),
+      })),
+      removed: [],
+    });
+
+    const knownDatasets = await this.syncStore.getDatasets(this.getProviderName());
+    const datasetNames = new Set(await this.getDatasetNames());
+    const changedDatasets = await this.searchModifiedDatasets(state.cursor!);
+    const datasetEntities = await this.applyDatasetEntities(changedDatasets);
+    const changedRefs = this.toEntityRefs(datasetEntities);
+
+    const deletedNames = [...knownDatasets.keys()].filter(name => !datasetNames.has(name));
+    const remainingDatasets = new Map(knownDatasets);
+    deletedNames.forEach(name => remainingDatasets.delete(name));
+    changedRefs.forEach((refs, name) => remainingDatasets.set(name, refs));
+
+    // Only remove what no remaining dataset emits. Refs stored before the groups were synced
+    // on their own may still contain the owner group, it stays as long as the portal lists it.
+    const remainingRefs = new Set([...remainingDatasets.values()].flat());
+    const removedRefs = new Set([...knownDatasets]
+      .filter(([name]) => deletedNames.includes(name) || changedRefs.has(name))
+      .flatMap(([, refs]) => refs)
+      .filter(ref => !remainingRefs.has(ref) && !groupRefs.has(ref)));
+    (state.groupRefs ?? [])
+      .filter(ref => !groupRefs.has(ref))
+      .forEach(ref => removedRefs.add(ref));
+
+    console.log(`Changed datasets:\t${changedDatasets.length}\tDeleted datasets:\t${deletedNames.length}\tRemoved entities:\t${removedRefs.size}\n`);
+
+    if (removedRefs.size > 0) {
+      await this.connection!.applyMutation({
+        type: 'delta',
+        added: [],
+        removed: [...removedRefs].map(entityRef => ({
+          entityRef,
+          locationKey: this.locationKey(),
+        })),
+      });
+    }
+
+    await this.syncStore.upsertDatasets(this.getProviderName(), changedRefs);
+    await this.syncStore.deleteDatasets(this.getProviderName(), deletedNames);
+    await this.syncStore.setState(this.getProviderName(), {
+      ...state,
+      cursor: this.latestModified(changedDatasets) ?? state.cursor,
+      groupRefs: [...groupRefs],
+    });
+  }
+
+  async applyDatasetEntities(datasets: Dataset[]): Promise<Map<string, Entity[]>> {
+    const datasetsPromises: Promise<[string, Entity[]]>[] = datasets
+      .filter(dataset => {
+        if (!CkanEntityProvider.PACKAGE_TYPES.has(dataset.result.type)) {
+          console.warn(`Ignore type ${dataset.result.type} of ${dataset.result.name}`);
+          return false;
+        } else {
+          return true;
+        }
+      })
+      .map(async (dataset, index) => {
+        let entities: Entity[];
+        if (dataset.result.type === "showcase") {
+          entities = [await this.createShowcase(dataset)];
+        } else if (dataset.result.type === "harvest") {
+          entities = [this.createHarvestSource(dataset)];
+        } else {
+          const distributions: DistributionEntityV1alpha1[] = await this.createDistributions(dataset);
+          const datasetEntity: DatasetEntityV1alpha1 = this.scoreDataset(
+            this.createDataset(dataset, await this.harvestSourceName(dataset)),
+            distributions,
+          );
+          entities = [datasetEntity, ...distributions];
+        }
+        if (index % 20 === 0) {
+          console.log(`Progress: ${index} of ${datasets.length} (${Math.round(index / datasets.length * 100)}%)`);
+        }
+        return [dataset.result.name, entities] as [string, Entity[]];
+      })
+      .map(async (datasetEntities) => {
+        const [, entities] = await datasetEntities;
+        await this.connection!.applyMutation({
+          type: 'delta',
+          added: entities.map(entity => ({
+            entity,
+            locationKey: this.locationKey(),
+          })),
+          removed: [],
+        });
+        return datasetEntities;
+      });
+    return new Map(await Promise.all(datasetsPromises));
+  }
+
+  /**
+   * The dataset with its quality score. The distributions count with the health of their links
+   * as of the start of the run, which the LinkHealthProcessor only adds when they are processed.
+   */
+  scoreDataset(dataset: DatasetEntityV1alpha1, distributions: DistributionEntityV1alpha1[]): DatasetEntityV1alpha1 {
+    return withQualityScore(dataset, distributions.map(distribution => {
+      const health = this.linkHealth.get(stringifyEntityRef(distribution));
+      if (!health) {
+        return distribution;
+      }
+      return {
+        ...distribution,
+        metadata: {
+          ...distribution.metadata,
+          annotations: { ...distribution.metadata.annotations, [ANNOTATION_LINK_HEALTH]: health },
+        },
+      };
+    }));
+  }
+
+  /**
+   * The link health of every checked entity, by entity ref.
+   */
+  async readLinkHealth(): Promise<Map<string, string>> {
+    const checksByEntity = new Map<string, LinkCheck[]>();
+    for (const check of await this.linkStore?.latest() ?? []) {
+      checksByEntity.set(check.entityRef, [...checksByEntity.get(check.entityRef) ?? [], check]);
+    }
+    return new Map([...checksByEntity].map(([entityRef, checks]) => [entityRef, linkHealth(checks)]));
+  }
+
+  async createDistributions(dataset: Dataset): Promise<DistributionEntityV1alpha1[]> {
+    const data = dataset.result;
+    const names = await this.nameStore.assignNames(this.getProviderName(), new Map(data.resources.map(resource => [
+      resource.id,
+      distributionName(data.name, resource.name || resource.url.split("/").pop() || resource.id),
+    ])));
+    const result = data.resources
+      .map(async (resource: DatasetResource) => {
+        const url = this.resourceUrl(resource.url);
+        const schemaInfo: SchemaInfo = await this.tryDatastoreInfo(resource.id)
+          .then(async datastoreSchema => {
+            if (datastoreSchema !== undefined) {
+              return datastoreSchema;
+            } else {
+              return await this.tryResourceUrl(url);
+            }
+          })
+          .catch(reason => {
+            console.error(`Resource id failed: ${resource.id}`, reason);
+            return { type: "error", definition: JSON.stringify(reason, null, 2) };
+          }).then(schema => {
+            if (schema === undefined) {
+              console.warn(`Not found schema for ${resource.name} - ${resource.id} - ${url}`)
+              return { type: "unknown", definition: "unknown" };
+            } else {
+              return schema;
+            }
+          });
+
+        const links = url !== "" ? [{
+          url,
+          title: "Link to the data file",
+        }] : [];
+        if (schemaInfo.schemaUrl) {
+          links.push({
+            url: schemaInfo.schemaUrl,
+            title: "Link to the XML schema",
+          });
+        }
+
+        return {
+          apiVersion: DATASET_API_VERSION,
+          kind: 'Distribution',
+          metadata: {
+            name: names.get(resource.id)!,
+            namespace: this.namespace,
+            title: resource.name === "" ? url : resource.name,
+            description: resource.description
+              + (schemaInfo.hasBom ? "\n\n> :warning: **Datu fails satur BOM baitus!**" : "")
+              // Files that are not text have no charset, it is unknown rather than UTF-8
+              + (schemaInfo.charset === undefined || isUtf8(schemaInfo.charset) ? "" : `\n\n> :warning: **Datu fails nav UTF-8 kodējumā, bet ${schemaInfo.charset}!**`),
+            annotations: {
+              ...this.annotations(dataset.result.name),
+              [ANNOTATION_CKAN_ID]: resource.id,
+            },
+            links: links,
+          },
+          spec: {
+            type: schemaInfo.type,
+            lifecycle: resource.state === "active" ? "production" : "experimental",
+            owner: this.ownerName(dataset.result.organization),
+            dataset: stringifyEntityRef({ kind: 'Dataset', namespace: this.namespace, name: ckanEntityName(data.name) }),
+            url: url !== "" ? url : undefined,
+            format: resource.format ? `${resource.format}` : undefined,
+            definition: schemaInfo.definition,
+            startsWithBom: schemaInfo.hasBom,
+            charset: schemaInfo.charset,
+          },
+        } as DistributionEntityV1alpha1;
+      });
+    return Promise.all(result);
+  }
+
+  async tryResourceUrl(url: string): Promise<SchemaInfo | undefined> {
+    if (url.endsWith(".json")) {
+      return this.tryResourceJsonUrl(url);
+    } else if (url.endsWith(".csv")) {
+      return this.tryResourceCsvUrl(url);
+    } else if (url.endsWith(".xml")) {
+      return this.tryResourceXmlUrl(url);
+    } else if (/\.(xlsx|xlsm|xls|ods)$/i.test(url)) {
+      return this.tryResourceSpreadsheetUrl(url);
+      // } else if (url.endsWith(".docx")) { // All these following "datasets" :facepalm:
+      //   return { type: "binary", definition: "docx" };
+      // } else if (url.endsWith(".pdf")) {
+      //   return { type: "binary", definition: "pdf" };
+    } else if (/\.(zip|7z)$/i.test(url)) {
+      return this.tryResourceArchiveUrl(url);
+      // } else if (url.startsWith("https://public.tableau.com/")) {
+      //   return { type: "tableau", definition: "tableau-dashboard" };
+    } else if (url.endsWith(".geojson")) {
+      return this.tryGeoJsonSchema();
+    }
+    return undefined;
+  }
+
+  async tryGeoJsonSchema(): Promise<SchemaInfo | undefined> {
+    // The same schema for every resource, fetch it once per run
+    this.geoJsonSchema ??= this.httpCache.probe(
+      CkanEntityProvider.GEOJSON_SCHEMA,
+      headers => this.fetch(CkanEntityProvider.GEOJSON_SCHEMA, { headers }),
+      async response => ({ type: "json-schema", definition: await response.text() }),
+    );
+    return this.geoJsonSchema;
+  }
+
+  async tryResourceCsvUrl(url: string): Promise<SchemaInfo | undefined> {
+    return this.probeResource(url, response => this.inferCsvSchema(url, response), sampleRange(this.sampleBytes));
+  }
+
+  async inferCsvSchema(url: string, response: Response): Promise<SchemaInfo | undefined> {
+    const { bytes, truncated } = await readSample(response, this.sampleBytes);
+    const { text, hasBom, charset } = decodeText(bytes);
+    const schema = inferCsvSchema(text, { maxRows: this.sampleRows, truncated });
+
+    if (!schema || schema.delimiter === "unknown") {
+      console.warn(`???? Fields for ${url}: ${JSON.stringify(schema?.fields)}`);
+    }
+    if (!schema) {
+      return undefined;
+    }
+
+    return {
+      type: "avro",
+      definition: JSON.stringify(csvAvroSchema(schema), null, 2),
+      hasBom: hasBom,
+      charset: charset,
+    };
+  }
+
+  async tryResourceXmlUrl(url: string): Promise<SchemaInfo | undefined> {
+    return this.probeResource(url, response => this.inferXmlSchema(url, response), sampleRange(this.sampleBytes));
+  }
+
+  async inferXmlSchema(url: string, response: Response): Promise<SchemaInfo | undefined> {
+    const { bytes, truncated } = await readSample(response, this.sampleBytes);
+    const { text, hasBom, charset } = decodeXml(bytes);
+    const { schemaLocations, xsd } = inferXmlSchema(text, { truncated, sampleBytes: this.sampleBytes });
+
+    // The schema referenced by the document is authoritative, the inferred one is only a fallback
+    for (const location of schemaLocations) {
+      const schemaUrl = new URL(location, url).toString();
+      const referenced = await this.httpCache.probe(
+        schemaUrl,
+        headers => this.fetch(schemaUrl, { headers }),
+        async schemaResponse => ({ type: "xsd", definition: await schemaResponse.text(), schemaUrl: schemaUrl }),
+      ).catch(reason => {
+        console.warn(`XML schema ${schemaUrl} of ${url} failed`, reason);
+        return undefined;
+      });
+      if (referenced) {
+        return { ...referenced, hasBom: hasBom, charset: charset };
+      }
+    }
+
+    return {
+      type: "xsd",
+      definition: xsd,
+      hasBom: hasBom,
+      charset: charset,
+    };
+  }
+
+  async tryResourceSpreadsheetUrl(url: string): Promise<SchemaInfo | undefined> {
+    return this.probeResource(url, response => this.inferSpreadsheetSchema(url, response));
+  }
+
+  async inferSpreadsheetSchema(url: string, response: Response): Promise<SchemaInfo | undefined> {
+    // Workbooks are zip or OLE containers, they can not be read from their beginning only
+    const { bytes, truncated } = await readSample(response, this.spreadsheetMaxBytes);
+    if (truncated) {
+      console.warn(`Spreadsheet ${url} is larger than ${this.spreadsheetMaxBytes} bytes, skipped`);
+      return undefined;
+    }
+
+    const sheets = inferSpreadsheetSchema(bytes, { maxRows: this.sampleRows });
+    if (sheets.length === 0) {
+      console.warn(`No sheets with data in ${url}`);
+      return undefined;
+    }
+    return {
+      type: "avro",
+      definition: JSON.stringify(spreadsheetAvroSchema(sheets), null, 2),
+    };
+  }
+
+  async tryResourceArchiveUrl(url: string): Promise<SchemaInfo | undefined> {
+    if (/\.zip$/i.test(url)) {
+      // Only the central directory at the end is requested, members when they are probed
+      return this.probeResource(url, response => this.inferZipSchema(url, response), `bytes=-${ZIP_TAIL_BYTES}`);
+    }
+    return this.probeResource(url, response => this.infer7zSchema(url, response));
+  }
+
+  async inferZipSchema(url: string, response: Response): Promise<SchemaInfo | undefined> {
+    const total = response.headers.get('Content-Range')?.match(/\/(\d+)$/)?.[1];
+    if (response.status === 206 && total !== undefined) {
+      const zip: RemoteZip = {
+        size: Number(total),
+        tail: Buffer.from(await response.arrayBuffer()),
+        fetchRange: async (start, end) => {
+          const rangeResponse = await this.fetch(url, { headers: { Range: `bytes=${start}-${end - 1}` } });
+          if (rangeResponse.status !== 206 || !rangeResponse.body) {
+            await rangeResponse.body?.cancel();
+            throw new Error(`Range request to ${url} returned ${rangeResponse.status} - ${rangeResponse.statusText}`);
+          }
+          return Readable.fromWeb(rangeResponse.body as NodeReadableStream<Uint8Array>);
+        },
+      };
+      return this.describeZip(url, zip, zip.size);
+    }
+
+    // The server ignored the Range header
+    const { bytes, truncated } = await readSample(response, this.archiveMaxBytes);
+    if (truncated) {
+      console.warn(`Archive ${url} is larger than ${this.archiveMaxBytes} bytes and the server does not support Range requests, skipped`);
+      return undefined;
+    }
+    return this.describeZip(url, Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length), bytes.length);
+  }
+
+  private async describeZip(url: string, source: Buffer | RemoteZip, size: number): Promise<SchemaInfo> {
+    const zip = await readZipEntries(source);
+    try {
+      return await this.describeArchive(url, "zip", size, zip.entries);
+    } finally {
+      zip.close();
+    }
+  }
+
+  async infer7zSchema(url: string, response: Response): Promise<SchemaInfo | undefined> {
+    // 7z has no central directory that could be read remotely, the archive is downloaded for 7za
+    const { bytes, truncated } = await readSample(response, this.archiveMaxBytes);
+    if (truncated) {
+      console.warn(`Archive ${url} is larger than ${this.archiveMaxBytes} bytes, skipped`);
+      return undefined;
+    }
+
+    const directory = await mkdtemp(join(tmpdir(), 'ckan-7z-'));
+    try {
+      const file = join(directory, 'archive.7z');
+      await writeFile(file, bytes);
+      return await this.describeArchive(url, "7z", bytes.length, await read7zEntries(file));
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * The definition of an archive lists its members, with the schema of the first `archiveMaxMembers` supported ones.
+   */
+  private async describeArchive(url: string, format: string, size: number, entries: ArchiveEntry[]): Promise<SchemaInfo> {
+    let probed = 0;
+    const members = [];
+    for (const entry of entries.slice(0, CkanEntityProvider.MAX_LISTED_ARCHIVE_MEMBERS)) {
+      let schema: Omit<SchemaInfo, "definition"> & { definition: unknown } | undefined;
+      if (CkanEntityProvider.ARCHIVE_MEMBER_TYPES.has(entry.type) && probed < this.archiveMaxMembers) {
+        probed++;
+        try {
+          const memberSchema = await this.inferArchiveMemberSchema(`${url}#${entry.name}`, entry);
+          schema = memberSchema && {
+            ...memberSchema,
+            // JSON definitions are nested as they are, instead of as escaped strings
+            definition: memberSchema.type === "avro" || memberSchema.type === "json-schema"
+              ? JSON.parse(memberSchema.definition)
+              : memberSchema.definition,
+          };
+        } catch (reason) {
+          console.warn(`Archive member ${entry.name} of ${url} failed`, reason);
+          schema = { type: "error", definition: `${reason}` };
+        }
+      }
+      members.push({
+        name: entry.name,
+        type: entry.type,
+        size: entry.size,
+        compressedSize: entry.compressedSize,
+        schema,
+      });
+    }
+
+    return {
+      type: "archive",
+      definition: JSON.stringify({
+        format: format,
+        size: size,
+        memberCount: entries.length,
+        members: members,
+      }, null, 2),
+    };
+  }
+
+  private async inferArchiveMemberSchema(memberUrl: string, entry: ArchiveEntry): Promise<SchemaInfo | undefined> {
+    if (entry.type === "geojson") {
+      return this.tryGeoJsonSchema();
+    }
+
+    const response = new Response(Readable.toWeb(await entry.open()) as ReadableStream<Uint8Array>, { status: 200 });
+    switch (entry.type) {
+      case "csv":
+        return this.inferCsvSchema(memberUrl, response);
+      case "json":
+        return this.inferJsonSchema(memberUrl, response);
+      case "xml":
+        return this.inferXmlSchema(memberUrl, response);
+      default:
+        return this.inferSpreadsheetSchema(memberUrl, response);
+    }
+  }
+
+  async tryResourceJsonUrl(url: string): Promise<SchemaInfo | undefined> {
+    return this.probeResource(url, response => this.inferJsonSchema(url, response));
+  }
+
+  async inferJsonSchema(url: string, response: Response): Promise<SchemaInfo | undefined> {
+    if (!response.body) {
+      return undefined;
+    }
+    const { schema, hasBom, charset, truncated } = await inferJsonSchema(readChunks(response.body), {
+      maxBytes: this.jsonMaxBytes,
+      maxArrayItems: this.jsonSampleItems,
+    });
+    if (truncated) {
+      console.warn(`JSON resource ${url} is larger than ${this.jsonMaxBytes} bytes, the schema is inferred from its beginning`);
+    }
+    return {
+      type: "json-schema",
+      definition: JSON.stringify(schema, null, 2),
+      hasBom: hasBom,
+      charset: charset,
+    };
+  }
+
+
+  private probeResource(
+    url: string,
+    infer: (response: Response) => Promise<SchemaInfo | undefined>,
+    range?: string,
+  ): Promise<SchemaInfo | undefined> {
+    return this.pqueue.add(() => this.httpCache.probe(
+      url,
+      headers => this.fetch(url, { headers: range ? { ...headers, Range: range } : headers }),
+      infer,
+    ));
+  }
+
+  private static readonly PACKAGE_TYPES = new Set(["dataset", "showcase", "harvest"]);
+
+  private static readonly GEOJSON_SCHEMA = "https://geojson.org/schema/GeoJSON.json";
+
+  private static readonly ARCHIVE_MEMBER_TYPES = new Set(["csv", "json", "xml", "geojson", "xlsx", "xlsm", "xls", "ods"]);
+
+  private static readonly MAX_LISTED_ARCHIVE_MEMBERS = 1000;
+
+  private static readonly TYPE_MAPPING = new Map<string, { avro: string }>([
+    ["number", { avro: "double" }],
+    ["text", { avro: "string" }],
+    ["date", { avro: "string" }],
+  ]);
+
+  async tryDatastoreInfo(resourceId: string): Promise<SchemaInfo | undefined> {
+    const response = await this.pqueue.add(
+      () => this.fetch(this.API_INFO, {
+        method: "POST",
+        body: JSON.stringify({ id: resourceId }),
+        headers: { 'Content-Type': 'application/json;charset=utf-8' },
+      })
+    );
+    if (response.status !== 200) {
+      const responseText = await response.text();
+      if (response.status !== 404) {
+        console.error(`Resource id: ${resourceId} returned ${response.status} - ${response.statusText}`);
+        console.error(`${responseText}`);
+      }
+      return undefined;
+    }
+    const responseData = await response.json();
+    if (responseData.success === false) {
+      console.error(`Resource id: ${resourceId} returned ${responseData}`);
+      return undefined;
+    }
+    const schema = responseData.result.schema;
+    const avroSchema = {
+      "type": "record",
+      "name": "Row",
+      // Not the Avro namespace, a dotted name cannot hold the dashes of a resource id
+      "resource_id": resourceId,
+      "fields": Object.entries(schema).map(([key, value]) => {
+        return {
+          name: key,
+          type: CkanEntityProvider.TYPE_MAPPING.get(value as string)?.avro ?? (function () {
+            console.error(`TYPE: ${value} from ${resourceId}`);
+            return "string";
+          })(),
+        };
+      })
+    }
+    return {
+      type: "avro",
+      definition: JSON.stringify(avroSchema, null, 2),
+    };
+  }
+
+  /**
+   * A showcase (ckanext-showcase) is an application or visualisation built on datasets, it depends on them.
+   */
+  async createShowcase(dataset: Dataset): Promise<ResourceEntity> {
+    const data = dataset.result;
+    const datasetNames = await this.getShowcaseDatasetNames(data.name);
+    const links = [{
+      url: `${this.baseUrl}/showcase/${encodeURIComponent(data.name)}`,
+      title: `Link to ${this.title}`,
+    }];
+    if (data.url) {
+      links.push({
+        url: data.url,
+        title: "Link to the showcase",
+      });
+    }
+
+    return {
+      apiVersion: 'backstage.io/v1beta1',
+      kind: 'Resource',
+      metadata: {
+        name: ckanEntityName(data.name),
+        namespace: this.namespace,
+        title: data.title,
+        description: data.notes,
+        tags: [...new Set<string>((data.tags ?? []).map((tag: { name: string; }) => tag.name.toLowerCase()))],
+        annotations: {
+          ...this.annotations(data.name),
+          ...this.ckanAnnotations(data),
+          [ANNOTATION_VIEW_URL]: `url:${links[0].url}`,
+        },
+        links: links,
+      },
+      spec: {
+        type: "showcase",
+        owner: this.packageOwner(dataset),
+        dependsOn: datasetNames.map(name => stringifyEntityRef({ kind: 'Dataset', namespace: this.namespace, name: ckanEntityName(name) })),
+      },
+    };
+  }
+
+  /**
+   * A harvest source (ckanext-harvest) is a system of the datasets harvested from it,
+   * they point to it with `spec.system`.
+   */
+  createHarvestSource(dataset: Dataset): SystemEntity {
+    const data = dataset.result;
+    const viewUrl = `${this.baseUrl}/harvest/${encodeURIComponent(data.name)}`;
+    const links = [{
+      url: viewUrl,
+      title: `Link to ${this.title}`,
+    }];
+    if (data.url) {
+      links.push({
+        url: data.url,
+        title: "Link to the harvested source",
+      });
+    }
+
+    return {
+      apiVersion: 'backstage.io/v1beta1',
+      kind: 'System',
+      metadata: {
+        name: ckanEntityName(data.name),
+        namespace: this.namespace,
+        title: data.title,
+        description: data.notes,
+        labels: {
+          source_type: data.source_type ?? "",
+          frequency: data.frequency,
+        },
+        annotations: {
+          ...this.annotations(data.name),
+          ...this.ckanAnnotations(data),
+          [ANNOTATION_VIEW_URL]: `url:${viewUrl}`,
+        },
+        links: links,
+      },
+      spec: {
+        owner: this.packageOwner(dataset),
+      },
+    };
+  }
+
+  /**
+   * The name of the harvest source of a harvested dataset, from the `harvest_source_id` extra,
+   * looked up once per run.
+   */
+  async harvestSourceName(dataset: Dataset): Promise<string | undefined> {
+    const sourceId = dataset.result.extras?.find(extra => extra.key === "harvest_source_id")?.value;
+    if (!sourceId) {
+      return undefined;
+    }
+    if (!this.harvestSources.has(sourceId)) {
+      this.harvestSources.set(sourceId, this.fetchDataset(sourceId)
+        .then(source => ckanEntityName(source.result.name))
+        .catch(reason => {
+          console.warn(`Harvest source ${sourceId} failed`, reason);
+          return undefined;
+        }));
+    }
+    return this.harvestSources.get(sourceId);
+  }
+
+  async getShowcaseDatasetNames(showcase: string): Promise<string[]> {
+    const response = await this.pqueue.add(
+      () => this.fetch(`${this.API_SHOWCASE_DATASETS}?showcase_id=${encodeURIComponent(showcase)}`)
+    );
+    if (response.status !== 200) {
+      console.warn(`Showcase ${showcase} datasets returned ${response.status} - ${response.statusText}`);
+      await response.body?.cancel();
+      return [];
+    }
+    const data = await response.json();
+    return data.result.map((dataset: { name: string }) => dataset.name);
+  }
+
+  createDataset(dataset: Dataset, system?: string): DatasetEntityV1alpha1 {
+    const data = dataset.result;
+    return {
+      apiVersion: DATASET_API_VERSION,
+      kind: 'Dataset',
+      metadata: {
+        name: ckanEntityName(data.name),
+        namespace: this.namespace,
+        title: data.title,
+        description: data.notes,
+        labels: {
+          license_title: data.license_title,
+          license_id: data.license_id,
+          license_url: data.license_url,
+          maintainer: data.maintainer,
+          frequency: data.frequency,
+        },
+        tags: [...new Set<string>(data.tags.map((tag: { name: string; }) => tag.name.toLowerCase()))],
+        annotations: {
+          ...this.annotations(data.name),
+          ...this.ckanAnnotations(data),
+          ...this.modifiedAnnotations(dataset),
+          [ANNOTATION_VIEW_URL]: `url:${this.datasetViewUrl(data.name)}`,
+        },
+        links: [{
+          url: this.datasetViewUrl(data.name),
+          title: `Link to ${this.title}`,
+        }],
+      },
+      spec: {
+        owner: this.ownerName(data.organization),
+        lifecycle: data.state === "active" ? "production" : "experimental",
+        system: system,
+        groups: data.groups?.length ? data.groups.map(group => this.ownerName(group)) : undefined,
+      },
+    };
+  }
+
+  /**
+   * The organizations and thematic groups of the portal, each emitted once. The portal is their root,
+   * with ckanext-hierarchy an organization is a member of its parent organization.
+   */
+  async createGroups(): Promise<GroupEntity[]> {
+    const [organizations, groups] = await Promise.all([
+      this.listGroups(this.API_ORGANIZATION_LIST),
+      this.listGroups(this.API_GROUP_LIST),
+    ]);
+    const all = [...organizations, ...groups];
+    const byName = new Map(all.map(group => [group.name, group]));
+    const parents = new Map(all.map(group => [
+      group.name,
+      (group.groups ?? [])
+        .map(parent => byName.get(parent.name))
+        .find(parent => parent && parent.name !== group.name && parent.is_organization === group.is_organization)
+        ?.name,
+    ]));
+    const children = (name: string | undefined) => all
+      .filter(group => parents.get(group.name) === name)
+      .map(group => this.ownerName(group));
+
+    return [
+      this.createPortalGroup(children(undefined)),
+      ...all.map(group => this.createGroup(group, this.ownerName({ name: parents.get(group.name) ?? this.portalName() }), children(group.name))),
+    ];
+  }
+
+  /**
+   * Pages through `organization_list` or `group_list`, with `all_fields` CKAN returns at most
+   * `ckan.group_and_organization_list_all_fields_max` (25 by default) of them at a time.
+   */
+  async listGroups(api: string): Promise<CkanGroup[]> {
+    const limit = 25;
+    const groups: CkanGroup[] = [];
+    for (let offset = 0; ; offset += limit) {
+      const params = new URLSearchParams({
+        all_fields: "true",
+        include_groups: "true",
+        include_member_count: "true",
+        limit: `${limit}`,
+        offset: `${offset}`,
+      });
+      const response = await this.pqueue.add(() => this.fetch(`${api}?${params}`));
+      if (response.status !== 200) {
+        throw new Error(`${api} returned ${response.status} - ${response.statusText}`);
+      }
+      const data = await response.json();
+      groups.push(...data.result);
+      if (data.result.length < limit) {
+        return groups;
+      }
+    }
+  }
+
+  createGroup(group: CkanGroup, parent: string, children: string[]): GroupEntity {
+    const viewUrl = `${this.baseUrl}/${group.is_organization ? "organization" : "group"}/${encodeURIComponent(group.name)}`;
+    const labels: Record<string, string> = {};
+    if (group.package_count !== undefined) {
+      labels.package_count = `${group.package_count}`;
+    }
+    if (group.member_count !== undefined) {
+      labels.member_count = `${group.member_count}`;
+    }
+    return {
+      apiVersion: 'backstage.io/v1beta1',
+      kind: 'Group',
+      metadata: {
+        name: this.ownerName(group),
+        namespace: this.namespace,
+        title: group.title,
+        description: group.description,
+        labels: labels,
+        annotations: {
+          ...this.annotations(group.name, group.is_organization ? this.API_ORGANIZATION_SHOW : this.API_GROUP_SHOW),
+          ...this.ckanAnnotations(group),
+          [ANNOTATION_VIEW_URL]: `url:${viewUrl}`,
+        },
+        links: [{
+          url: viewUrl,
+          title: `Link to ${this.title}`,
+        }],
+      },
+      spec: {
+        type: group.is_organization ? "organization" : "group",
+        profile: {
+          displayName: group.title,
+          picture: this.organizationPicture(group),
+        },
+        parent: parent,
+        children: children,
+      },
+    };
+  }
+
+  /**
+   * The portal itself, the root of the organizations and groups and the owner of packages without an organization.
+   */
+  createPortalGroup(children: string[]): GroupEntity {
+    return {
+      apiVersion: 'backstage.io/v1beta1',
+      kind: 'Group',
+      metadata: {
+        name: this.ownerName({ name: this.portalName() }),
+        namespace: this.namespace,
+        title: this.title,
+        annotations: {
+          [ANNOTATION_LOCATION]: `url:${this.API_ORGANIZATION_LIST}`,
+          [ANNOTATION_ORIGIN_LOCATION]: `url:${this.API_ORGANIZATION_LIST}`,
+          [ANNOTATION_VIEW_URL]: `url:${this.baseUrl}`,
+        },
+        links: [{
+          url: this.baseUrl,
+          title: `Link to ${this.title}`,
+        }],
+      },
+      spec: {
+        type: "portal",
+        profile: {
+          displayName: this.title,
+        },
+        children: children,
+      },
+    };
+  }
+
+  /**
+   * The `package_show` of a dataset, a failed request throws.
+   */
+  async fetchDataset(name: string): Promise<Dataset> {
+    const response: CkanResponse<Dataset['result']> = await this.pqueue.add(
+      () => this.fetch(`${this.API_SHOW}?id=${encodeURIComponent(name)}`)
+        .then(result => result.json())
+    );
+    if (!response.success) {
+      throw new Error(`Dataset ${name} returned ${response.error.__type}: ${response.error.message ?? ""}`);
+    }
+    return { result: response.result };
+  }
+
+  /**
+   * Pages through `package_search` for datasets modified at or after the cursor, oldest first.
+   */
+  async searchModifiedDatasets(cursor: string): Promise<Dataset[]> {
+    const rows = 1000;
+    // Without a dataset_type filter CKAN only searches type dataset
+    const query = `metadata_modified:[${new Date(cursor).toISOString()} TO *] +dataset_type:(${[...CkanEntityProvider.PACKAGE_TYPES].join(" OR ")})`;
+    const datasets: Dataset[] = [];
+    for (let start = 0; ; start += rows) {
+      const params = new URLSearchParams({
+        fq: query,
+        sort: "metadata_modified asc",
+        rows: `${rows}`,
+        start: `${start}`,
+      });
+      const response = await this.pqueue.add(() => this.fetch(`${this.API_SEARCH}?${params}`));
+      if (response.status !== 200) {
+        throw new Error(`Search ${query} returned ${response.status} - ${response.statusText}`);
+      }
+      const data = await response.json();
+      datasets.push(...data.result.results.map((result: Dataset['result']) => ({ result })));
+      if (data.result.results.length < rows || datasets.length >= data.result.count) {
+        return datasets;
+      }
+    }
+  }
+
+  async getDatasetNames(): Promise<string[]> {
+    const response = await this.fetch(this.API_LIST);
+    const data = await response.json();
+    return data.result;
+  }
+
+  /**
+   * CKAN `metadata_modified` is UTC without a zone designator, the cursor is kept as ISO 8601.
+   */
+  latestModified(datasets: Dataset[]): string | undefined {
+    const latest = Math.max(...datasets
+      .map(dataset => Date.parse(`${dataset.result.metadata_modified}Z`))
+      .filter(time => !Number.isNaN(time)));
+    return Number.isFinite(latest) ? new Date(latest).toISOString() : undefined;
+  }
+
+  /**
+   * When the metadata and the data of a dataset last changed, the freshness is judged by them.
+   * Resources without `last_modified` count from their creation.
+   */
+  modifiedAnnotations(dataset: Dataset): Record<string, string> {
+    const annotations: Record<string, string> = {};
+    const metadataModified = Date.parse(`${dataset.result.metadata_modified}Z`);
+    if (!Number.isNaN(metadataModified)) {
+      annotations[ANNOTATION_METADATA_MODIFIED] = new Date(metadataModified).toISOString();
+    }
+    const dataModified = Math.max(...dataset.result.resources
+      .map(resource => Date.parse(`${resource.last_modified ?? resource.created}Z`))
+      .filter(time => !Number.isNaN(time)));
+    if (Number.isFinite(dataModified)) {
+      annotations[ANNOTATION_DATA_MODIFIED] = new Date(dataModified).toISOString();
+    }
+    return annotations;
+  }
+
+  toEntityRefs(datasetEntities: Map<string, Entity[]>): Map<string, string[]> {
+    return new Map([...datasetEntities].map(([name, entities]) => [
+      name,
+      entities.map(entity => stringifyEntityRef(entity)),
+    ]));
+  }
+
+  locationKey(): string {
+    return `${this.getProviderName()}:${this.env}`;
+  }
+
+  datasetViewUrl(name: string): string {
+    return this.viewUrl.replace("{name}", encodeURIComponent(name));
+  }
+
+  /**
+   * The absolute URL of a resource. CKAN keeps the URL as it was entered, so it may be
+   * relative to the portal or lack the scheme, e.g. `www.example.lv/dati.csv`.
+   */
+  resourceUrl(url: string): string {
+    const trimmed = url.trim();
+    if (trimmed === "" || /^[A-Za-z][A-Za-z0-9+.-]*:/.test(trimmed)) {
+      return trimmed;
+    } else if (trimmed.startsWith("//")) {
+      return `https:${trimmed}`;
+    } else if (/^(www\.[^/?#]+|[^/?#]+\.[A-Za-z]{2,}(:\d+)?[/?#])/.test(trimmed)) {
+      return `https://${trimmed}`;
+    }
+    return new URL(trimmed, `${this.baseUrl}/`).href;
+  }
+
+  ownerName(org: { name: string }): string {
+    return ckanEntityName(`${this.ownerPrefix}${org.name}`);
+  }
+
+  /** Showcases do not always belong to an organization, the portal owns them then */
+  packageOwner(dataset: Dataset): string {
+    return this.ownerName(dataset.result.organization ?? { name: this.portalName() });
+  }
+
+  portalName(): string {
+    return new URL(this.baseUrl).hostname;
+  }
+
+  organizationPicture(org: { image_url?: string }): string | undefined {
+    if (!org.image_url) {
+      return undefined;
+    } else if (/^https?:\/\//.test(org.image_url)) {
+      return org.image_url;
+    }
+    return this.organizationImageUrl?.replace("{image}", org.image_url);
+  }
+
+  private fetch(url: string, init?: RequestInit): Promise<Response> {
+    return fetch(url, { ...init, signal: AbortSignal.timeout(this.timeout) });
+  }
+
+  /**
+   * The CKAN id and name, entity names are derived from them and the old names are looked up by them.
+   */
+  ckanAnnotations(ckan: { id: string; name: string }) {
+    return {
+      [ANNOTATION_CKAN_ID]: ckan.id,
+      [ANNOTATION_CKAN_NAME]: ckan.name,
+    }
+  }
+
+  annotations(id: string, api: string = this.API_SHOW) {
+    return {
+      [ANNOTATION_LOCATION]: `url:${api}?id=${id}`,
+      [ANNOTATION_ORIGIN_LOCATION]: `url:${api}?id=${id}`,
+    }
+  }
+}
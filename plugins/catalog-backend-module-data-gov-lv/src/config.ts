@@ -0,0 +1,212 @@
+import {
+  readTaskScheduleDefinitionFromConfig,
+  TaskScheduleDefinition,
+} from '@backstage/backend-tasks';
+import { Config, readDurationFromConfig } from '@backstage/config';
+import { HumanDuration } from '@backstage/types';
+
+export type CkanProviderConfig = {
+  id: string;
+  env: string;
+  baseUrl: string;
+  title: string;
+  viewUrl: string;
+  organizationImageUrl?: string;
+  namespace: string;
+  ownerPrefix: string;
+  concurrency: number;
+  timeout: HumanDuration;
+  schedule: TaskScheduleDefinition;
+  incremental: boolean;
+  fullSyncFrequency: HumanDuration;
+  sampleRows: number;
+  sampleBytes: number;
+  jsonMaxBytes: number;
+  jsonSampleItems: number;
+  spreadsheetMaxBytes: number;
+  archiveMaxBytes: number;
+  archiveMaxMembers: number;
+};
+
+export type LinkCheckerConfig = {
+  concurrency: number;
+  timeout: HumanDuration;
+  schedule: TaskScheduleDefinition;
+  historyAge: HumanDuration;
+};
+
+export type DcatConfig = {
+  title: string;
+  description: string;
+  publisher: string;
+  homepage: string;
+  language: string;
+  namespaces: string[];
+  servicesNamespace: string;
+  pageSize: number;
+};
+
+export type CkanProviderDefaults = Partial<Omit<CkanProviderConfig, 'id'>>;
+
+/** The options of a CKAN provider that are counts or sizes */
+type CkanProviderLimit =
+  | 'concurrency'
+  | 'sampleRows'
+  | 'sampleBytes'
+  | 'jsonMaxBytes'
+  | 'jsonSampleItems'
+  | 'spreadsheetMaxBytes'
+  | 'archiveMaxBytes'
+  | 'archiveMaxMembers';
+
+const DEFAULT_ENV = 'production';
+const DEFAULT_NAMESPACE = 'default';
+const DEFAULT_CONCURRENCY = 10;
+const DEFAULT_TIMEOUT: HumanDuration = { minutes: 5 };
+const DEFAULT_FULL_SYNC_FREQUENCY: HumanDuration = { days: 1 };
+const DEFAULT_SAMPLE_ROWS = 100;
+const DEFAULT_SAMPLE_BYTES = 1024 * 1024;
+const DEFAULT_JSON_MAX_BYTES = 16 * 1024 * 1024;
+const DEFAULT_JSON_SAMPLE_ITEMS = 100;
+const DEFAULT_SPREADSHEET_MAX_BYTES = 32 * 1024 * 1024;
+const DEFAULT_ARCHIVE_MAX_BYTES = 64 * 1024 * 1024;
+const DEFAULT_ARCHIVE_MAX_MEMBERS = 20;
+const DEFAULT_SCHEDULE: TaskScheduleDefinition = {
+  frequency: { minutes: 300 },
+  timeout: { minutes: 200 },
+};
+const DEFAULT_LINK_CHECKER_TIMEOUT: HumanDuration = { seconds: 30 };
+const DEFAULT_LINK_CHECKER_HISTORY_AGE: HumanDuration = { days: 90 };
+const DEFAULT_LINK_CHECKER_SCHEDULE: TaskScheduleDefinition = {
+  frequency: { hours: 24 },
+  timeout: { hours: 6 },
+};
+
+const DEFAULT_DCAT: DcatConfig = {
+  title: 'data.gov.lv',
+  description: 'Latvijas Atvērto datu portāla datu kopas un valsts pārvaldes API',
+  publisher: 'Valsts digitālās attīstības aģentūra',
+  homepage: 'https://data.gov.lv',
+  language: 'lv',
+  namespaces: ['data-gov-lv'],
+  servicesNamespace: 'viss-gov-lv',
+  pageSize: 100,
+};
+
+/**
+ * Reads all CKAN provider instances under the given key, e.g. `catalog.providers.ckan`.
+ * The `defaults` fill in whatever the instance config leaves out.
+ */
+export function readCkanProviderConfigs(
+  config: Config,
+  key: string,
+  defaults: CkanProviderDefaults = {},
+): CkanProviderConfig[] {
+  const providersConfig = config.getOptionalConfig(key);
+  if (!providersConfig) {
+    return [];
+  }
+
+  return providersConfig
+    .keys()
+    .map(id => readCkanProviderConfig(id, providersConfig.getConfig(id), defaults));
+}
+
+function readCkanProviderConfig(
+  id: string,
+  config: Config,
+  defaults: CkanProviderDefaults,
+): CkanProviderConfig {
+  const baseUrl = (config.getOptionalString('baseUrl') ?? defaults.baseUrl)?.replace(/\/+$/, '');
+  if (!baseUrl) {
+    throw new Error(`Missing baseUrl for CKAN provider ${id}`);
+  }
+
+  const readLimit = (key: CkanProviderLimit, fallback: number): number => {
+    const value = config.getOptionalNumber(key) ?? defaults[key] ?? fallback;
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid ${key} ${value} for CKAN provider ${id}, expected a positive integer`);
+    }
+    return value;
+  };
+
+  const viewUrl = config.getOptionalString('viewUrl') ?? defaults.viewUrl ?? `${baseUrl}/dataset/{name}`;
+  if (!viewUrl.includes('{name}')) {
+    throw new Error(`Invalid viewUrl ${viewUrl} for CKAN provider ${id}, expected a {name} placeholder`);
+  }
+
+  return {
+    id,
+    env: config.getOptionalString('env') ?? defaults.env ?? DEFAULT_ENV,
+    baseUrl,
+    title: config.getOptionalString('title') ?? defaults.title ?? new URL(baseUrl).hostname,
+    viewUrl,
+    organizationImageUrl: config.getOptionalString('organizationImageUrl') ?? defaults.organizationImageUrl,
+    namespace: config.getOptionalString('namespace') ?? defaults.namespace ?? DEFAULT_NAMESPACE,
+    ownerPrefix: config.getOptionalString('ownerPrefix') ?? defaults.ownerPrefix ?? '',
+    concurrency: readLimit('concurrency', DEFAULT_CONCURRENCY),
+    timeout: config.has('timeout')
+      ? readDurationFromConfig(config, { key: 'timeout' })
+      : defaults.timeout ?? DEFAULT_TIMEOUT,
+    schedule: config.has('schedule')
+      ? readTaskScheduleDefinitionFromConfig(config.getConfig('schedule'))
+      : defaults.schedule ?? DEFAULT_SCHEDULE,
+    incremental: config.getOptionalBoolean('incremental') ?? defaults.incremental ?? true,
+    fullSyncFrequency: config.has('fullSyncFrequency')
+      ? readDurationFromConfig(config, { key: 'fullSyncFrequency' })
+      : defaults.fullSyncFrequency ?? DEFAULT_FULL_SYNC_FREQUENCY,
+    sampleRows: readLimit('sampleRows', DEFAULT_SAMPLE_ROWS),
+    sampleBytes: readLimit('sampleBytes', DEFAULT_SAMPLE_BYTES),
+    jsonMaxBytes: readLimit('jsonMaxBytes', DEFAULT_JSON_MAX_BYTES),
+    jsonSampleItems: readLimit('jsonSampleItems', DEFAULT_JSON_SAMPLE_ITEMS),
+    spreadsheetMaxBytes: readLimit('spreadsheetMaxBytes', DEFAULT_SPREADSHEET_MAX_BYTES),
+    archiveMaxBytes: readLimit('archiveMaxBytes', DEFAULT_ARCHIVE_MAX_BYTES),
+    archiveMaxMembers: readLimit('archiveMaxMembers', DEFAULT_ARCHIVE_MAX_MEMBERS),
+  };
+}
+
+/**
+ * Reads the link checker config at `catalog.linkChecker`, all of it is optional.
+ */
+export function readLinkCheckerConfig(config: Config): LinkCheckerConfig {
+  const checkerConfig = config.getOptionalConfig('catalog.linkChecker');
+  const concurrency = checkerConfig?.getOptionalNumber('concurrency') ?? DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency ${concurrency} for the link checker, expected a positive integer`);
+  }
+
+  return {
+    concurrency,
+    timeout: checkerConfig?.has('timeout')
+      ? readDurationFromConfig(checkerConfig, { key: 'timeout' })
+      : DEFAULT_LINK_CHECKER_TIMEOUT,
+    schedule: checkerConfig?.has('schedule')
+      ? readTaskScheduleDefinitionFromConfig(checkerConfig.getConfig('schedule'))
+      : DEFAULT_LINK_CHECKER_SCHEDULE,
+    historyAge: checkerConfig?.has('historyAge')
+      ? readDurationFromConfig(checkerConfig, { key: 'historyAge' })
+      : DEFAULT_LINK_CHECKER_HISTORY_AGE,
+  };
+}
+
+/**
+ * Reads the DCAT-AP export config at `catalog.dcat`, all of it is optional.
+ */
+export function readDcatConfig(config: Config): DcatConfig {
+  const dcatConfig = config.getOptionalConfig('catalog.dcat');
+  const pageSize = dcatConfig?.getOptionalNumber('pageSize') ?? DEFAULT_DCAT.pageSize;
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new Error(`Invalid pageSize ${pageSize} for the DCAT-AP export, expected a positive integer`);
+  }
+
+  return {
+    title: dcatConfig?.getOptionalString('title') ?? DEFAULT_DCAT.title,
+    description: dcatConfig?.getOptionalString('description') ?? DEFAULT_DCAT.description,
+    publisher: dcatConfig?.getOptionalString('publisher') ?? DEFAULT_DCAT.publisher,
+    homepage: dcatConfig?.getOptionalString('homepage') ?? DEFAULT_DCAT.homepage,
+    language: dcatConfig?.getOptionalString('language') ?? DEFAULT_DCAT.language,
+    namespaces: dcatConfig?.getOptionalStringArray('namespaces') ?? DEFAULT_DCAT.namespaces,
+    servicesNamespace: dcatConfig?.getOptionalString('servicesNamespace') ?? DEFAULT_DCAT.servicesNamespace,
+    pageSize,
+  };
+}
@@ -0,0 +1,213 @@
+import { Entity } from '@backstage/catalog-model';
+import { ANNOTATION_FRESHNESS, ANNOTATION_METADATA_MODIFIED } from '../freshness';
+import { DatasetEntityV1alpha1, DistributionEntityV1alpha1 } from '../kinds';
+import { ENDPOINT_LINK_TYPE } from '../links';
+import { ANNOTATION_CKAN_ID } from '../names';
+import { ANNOTATION_QUALITY_SCORE } from '../quality';
+import { addDataService, addDataset, addPage, entityIri, frequencyIri } from './dcat';
+import { Graph } from './graph';
+
+const options = {
+  appBaseUrl: 'https://katalogs.example.lv',
+  routesBaseUrl: 'https://katalogs.example.lv/api/data-gov-lv',
+  language: 'lv',
+};
+
+const FREQUENCY = 'http://publications.europa.eu/resource/authority/frequency/';
+
+const dataset: DatasetEntityV1alpha1 = {
+  apiVersion: 'data.gov.lv/v1alpha1',
+  kind: 'Dataset',
+  metadata: {
+    name: 'adreses',
+    namespace: 'data-gov-lv',
+    title: 'Adreses',
+    description: 'Valsts adrešu reģistra informācija',
+    labels: { frequency: 'daily', maintainer: 'VZD', license_url: 'https://creativecommons.org/licenses/by/4.0/' },
+    annotations: {
+      [ANNOTATION_CKAN_ID]: '0a1b2c',
+      [ANNOTATION_METADATA_MODIFIED]: '2024-02-20T10:00:00',
+      [ANNOTATION_QUALITY_SCORE]: '93',
+      [ANNOTATION_FRESHNESS]: 'fresh',
+    },
+    tags: ['adreses', 'vzd'],
+    links: [{ url: 'https://data.gov.lv/dati/lv/dataset/adreses' }],
+  },
+  spec: { owner: 'group:data-gov-lv/vzd', lifecycle: 'production' },
+  relations: [{ type: 'ownedBy', targetRef: 'group:data-gov-lv/vzd' }],
+};
+
+const distribution: DistributionEntityV1alpha1 = {
+  apiVersion: 'data.gov.lv/v1alpha1',
+  kind: 'Distribution',
+  metadata: { name: 'adreses-aw-csv-zip', namespace: 'data-gov-lv', title: 'aw_csv.zip' },
+  spec: {
+    type: 'avro',
+    lifecycle: 'production',
+    owner: 'group:data-gov-lv/vzd',
+    dataset: 'dataset:data-gov-lv/adreses',
+    url: 'https://data.gov.lv/dati/dataset/adreses/resource/aw_csv.zip',
+    format: 'zip',
+    charset: 'utf-8-sig',
+    definition: '{}',
+  },
+};
+
+const owners = new Map<string, Entity>([[
+  'group:data-gov-lv/vzd',
+  { apiVersion: 'backstage.io/v1alpha1', kind: 'Group', metadata: { name: 'vzd', title: 'Valsts zemes dienests' } },
+]]);
+
+function node(graph: Graph, id: string) {
+  return graph.toJsonLd()['@graph'].find(item => item['@id'] === id);
+}
+
+describe('frequencyIri', () => {
+  it('maps the CKAN frequencies to the EU frequency authority', () => {
+    expect(frequencyIri('daily')).toBe(`${FREQUENCY}DAILY`);
+    expect(frequencyIri(' weekly_2 ')).toBe(`${FREQUENCY}WEEKLY_2`);
+    expect(frequencyIri('Yearly')).toBe(`${FREQUENCY}ANNUAL`);
+    expect(frequencyIri('continuous')).toBe(`${FREQUENCY}CONT`);
+    expect(frequencyIri(`${FREQUENCY}QUARTERLY`)).toBe(`${FREQUENCY}QUARTERLY`);
+  });
+
+  it('has no IRI for unknown and missing frequencies', () => {
+    expect(frequencyIri('katru otrdienu')).toBeUndefined();
+    expect(frequencyIri('')).toBeUndefined();
+    expect(frequencyIri(undefined)).toBeUndefined();
+  });
+});
+
+describe('entityIri', () => {
+  it('is the entity page in the app', () => {
+    expect(entityIri(dataset, options)).toBe('https://katalogs.example.lv/catalog/data-gov-lv/dataset/adreses');
+    expect(entityIri('group:vzd', options)).toBe('https://katalogs.example.lv/catalog/default/group/vzd');
+  });
+});
+
+describe('addDataset', () => {
+  const datasetIri = 'https://katalogs.example.lv/catalog/data-gov-lv/dataset/adreses';
+  const distributionIri = 'https://katalogs.example.lv/catalog/data-gov-lv/distribution/adreses-aw-csv-zip';
+  const publisherIri = 'https://katalogs.example.lv/catalog/data-gov-lv/group/vzd';
+
+  it('describes the dataset', () => {
+    const graph = new Graph();
+    expect(addDataset(graph, dataset, [distribution], owners, options)).toBe(datasetIri);
+    expect(node(graph, datasetIri)).toEqual({
+      '@id': datasetIri,
+      '@type': ['dcat:Dataset'],
+      'dct:identifier': '0a1b2c',
+      'dct:title': { '@value': 'Adreses', '@language': 'lv' },
+      'dct:description': { '@value': 'Valsts adrešu reģistra informācija', '@language': 'lv' },
+      'dct:publisher': { '@id': publisherIri },
+      'dct:modified': { '@value': new Date('2024-02-20T10:00:00').toISOString(), '@type': 'xsd:dateTime' },
+      'dct:accrualPeriodicity': { '@id': `${FREQUENCY}DAILY` },
+      'dcat:landingPage': { '@id': 'https://data.gov.lv/dati/lv/dataset/adreses' },
+      'dcat:keyword': [{ '@value': 'adreses', '@language': 'lv' }, { '@value': 'vzd', '@language': 'lv' }],
+      'dcat:contactPoint': { '@id': '_:contact-adreses' },
+      'dcat:distribution': { '@id': distributionIri },
+      'dqv:hasQualityMeasurement': [{ '@id': '_:quality-score-adreses' }, { '@id': '_:freshness-adreses' }],
+    });
+  });
+
+  it('describes the publisher, the contact point and the quality measurements', () => {
+    const graph = new Graph();
+    addDataset(graph, dataset, [distribution], owners, options);
+    expect(node(graph, publisherIri)).toEqual({
+      '@id': publisherIri,
+      '@type': ['foaf:Agent'],
+      'foaf:name': { '@value': 'Valsts zemes dienests', '@language': 'lv' },
+    });
+    expect(node(graph, '_:contact-adreses')).toEqual({
+      '@id': '_:contact-adreses',
+      '@type': ['vcard:Kind'],
+      'vcard:fn': 'VZD',
+    });
+    expect(node(graph, '_:quality-score-adreses')).toEqual({
+      '@id': '_:quality-score-adreses',
+      '@type': ['dqv:QualityMeasurement'],
+      'dqv:isMeasurementOf': { '@id': 'https://katalogs.example.lv/api/data-gov-lv/dcat#quality-score' },
+      'dqv:value': { '@value': '93', '@type': 'xsd:integer' },
+    });
+  });
+
+  it('describes the distributions', () => {
+    const graph = new Graph();
+    addDataset(graph, dataset, [distribution], owners, options);
+    expect(node(graph, distributionIri)).toEqual({
+      '@id': distributionIri,
+      '@type': ['dcat:Distribution'],
+      'dct:identifier': 'adreses-aw-csv-zip',
+      'dct:title': { '@value': 'aw_csv.zip', '@language': 'lv' },
+      'dcat:accessURL': { '@id': distribution.spec.url },
+      'dcat:downloadURL': { '@id': distribution.spec.url },
+      'dct:format': { '@id': 'http://publications.europa.eu/resource/authority/file-type/ZIP' },
+      'dct:license': { '@id': 'https://creativecommons.org/licenses/by/4.0/' },
+      'cnt:characterEncoding': 'utf-8',
+      'dct:conformsTo': {
+        '@id': 'https://katalogs.example.lv/api/data-gov-lv/distributions/data-gov-lv/adreses-aw-csv-zip/definition?format=avro',
+      },
+    });
+  });
+
+  it('falls back to the names for a dataset with few metadata', () => {
+    const graph = new Graph();
+    const minimal: DatasetEntityV1alpha1 = { ...dataset, metadata: { name: 'adreses' }, relations: [] };
+    const withoutFile = { ...distribution, spec: { ...distribution.spec, type: 'unknown', url: undefined, format: 'CSV (zip)' } };
+    addDataset(graph, minimal, [withoutFile], owners, options);
+    expect(node(graph, 'https://katalogs.example.lv/catalog/default/dataset/adreses')).toEqual({
+      '@id': 'https://katalogs.example.lv/catalog/default/dataset/adreses',
+      '@type': ['dcat:Dataset'],
+      'dct:identifier': 'adreses',
+      'dct:title': { '@value': 'adreses', '@language': 'lv' },
+      'dct:description': { '@value': 'adreses', '@language': 'lv' },
+      'dcat:distribution': { '@id': distributionIri },
+    });
+    expect(node(graph, distributionIri)).toMatchObject({ 'dcat:accessURL': { '@id': distributionIri } });
+    expect(node(graph, distributionIri)).not.toHaveProperty('dct:format');
+    expect(node(graph, distributionIri)).not.toHaveProperty('dct:conformsTo');
+  });
+});
+
+describe('addDataService', () => {
+  it('describes an API with its gateway endpoints', () => {
+    const graph = new Graph();
+    const api: Entity = {
+      apiVersion: 'backstage.io/v1alpha1',
+      kind: 'API',
+      metadata: {
+        name: 'adresu-registrs-v1.0.0',
+        title: 'Adresu reģistrs',
+        links: [
+          { url: 'https://api.viss.gov.lv/adreses/v1', type: ENDPOINT_LINK_TYPE },
+          { url: 'https://vzd.gov.lv', title: 'VZD' },
+        ],
+      },
+      spec: {},
+    };
+    const subject = addDataService(graph, api, owners, options);
+    expect(node(graph, subject)).toEqual({
+      '@id': 'https://katalogs.example.lv/catalog/default/api/adresu-registrs-v1.0.0',
+      '@type': ['dcat:DataService'],
+      'dct:identifier': 'adresu-registrs-v1.0.0',
+      'dct:title': { '@value': 'Adresu reģistrs', '@language': 'lv' },
+      'dcat:endpointDescription': { '@id': subject },
+      'dcat:endpointURL': { '@id': 'https://api.viss.gov.lv/adreses/v1' },
+    });
+  });
+});
+
+describe('addPage', () => {
+  it('describes the links to the other pages', () => {
+    const graph = new Graph();
+    addPage(graph, { iri: 'https://x/dcat?page=2', first: 'https://x/dcat?page=1', last: 'https://x/dcat?page=3', previous: 'https://x/dcat?page=1', totalItems: 250 });
+    expect(node(graph, 'https://x/dcat?page=2')).toEqual({
+      '@id': 'https://x/dcat?page=2',
+      '@type': ['hydra:PartialCollectionView'],
+      'hydra:totalItems': { '@value': '250', '@type': 'xsd:integer' },
+      'hydra:first': { '@id': 'https://x/dcat?page=1' },
+      'hydra:last': { '@id': 'https://x/dcat?page=3' },
+      'hydra:previous': { '@id': 'https://x/dcat?page=1' },
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { Entity, parseEntityRef, RELATION_OWNED_BY } from '@backstage/catalog-model';
+import { DatasetEntityV1alpha1, DistributionEntityV1alpha1 } from '../kinds';
+import { ANNOTATION_CKAN_ID } from '../names';
+import { ANNOTATION_FRESHNESS, ANNOTATION_METADATA_MODIFIED } from '../freshness';
+import { ANNOTATION_QUALITY_SCORE } from '../quality';
+import { ENDPOINT_LINK_TYPE } from '../links';
+import { Graph, iri, literal } from './graph';
+
+/**
+ * DCAT-AP 2/3 descriptions of the datasets, their distributions and the api.viss.gov.lv APIs,
+ * see https://semiceu.github.io/DCAT-AP/releases/3.0.0/
+ */
+
+const FREQUENCY_AUTHORITY = 'http://publications.europa.eu/resource/authority/frequency/';
+const FILE_TYPE_AUTHORITY = 'http://publications.europa.eu/resource/authority/file-type/';
+
+/** Codes of the EU frequency authority table */
+const FREQUENCY_CODES = new Set([
+  'ANNUAL', 'ANNUAL_2', 'ANNUAL_3', 'BIENNIAL', 'BIMONTHLY', 'BIWEEKLY', 'CONT', 'DAILY', 'DAILY_2',
+  'DECENNIAL', 'HOURLY', 'IRREG', 'MONTHLY', 'MONTHLY_2', 'MONTHLY_3', 'NEVER', 'OP_DATPRO', 'OTHER',
+  'QUADRENNIAL', 'QUARTERLY', 'QUINQUENNIAL', 'TRIENNIAL', 'UNKNOWN', 'UPDATE_CONT', 'WEEKLY',
+  'WEEKLY_2', 'WEEKLY_3',
+]);
+
+/** The plain words of the CKAN `frequency` field that are not EU codes */
+const FREQUENCY_WORDS: Record<string, string> = {
+  continuous: 'CONT',
+  realtime: 'UPDATE_CONT',
+  annually: 'ANNUAL',
+  yearly: 'ANNUAL',
+  semiannual: 'ANNUAL_2',
+  irregular: 'IRREG',
+};
+
+/** Avro and JSON Schema definitions can be read from the definition route */
+const CONVERTIBLE_TYPES = new Set(['avro', 'json-schema']);
+
+export type DcatOptions = {
+  /** Base URL of the app, the entity pages are the IRIs of the entities */
+  appBaseUrl: string;
+  /** External base URL of the data-gov-lv routes */
+  routesBaseUrl: string;
+  /** Language tag of the titles, descriptions and keywords */
+  language: string;
+};
+
+export type DcatCatalog = {
+  iri: string;
+  title: string;
+  description: string;
+  publisher: string;
+  homepage: string;
+};
+
+export type DcatPage = {
+  iri: string;
+  first: string;
+  last: string;
+  next?: string;
+  previous?: string;
+  totalItems: number;
+};
+
+export function entityIri(entity: Entity | string, options: DcatOptions): string {
+  const ref = typeof entity === 'string'
+    ? parseEntityRef(entity)
+    : { kind: entity.kind, namespace: entity.metadata.namespace ?? 'default', name: entity.metadata.name };
+  return `${options.appBaseUrl}/catalog/${ref.namespace}/${ref.kind.toLowerCase()}/${ref.name}`;
+}
+
+/**
+ * The EU frequency IRI of the CKAN `frequency` field, either a plain word, a code or the IRI itself.
+ */
+export function frequencyIri(frequency: string | undefined): string | undefined {
+  if (!frequency) {
+    return undefined;
+  } else if (frequency.startsWith(FREQUENCY_AUTHORITY)) {
+    return frequency;
+  }
+  const code = FREQUENCY_WORDS[frequency.trim().toLowerCase()] ?? frequency.trim().toUpperCase();
+  return FREQUENCY_CODES.has(code) ? `${FREQUENCY_AUTHORITY}${code}` : undefined;
+}
+
+function optionalIri(value: string | undefined) {
+  return value ? iri(value) : undefined;
+}
+
+function httpIri(value: string | undefined): string | undefined {
+  return value && /^https?:\/\//.test(value) ? value : undefined;
+}
+
+function dateTime(value: string | undefined) {
+  return value && !Number.isNaN(Date.parse(value))
+    ? literal(new Date(value).toISOString(), { datatype: 'xsd:dateTime' })
+    : undefined;
+}
+
+/**
+ * The owner of an entity as a foaf:Agent, undefined for an entity without an owner.
+ */
+function addPublisher(graph: Graph, entity: Entity, owners: Map<string, Entity>, options: DcatOptions): string | undefined {
+  const ownerRef = entity.relations?.find(relation => relation.type === RELATION_OWNED_BY)?.targetRef;
+  if (!ownerRef) {
+    return undefined;
+  }
+  const publisher = entityIri(ownerRef, options);
+  const owner = owners.get(ownerRef);
+  graph.type(publisher, 'foaf:Agent')
+    .add(publisher, 'foaf:name', literal(owner?.metadata.title ?? parseEntityRef(ownerRef).name, { language: options.language }));
+  return publisher;
+}
+
+function addDistribution(graph: Graph, dataset: DatasetEntityV1alpha1, distribution: DistributionEntityV1alpha1, options: DcatOptions): string {
+  const subject = entityIri(distribution, options);
+  const { metadata, spec } = distribution;
+  const format = spec.format?.trim().toUpperCase();
+  graph.type(subject, 'dcat:Distribution')
+    .add(subject, 'dct:identifier', literal(metadata.annotations?.[ANNOTATION_CKAN_ID] ?? metadata.name))
+    .add(subject, 'dct:title', literal(metadata.title ?? metadata.name, { language: options.language }))
+    .add(subject, 'dct:description', metadata.description ? literal(metadata.description, { language: options.language }) : undefined)
+    // An access URL is mandatory, the entity page is the access for distributions without a file
+    .add(subject, 'dcat:accessURL', iri(httpIri(spec.url) ?? subject))
+    .add(subject, 'dcat:downloadURL', optionalIri(spec.url))
+    .add(subject, 'dct:format', format && /^[A-Z0-9_]+$/.test(format) ? iri(`${FILE_TYPE_AUTHORITY}${format}`) : undefined)
+    .add(subject, 'dct:license', optionalIri(httpIri(dataset.metadata.labels?.license_url)))
+    .add(subject, 'cnt:characterEncoding', spec.charset ? literal(spec.charset === 'utf-8-sig' ? 'utf-8' : spec.charset) : undefined);
+  if (CONVERTIBLE_TYPES.has(spec.type)) {
+    const namespace = metadata.namespace ?? 'default';
+    graph.add(subject, 'dct:conformsTo', iri(`${options.routesBaseUrl}/distributions/${namespace}/${metadata.name}/definition?format=${spec.type}`));
+  }
+  return subject;
+}
+
+/**
+ * A dcat:Dataset with its distributions, publisher, contact point, and the quality score and
+ * freshness of the catalog as DQV quality measurements.
+ */
+export function addDataset(
+  graph: Graph,
+  dataset: DatasetEntityV1alpha1,
+  distributions: DistributionEntityV1alpha1[],
+  owners: Map<string, Entity>,
+  options: DcatOptions,
+): string {
+  const subject = entityIri(dataset, options);
+  const { metadata } = dataset;
+  const labels = metadata.labels ?? {};
+  const annotations = metadata.annotations ?? {};
+
+  graph.type(subject, 'dcat:Dataset')
+    .add(subject, 'dct:identifier', literal(annotations[ANNOTATION_CKAN_ID] ?? metadata.name))
+    .add(subject, 'dct:title', literal(metadata.title ?? metadata.name, { language: options.language }))
+    .add(subject, 'dct:description', literal(metadata.description ?? metadata.title ?? metadata.name, { language: options.language }))
+    .add(subject, 'dct:publisher', optionalIri(addPublisher(graph, dataset, owners, options)))
+    .add(subject, 'dct:modified', dateTime(annotations[ANNOTATION_METADATA_MODIFIED]))
+    .add(subject, 'dct:accrualPeriodicity', optionalIri(frequencyIri(labels.frequency)))
+    .add(subject, 'dcat:landingPage', optionalIri(metadata.links?.[0]?.url));
+  for (const tag of metadata.tags ?? []) {
+    graph.add(subject, 'dcat:keyword', literal(tag, { language: options.language }));
+  }
+
+  if (labels.maintainer) {
+    const contactPoint = `_:contact-${metadata.name}`;
+    graph.add(subject, 'dcat:contactPoint', iri(contactPoint))
+      .type(contactPoint, 'vcard:Kind')
+      .add(contactPoint, 'vcard:fn', literal(labels.maintainer));
+  }
+
+  for (const distribution of distributions) {
+    graph.add(subject, 'dcat:distribution', iri(addDistribution(graph, dataset, distribution, options)));
+  }
+
+  const measurements = [
+    { metric: 'quality-score', value: annotations[ANNOTATION_QUALITY_SCORE], datatype: 'xsd:integer' },
+    { metric: 'freshness', value: annotations[ANNOTATION_FRESHNESS], datatype: 'xsd:string' },
+  ];
+  for (const { metric, value, datatype } of measurements.filter(measurement => measurement.value)) {
+    const measurement = `_:${metric}-${metadata.name}`;
+    graph.add(subject, 'dqv:hasQualityMeasurement', iri(measurement))
+      .type(measurement, 'dqv:QualityMeasurement')
+      .add(measurement, 'dqv:isMeasurementOf', iri(`${options.routesBaseUrl}/dcat#${metric}`))
+      .add(measurement, 'dqv:value', literal(value!, { datatype }));
+  }
+  return subject;
+}
+
+/**
+ * An api.viss.gov.lv API as a dcat:DataService, with its gateway endpoints.
+ */
+export function addDataService(graph: Graph, api: Entity, owners: Map<string, Entity>, options: DcatOptions): string {
+  const subject = entityIri(api, options);
+  const { metadata } = api;
+  graph.type(subject, 'dcat:DataService')
+    .add(subject, 'dct:identifier', literal(metadata.name))
+    .add(subject, 'dct:title', literal(metadata.title ?? metadata.name, { language: options.language }))
+    .add(subject, 'dct:description', metadata.description ? literal(metadata.description, { language: options.language }) : undefined)
+    .add(subject, 'dcat:endpointDescription', iri(subject))
+    .add(subject, 'dct:publisher', optionalIri(addPublisher(graph, api, owners, options)));
+  for (const link of metadata.links ?? []) {
+    if (link.type === ENDPOINT_LINK_TYPE) {
+      graph.add(subject, 'dcat:endpointURL', iri(link.url));
+    }
+  }
+  return subject;
+}
+
+/**
+ * The dcat:Catalog of a page of datasets and data services, with the metrics of the quality measurements.
+ */
+export function addCatalog(graph: Graph, catalog: DcatCatalog, members: { datasets: string[]; services: string[] }, options: DcatOptions): void {
+  const publisher = `${catalog.iri}#publisher`;
+  graph.type(catalog.iri, 'dcat:Catalog')
+    .add(catalog.iri, 'dct:title', literal(catalog.title, { language: options.language }))
+    .add(catalog.iri, 'dct:description', literal(catalog.description, { language: options.language }))
+    .add(catalog.iri, 'dct:publisher', iri(publisher))
+    .add(catalog.iri, 'foaf:homepage', iri(catalog.homepage))
+    .type(publisher, 'foaf:Agent')
+    .add(publisher, 'foaf:name', literal(catalog.publisher, { language: options.language }));
+  for (const dataset of members.datasets) {
+    graph.add(catalog.iri, 'dcat:dataset', iri(dataset));
+  }
+  for (const service of members.services) {
+    graph.add(catalog.iri, 'dcat:service', iri(service));
+  }
+
+  const metrics = [
+    { metric: 'quality-score', definition: 'Quality score of the catalog between 0 and 100', datatype: 'xsd:integer' },
+    { metric: 'freshness', definition: 'fresh, or overdue when not updated as often as declared', datatype: 'xsd:string' },
+  ];
+  for (const { metric, definition, datatype } of metrics) {
+    const subject = `${options.routesBaseUrl}/dcat#${metric}`;
+    graph.type(subject, 'dqv:Metric')
+      .add(subject, 'skos:definition', literal(definition, { language: 'en' }))
+      .add(subject, 'dqv:expectedDataType', iri(datatype));
+  }
+}
+
+/**
+ * The hydra:PartialCollectionView of a page, as harvesters of paged DCAT catalogs expect it.
+ */
+export function addPage(graph: Graph, page: DcatPage): void {
+  graph.type(page.iri, 'hydra:PartialCollectionView')
+    .add(page.iri, 'hydra:totalItems', literal(page.totalItems, { datatype: 'xsd:integer' }))
+    .add(page.iri, 'hydra:first', iri(page.first))
+    .add(page.iri, 'hydra:last', iri(page.last))
+    .add(page.iri, 'hydra:next', page.next ? iri(page.next) : undefined)
+    .add(page.iri, 'hydra:previous', page.previous ? iri(page.previous) : undefined);
+}
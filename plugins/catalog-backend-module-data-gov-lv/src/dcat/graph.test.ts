@@ -0,0 +1,49 @@
+import { Graph, iri, literal, PREFIXES } from './graph';
+
+function graph(): Graph {
+  return new Graph()
+    .type('https://x/dataset/adreses', 'dcat:Dataset')
+    .add('https://x/dataset/adreses', 'dct:title', literal('Adreses "VZD"\n', { language: 'lv' }))
+    .add('https://x/dataset/adreses', 'dcat:keyword', literal('adreses'))
+    .add('https://x/dataset/adreses', 'dcat:keyword', literal('vzd'))
+    .add('https://x/dataset/adreses', 'dcat:keyword', literal('vzd'))
+    .add('https://x/dataset/adreses', 'dct:modified', literal('2024-02-20T10:00:00.000Z', { datatype: 'xsd:dateTime' }))
+    .add('https://x/dataset/adreses', 'dcat:landingPage', iri('https://x/a b'))
+    .add('https://x/dataset/adreses', 'dcat:contactPoint', iri('_:contact'))
+    .add('https://x/dataset/adreses', 'dct:description', literal(''))
+    .add('https://x/dataset/adreses', 'dct:publisher', undefined);
+}
+
+describe('Graph', () => {
+  it('serializes to JSON-LD', () => {
+    expect(graph().toJsonLd()).toEqual({
+      '@context': PREFIXES,
+      '@graph': [
+        {
+          '@id': 'https://x/dataset/adreses',
+          '@type': ['dcat:Dataset'],
+          'dct:title': { '@value': 'Adreses "VZD"\n', '@language': 'lv' },
+          'dcat:keyword': ['adreses', 'vzd'],
+          'dct:modified': { '@value': '2024-02-20T10:00:00.000Z', '@type': 'xsd:dateTime' },
+          'dcat:landingPage': { '@id': 'https://x/a b' },
+          'dcat:contactPoint': { '@id': '_:contact' },
+        },
+      ],
+    });
+  });
+
+  it('serializes to Turtle', () => {
+    const turtle = graph().toTurtle();
+    expect(turtle).toContain('@prefix dcat: <http://www.w3.org/ns/dcat#> .\n');
+    expect(turtle.slice(turtle.indexOf('\n\n') + 2)).toBe([
+      '<https://x/dataset/adreses>',
+      '    a dcat:Dataset ;',
+      '    dct:title "Adreses \\"VZD\\"\\n"@lv ;',
+      '    dcat:keyword "adreses", "vzd" ;',
+      '    dct:modified "2024-02-20T10:00:00.000Z"^^xsd:dateTime ;',
+      '    dcat:landingPage <https://x/a%20b> ;',
+      '    dcat:contactPoint _:contact .',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * A minimal RDF graph for the DCAT-AP export, serialized as JSON-LD or Turtle. Predicates and
+ * classes are prefixed names of `PREFIXES`, the other IRIs are absolute, blank nodes start with `_:`.
+ */
+
+export const PREFIXES: Record<string, string> = {
+  adms: 'http://www.w3.org/ns/adms#',
+  cnt: 'http://www.w3.org/2011/content#',
+  dcat: 'http://www.w3.org/ns/dcat#',
+  dct: 'http://purl.org/dc/terms/',
+  dqv: 'http://www.w3.org/ns/dqv#',
+  foaf: 'http://xmlns.com/foaf/0.1/',
+  hydra: 'http://www.w3.org/ns/hydra/core#',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  skos: 'http://www.w3.org/2004/02/skos/core#',
+  vcard: 'http://www.w3.org/2006/vcard/ns#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+};
+
+export type Term =
+  | { iri: string }
+  | { literal: string; datatype?: string; language?: string };
+
+const RDF_TYPE = 'rdf:type';
+
+const PREFIXED_NAME = /^([a-z]+):([A-Za-z_][\w-]*)$/;
+
+/** Characters that are not allowed in a Turtle IRIREF */
+const IRI_ESCAPED = /[<>"{}|^`\\\s]/g;
+
+export function iri(value: string): Term {
+  return { iri: value };
+}
+
+export function literal(value: string | number | boolean, options: { datatype?: string; language?: string } = {}): Term {
+  return { literal: `${value}`, ...options };
+}
+
+function isPrefixedName(value: string): boolean {
+  const match = value.match(PREFIXED_NAME);
+  return match !== null && match[1] in PREFIXES;
+}
+
+function turtleString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}
+
+function turtleIri(value: string): string {
+  if (value.startsWith('_:') || isPrefixedName(value)) {
+    return value;
+  }
+  return `<${value.replace(IRI_ESCAPED, char => encodeURIComponent(char))}>`;
+}
+
+function turtleTerm(term: Term): string {
+  if ('iri' in term) {
+    return turtleIri(term.iri);
+  } else if (term.language) {
+    return `${turtleString(term.literal)}@${term.language}`;
+  } else if (term.datatype) {
+    return `${turtleString(term.literal)}^^${turtleIri(term.datatype)}`;
+  }
+  return turtleString(term.literal);
+}
+
+function jsonLdTerm(term: Term): unknown {
+  if ('iri' in term) {
+    return { '@id': term.iri };
+  } else if (term.language) {
+    return { '@value': term.literal, '@language': term.language };
+  } else if (term.datatype) {
+    return { '@value': term.literal, '@type': term.datatype };
+  }
+  return term.literal;
+}
+
+export class Graph {
+  /** Predicates and objects by subject, in insertion order */
+  private readonly subjects = new Map<string, Map<string, Term[]>>();
+
+  /**
+   * Adds a statement, an undefined object or an empty literal adds nothing.
+   */
+  add(subject: string, predicate: string, object: Term | undefined): this {
+    if (!object || ('literal' in object && object.literal === '')) {
+      return this;
+    }
+    let predicates = this.subjects.get(subject);
+    if (!predicates) {
+      predicates = new Map();
+      this.subjects.set(subject, predicates);
+    }
+    const objects = predicates.get(predicate) ?? [];
+    if (!objects.some(existing => JSON.stringify(existing) === JSON.stringify(object))) {
+      objects.push(object);
+    }
+    predicates.set(predicate, objects);
+    return this;
+  }
+
+  type(subject: string, type: string): this {
+    return this.add(subject, RDF_TYPE, iri(type));
+  }
+
+  toJsonLd(): { '@context': Record<string, string>; '@graph': Record<string, unknown>[] } {
+    const nodes = [...this.subjects].map(([subject, predicates]) => {
+      const node: Record<string, unknown> = { '@id': subject };
+      for (const [predicate, objects] of predicates) {
+        if (predicate === RDF_TYPE) {
+          node['@type'] = objects.map(object => ('iri' in object ? object.iri : object.literal));
+        } else {
+          node[predicate] = objects.length === 1 ? jsonLdTerm(objects[0]) : objects.map(jsonLdTerm);
+        }
+      }
+      return node;
+    });
+    return { '@context': PREFIXES, '@graph': nodes };
+  }
+
+  toTurtle(): string {
+    const lines = Object.entries(PREFIXES).map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`);
+    for (const [subject, predicates] of this.subjects) {
+      const statements = [...predicates].map(([predicate, objects]) =>
+        `    ${predicate === RDF_TYPE ? 'a' : predicate} ${objects.map(turtleTerm).join(', ')}`,
+      );
+      lines.push('', `${turtleIri(subject)}\n${statements.join(' ;\n')} .`);
+    }
+    return `${lines.join('\n')}\n`;
+  }
+}
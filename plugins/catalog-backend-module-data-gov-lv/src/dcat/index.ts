@@ -0,0 +1,6 @@
+export { addCatalog, addDataService, addDataset, addPage, entityIri, frequencyIri } from './dcat';
+export type { DcatCatalog, DcatOptions, DcatPage } from './dcat';
+export { Graph, iri, literal, PREFIXES } from './graph';
+export type { Term } from './graph';
+export { createDcatRouter } from './router';
+export type { DcatRouterOptions } from './router';
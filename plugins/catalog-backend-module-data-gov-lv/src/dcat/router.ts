@@ -0,0 +1,151 @@
+import { errorHandler, PluginEndpointDiscovery, TokenManager } from '@backstage/backend-common';
+import { CatalogApi } from '@backstage/catalog-client';
+import { Entity, RELATION_PART_OF, stringifyEntityRef } from '@backstage/catalog-model';
+import { Config } from '@backstage/config';
+import express from 'express';
+import Router from 'express-promise-router';
+import { readDcatConfig } from '../config';
+import { ANNOTATION_METADATA_MODIFIED } from '../freshness';
+import { DistributionEntityV1alpha1, isDatasetEntity, isDistributionEntity } from '../kinds';
+import { addCatalog, addDataService, addDataset, addPage, DcatOptions } from './dcat';
+import { Graph } from './graph';
+
+export type DcatRouterOptions = {
+  config: Config;
+  catalogApi: CatalogApi;
+  tokenManager: TokenManager;
+  discovery: PluginEndpointDiscovery;
+};
+
+/** Upper limit of the `pageSize` parameter */
+const MAX_PAGE_SIZE = 1000;
+
+/** Dataset refs per request of their distributions, so that the query string stays short */
+const DISTRIBUTION_QUERY_CHUNK = 50;
+
+const MEDIA_TYPES = {
+  jsonld: 'application/ld+json',
+  ttl: 'text/turtle',
+};
+
+/** `?format=` wins over the `Accept` header, JSON-LD is the default */
+function requestedFormat(request: express.Request): keyof typeof MEDIA_TYPES {
+  if (request.query.format === 'ttl' || request.query.format === 'jsonld') {
+    return request.query.format;
+  }
+  return request.accepts([MEDIA_TYPES.jsonld, MEDIA_TYPES.ttl]) === MEDIA_TYPES.ttl ? 'ttl' : 'jsonld';
+}
+
+function positiveInteger(value: unknown, fallback: number): number {
+  const number = typeof value === 'string' ? Number(value) : NaN;
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+}
+
+/**
+ * `GET /dcat` exports the datasets as a DCAT-AP catalog, as JSON-LD or Turtle by the `Accept` header
+ * or `?format=jsonld|ttl`. The catalog is paged with `?page=` and `?pageSize=`, `?since=` only lists
+ * the datasets modified since then, and `?services=true` adds the api.viss.gov.lv APIs as data services.
+ */
+export async function createDcatRouter(options: DcatRouterOptions): Promise<express.Router> {
+  const dcatConfig = readDcatConfig(options.config);
+  const appBaseUrl = options.config.getString('app.baseUrl').replace(/\/+$/, '');
+  const router = Router();
+
+  router.get('/dcat', async (request, response) => {
+    const since = typeof request.query.since === 'string' ? new Date(request.query.since) : undefined;
+    if (since && Number.isNaN(since.getTime())) {
+      response.status(400).json({ error: `Invalid since ${request.query.since}, expected an ISO 8601 date` });
+      return;
+    }
+    const format = requestedFormat(request);
+    const page = positiveInteger(request.query.page, 1);
+    const pageSize = Math.min(positiveInteger(request.query.pageSize, dcatConfig.pageSize), MAX_PAGE_SIZE);
+    const withServices = request.query.services === 'true';
+
+    const { token } = await options.tokenManager.getToken();
+    const [datasets, services, owners] = await Promise.all([
+      options.catalogApi.getEntities({
+        filter: { kind: 'Dataset', 'metadata.namespace': dcatConfig.namespaces },
+      }, { token }),
+      // The APIs carry no modification date, so an incremental harvest does not list them
+      withServices && !since
+        ? options.catalogApi.getEntities({
+          filter: { kind: 'API', 'metadata.namespace': dcatConfig.servicesNamespace },
+        }, { token })
+        : { items: [] },
+      options.catalogApi.getEntities({
+        filter: { kind: 'Group' },
+        fields: ['kind', 'metadata.namespace', 'metadata.name', 'metadata.title'],
+      }, { token }),
+    ]);
+
+    const members: Entity[] = [
+      ...datasets.items.filter(isDatasetEntity).filter(dataset => {
+        const modified = dataset.metadata.annotations?.[ANNOTATION_METADATA_MODIFIED];
+        return !since || (modified !== undefined && new Date(modified) >= since);
+      }),
+      ...services.items,
+    ].sort((a, b) => stringifyEntityRef(a).localeCompare(stringifyEntityRef(b)));
+    const pageMembers = members.slice((page - 1) * pageSize, page * pageSize);
+
+    const pageDatasets = pageMembers.filter(isDatasetEntity);
+    const datasetRefs = pageDatasets.map(dataset => stringifyEntityRef(dataset));
+    const distributions = new Map<string, DistributionEntityV1alpha1[]>();
+    for (let i = 0; i < datasetRefs.length; i += DISTRIBUTION_QUERY_CHUNK) {
+      const { items } = await options.catalogApi.getEntities({
+        filter: {
+          kind: 'Distribution',
+          [`relations.${RELATION_PART_OF}`]: datasetRefs.slice(i, i + DISTRIBUTION_QUERY_CHUNK),
+        },
+      }, { token });
+      for (const distribution of items.filter(isDistributionEntity)) {
+        const datasetRef = distribution.relations?.find(relation => relation.type === RELATION_PART_OF)?.targetRef;
+        if (datasetRef) {
+          distributions.set(datasetRef, [...(distributions.get(datasetRef) ?? []), distribution]);
+        }
+      }
+    }
+
+    const routesBaseUrl = `${await options.discovery.getExternalBaseUrl('catalog')}/data-gov-lv`;
+    const dcatOptions: DcatOptions = { appBaseUrl, routesBaseUrl, language: dcatConfig.language };
+    const ownersByRef = new Map(owners.items.map(owner => [stringifyEntityRef(owner), owner]));
+    const graph = new Graph();
+    const datasetIris = pageDatasets.map(dataset =>
+      addDataset(graph, dataset, distributions.get(stringifyEntityRef(dataset)) ?? [], ownersByRef, dcatOptions),
+    );
+    const serviceIris = pageMembers
+      .filter(member => member.kind === 'API')
+      .map(api => addDataService(graph, api, ownersByRef, dcatOptions));
+    const catalogIri = `${routesBaseUrl}/dcat`;
+    addCatalog(graph, { iri: catalogIri, ...dcatConfig }, { datasets: datasetIris, services: serviceIris }, dcatOptions);
+
+    const lastPage = Math.max(1, Math.ceil(members.length / pageSize));
+    const pageIri = (number: number) => {
+      const params = new URLSearchParams({ format, page: `${number}`, pageSize: `${pageSize}` });
+      if (since) {
+        params.set('since', since.toISOString());
+      }
+      if (withServices) {
+        params.set('services', 'true');
+      }
+      return `${catalogIri}?${params}`;
+    };
+    addPage(graph, {
+      iri: pageIri(page),
+      first: pageIri(1),
+      last: pageIri(lastPage),
+      next: page < lastPage ? pageIri(page + 1) : undefined,
+      previous: page > 1 ? pageIri(page - 1) : undefined,
+      totalItems: members.length,
+    });
+
+    if (format === 'ttl') {
+      response.type(MEDIA_TYPES.ttl).send(graph.toTurtle());
+    } else {
+      response.type(MEDIA_TYPES.jsonld).send(JSON.stringify(graph.toJsonLd()));
+    }
+  });
+
+  router.use(errorHandler());
+  return router;
+}
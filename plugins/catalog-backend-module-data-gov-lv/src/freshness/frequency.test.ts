@@ -0,0 +1,104 @@
+import { Entity } from '@backstage/catalog-model';
+import {
+  ANNOTATION_DATA_MODIFIED,
+  ANNOTATION_METADATA_MODIFIED,
+  datasetFreshness,
+  frequencyDays,
+} from './frequency';
+
+function dataset(frequency: string | undefined, annotations: Record<string, string>): Entity {
+  return {
+    apiVersion: 'data.gov.lv/v1alpha1',
+    kind: 'Dataset',
+    metadata: {
+      name: 'adreses',
+      labels: frequency ? { frequency } : {},
+      annotations,
+    },
+  };
+}
+
+describe('frequencyDays', () => {
+  it.each([
+    ['continuous', 1],
+    ['daily', 1],
+    ['daily_2', 0.5],
+    ['weekly', 7],
+    ['weekly_2', 3.5],
+    ['weekly_3', 2.33],
+    ['biweekly', 14],
+    ['monthly', 31],
+    ['monthly_2', 15.5],
+    ['monthly_3', 10.33],
+    ['quarterly', 92],
+    ['annual_2', 183],
+    ['annual_3', 122],
+    ['annual', 366],
+    ['decennial', 3653],
+  ])('reads %s as %s days', (frequency, days) => {
+    expect(frequencyDays(frequency)).toBeCloseTo(days);
+  });
+
+  it('reads EU frequency authority codes and URIs', () => {
+    expect(frequencyDays('WEEKLY_2')).toBe(3.5);
+    expect(frequencyDays('http://publications.europa.eu/resource/authority/frequency/ANNUAL')).toBe(366);
+    expect(frequencyDays(' http://publications.europa.eu/resource/authority/frequency/MONTHLY/ ')).toBe(31);
+  });
+
+  it('has no days for irregular, unknown and missing frequencies', () => {
+    expect(frequencyDays('irreg')).toBeUndefined();
+    expect(frequencyDays('NEVER')).toBeUndefined();
+    expect(frequencyDays('katru otrdienu')).toBeUndefined();
+    expect(frequencyDays('')).toBeUndefined();
+    expect(frequencyDays(undefined)).toBeUndefined();
+  });
+});
+
+describe('datasetFreshness', () => {
+  const now = new Date('2024-03-01T00:00:00Z');
+
+  it('is fresh within the period and half of it more', () => {
+    const freshness = datasetFreshness(dataset('weekly', {
+      [ANNOTATION_DATA_MODIFIED]: '2024-02-20T00:00:00Z',
+    }), now);
+    expect(freshness).toEqual({
+      status: 'fresh',
+      frequencyDays: 7,
+      lastModified: new Date('2024-02-20T00:00:00Z'),
+      dueAt: new Date('2024-03-01T12:00:00Z'),
+    });
+  });
+
+  it('is overdue after the period and half of it more', () => {
+    const freshness = datasetFreshness(dataset('daily_2', {
+      [ANNOTATION_DATA_MODIFIED]: '2024-02-29T00:00:00Z',
+    }), now);
+    expect(freshness?.status).toBe('overdue');
+    expect(freshness?.dueAt).toEqual(new Date('2024-02-29T18:00:00Z'));
+  });
+
+  it('falls back to the metadata modification date', () => {
+    const freshness = datasetFreshness(dataset('monthly', {
+      [ANNOTATION_METADATA_MODIFIED]: '2023-12-01T00:00:00Z',
+    }), now);
+    expect(freshness?.status).toBe('overdue');
+    expect(freshness?.lastModified).toEqual(new Date('2023-12-01T00:00:00Z'));
+  });
+
+  it('prefers the data modification date', () => {
+    const freshness = datasetFreshness(dataset('monthly', {
+      [ANNOTATION_METADATA_MODIFIED]: '2023-12-01T00:00:00Z',
+      [ANNOTATION_DATA_MODIFIED]: '2024-02-15T00:00:00Z',
+    }), now);
+    expect(freshness?.status).toBe('fresh');
+  });
+
+  it('has no freshness without a regular frequency or a valid date', () => {
+    expect(datasetFreshness(dataset('irreg', { [ANNOTATION_DATA_MODIFIED]: '2024-02-20T00:00:00Z' }), now))
+      .toBeUndefined();
+    expect(datasetFreshness(dataset(undefined, { [ANNOTATION_DATA_MODIFIED]: '2024-02-20T00:00:00Z' }), now))
+      .toBeUndefined();
+    expect(datasetFreshness(dataset('weekly', {}), now)).toBeUndefined();
+    expect(datasetFreshness(dataset('weekly', { [ANNOTATION_DATA_MODIFIED]: 'vakar' }), now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { Entity } from '@backstage/catalog-model';
+
+/** When the metadata of a dataset last changed, CKAN `metadata_modified` */
+export const ANNOTATION_METADATA_MODIFIED = 'data.gov.lv/metadata-modified';
+
+/** When the data of a dataset last changed, the latest resource `last_modified` */
+export const ANNOTATION_DATA_MODIFIED = 'data.gov.lv/data-modified';
+
+/** `fresh` or `overdue` for the datasets with a regular update frequency */
+export const ANNOTATION_FRESHNESS = 'data.gov.lv/freshness';
+
+/** When the next update was due, for overdue datasets */
+export const ANNOTATION_OVERDUE_SINCE = 'data.gov.lv/overdue-since';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Days between updates by the CKAN `frequency` value, either a plain word or an EU frequency
+ * authority code or URI, e.g. `http://publications.europa.eu/resource/authority/frequency/ANNUAL`.
+ * The `_2` and `_3` codes are two and three times per day, week, month or year.
+ */
+const FREQUENCY_DAYS: Record<string, number> = {
+  continuous: 1,
+  cont: 1,
+  update_cont: 1,
+  realtime: 1,
+  hourly: 1,
+  daily: 1,
+  daily_2: 1 / 2,
+  weekly: 7,
+  weekly_2: 7 / 2,
+  weekly_3: 7 / 3,
+  biweekly: 14,
+  monthly: 31,
+  monthly_2: 31 / 2,
+  monthly_3: 31 / 3,
+  bimonthly: 62,
+  quarterly: 92,
+  annual_3: 366 / 3,
+  annual_2: 366 / 2,
+  semiannual: 183,
+  annual: 366,
+  annually: 366,
+  yearly: 366,
+  biennial: 731,
+  triennial: 1096,
+  quadrennial: 1461,
+  quinquennial: 1827,
+  decennial: 3653,
+};
+
+/**
+ * A dataset is overdue when it was not updated within its period and half of it more,
+ * so that a monthly dataset published a few days late is not flagged.
+ */
+const GRACE = 0.5;
+
+/**
+ * The declared days between updates, undefined for irregular, unknown or missing frequencies.
+ */
+export function frequencyDays(frequency: string | undefined): number | undefined {
+  if (!frequency) {
+    return undefined;
+  }
+  const code = frequency.trim().replace(/\/+$/, '').split('/').pop()!.toLowerCase();
+  return FREQUENCY_DAYS[code];
+}
+
+export type Freshness = {
+  status: 'fresh' | 'overdue';
+  frequencyDays: number;
+  lastModified: Date;
+  dueAt: Date;
+};
+
+/**
+ * Compares when the data of a dataset last changed, or its metadata when no resource tells,
+ * with its declared `frequency` label.
+ */
+export function datasetFreshness(entity: Entity, now: Date = new Date()): Freshness | undefined {
+  const days = frequencyDays(entity.metadata.labels?.frequency);
+  const annotations = entity.metadata.annotations ?? {};
+  const modified = annotations[ANNOTATION_DATA_MODIFIED] ?? annotations[ANNOTATION_METADATA_MODIFIED];
+  if (days === undefined || !modified || Number.isNaN(Date.parse(modified))) {
+    return undefined;
+  }
+
+  const lastModified = new Date(modified);
+  const dueAt = new Date(lastModified.getTime() + days * (1 + GRACE) * DAY);
+  return {
+    status: now > dueAt ? 'overdue' : 'fresh',
+    frequencyDays: days,
+    lastModified,
+    dueAt,
+  };
+}
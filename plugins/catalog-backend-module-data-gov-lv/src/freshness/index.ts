@@ -0,0 +1,2 @@
+export * from './frequency';
+export { DatasetFreshnessProcessor } from './processor';
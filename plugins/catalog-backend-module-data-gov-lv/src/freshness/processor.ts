@@ -0,0 +1,39 @@
+import { Entity } from '@backstage/catalog-model';
+import { CatalogProcessor } from '@backstage/plugin-catalog-node';
+import { isDatasetEntity } from '../kinds';
+import { ANNOTATION_FRESHNESS, ANNOTATION_OVERDUE_SINCE, datasetFreshness } from './frequency';
+
+/**
+ * Flags the Datasets that were not updated as often as their `frequency` label declares.
+ * It runs on every processing, so a dataset becomes overdue without being changed in CKAN.
+ */
+export class DatasetFreshnessProcessor implements CatalogProcessor {
+  getProcessorName(): string {
+    return 'DatasetFreshnessProcessor';
+  }
+
+  async preProcessEntity(entity: Entity): Promise<Entity> {
+    if (!isDatasetEntity(entity)) {
+      return entity;
+    }
+    const freshness = datasetFreshness(entity);
+    if (!freshness) {
+      return entity;
+    }
+
+    const annotations: Record<string, string> = {
+      ...entity.metadata.annotations,
+      [ANNOTATION_FRESHNESS]: freshness.status,
+    };
+    if (freshness.status === 'overdue') {
+      annotations[ANNOTATION_OVERDUE_SINCE] = freshness.dueAt.toISOString();
+    }
+    return {
+      ...entity,
+      metadata: {
+        ...entity.metadata,
+        annotations,
+      },
+    };
+  }
+}
@@ -0,0 +1,141 @@
+import { avroToJsonSchema, jsonSchemaToAvro } from './convert';
+
+describe('avroToJsonSchema', () => {
+  it('converts a record and leaves out the probe attributes', () => {
+    expect(avroToJsonSchema({
+      type: 'record',
+      name: 'Row',
+      csv_delimiter: ';',
+      confidence: 0.9,
+      fields: [
+        { name: 'kods', type: 'long', doc: 'Adreses kods', confidence: 1 },
+        { name: 'summa', type: ['null', 'double'], default: null },
+        { name: 'datums', type: { type: 'int', logicalType: 'date' } },
+        { name: 'statuss', type: { type: 'enum', name: 'statuss_values', symbols: ['aktivs', 'slegts'] } },
+        { name: 'pilseta', type: { type: 'string', 'x-enum': ['Ogre', 'Rīga'] } },
+      ],
+    })).toEqual({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      title: 'Row',
+      properties: {
+        kods: { type: 'integer', description: 'Adreses kods' },
+        summa: { type: ['number', 'null'] },
+        datums: { type: 'string', format: 'date' },
+        statuss: { type: 'string', enum: ['aktivs', 'slegts'] },
+        pilseta: { type: 'string', enum: ['Ogre', 'Rīga'] },
+      },
+      required: ['kods', 'datums', 'statuss', 'pilseta'],
+    });
+  });
+
+  it('converts unions of other types to alternatives', () => {
+    expect(avroToJsonSchema(['null', 'long', { type: 'array', items: 'string' }])).toEqual({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      anyOf: [{ type: 'integer' }, { type: 'array', items: { type: 'string' } }, { type: 'null' }],
+    });
+    expect(avroToJsonSchema({ type: 'map', values: 'bytes' })).toMatchObject({
+      type: 'object',
+      additionalProperties: { type: 'string', contentEncoding: 'base64' },
+    });
+  });
+
+  it('converts a union of records, e.g. the sheets of a workbook, to one of them', () => {
+    const schema = avroToJsonSchema([
+      { type: 'record', name: 'Lapa1', fields: [{ name: 'a', type: 'long' }] },
+      { type: 'record', name: 'Lapa2', fields: [] },
+    ]);
+    expect(schema.oneOf).toEqual([
+      { type: 'object', title: 'Lapa1', properties: { a: { type: 'integer' } }, required: ['a'] },
+      { type: 'object', title: 'Lapa2', properties: {}, required: [] },
+    ]);
+  });
+});
+
+describe('jsonSchemaToAvro', () => {
+  it('converts an object to a record with nullable optional fields', () => {
+    expect(jsonSchemaToAvro({
+      type: 'object',
+      required: ['id'],
+      properties: {
+        'id': { type: 'integer' },
+        'cena': { type: 'number', description: 'Cena eiro' },
+        'reģ. nr.': { type: 'string' },
+        'datums': { type: ['string', 'null'], format: 'date' },
+      },
+    })).toEqual({
+      type: 'record',
+      name: 'Root',
+      fields: [
+        { name: 'id', type: 'long' },
+        { name: 'cena', type: ['null', 'double'], default: null, doc: 'Cena eiro' },
+        { name: 'reg__nr_', json_name: 'reģ. nr.', type: ['null', 'string'], default: null },
+        { name: 'datums', type: ['null', { type: 'int', logicalType: 'date' }], default: null },
+      ],
+    });
+  });
+
+  it('puts null first in a union and drops repeated members', () => {
+    expect(jsonSchemaToAvro({ anyOf: [{ type: 'string' }, { type: 'null' }, { type: 'string' }] })).toEqual(['null', 'string']);
+    expect(jsonSchemaToAvro({ type: ['integer', 'string'] })).toEqual(['long', 'string']);
+    expect(jsonSchemaToAvro({ type: 'null' })).toBe('null');
+    expect(jsonSchemaToAvro({})).toBe('string');
+  });
+
+  it('gives the nested records and enums unique names', () => {
+    const item = { type: 'object', title: 'Adrese', properties: { tips: { type: 'string', enum: ['iela', 'maja'] } } };
+    expect(jsonSchemaToAvro({
+      type: 'object',
+      required: ['a', 'b'],
+      properties: { a: item, b: { type: 'array', items: item } },
+    })).toEqual({
+      type: 'record',
+      name: 'Root',
+      fields: [
+        {
+          name: 'a',
+          type: {
+            type: 'record',
+            name: 'Adrese',
+            fields: [
+              { name: 'tips', type: ['null', { type: 'enum', name: 'Adrese_tips_values', symbols: ['iela', 'maja'] }], default: null },
+            ],
+          },
+        },
+        {
+          name: 'b',
+          type: {
+            type: 'array',
+            items: {
+              type: 'record',
+              name: 'Adrese_2',
+              fields: [
+                { name: 'tips', type: ['null', { type: 'enum', name: 'Adrese_2_tips_values', symbols: ['iela', 'maja'] }], default: null },
+              ],
+            },
+          },
+        },
+      ],
+    });
+  });
+
+  it('keeps strings that are not valid enum symbols as x-enum', () => {
+    expect(jsonSchemaToAvro({ type: 'string', enum: ['Rīga', 'Ogre'] })).toEqual({ type: 'string', 'x-enum': ['Rīga', 'Ogre'] });
+  });
+
+  it('converts objects without properties to maps', () => {
+    expect(jsonSchemaToAvro({ type: 'object', additionalProperties: { type: 'number' } })).toEqual({ type: 'map', values: 'double' });
+  });
+
+  it('converts back the JSON Schema of an Avro record', () => {
+    const avro = {
+      type: 'record',
+      name: 'Row',
+      fields: [
+        { name: 'kods', type: 'long' },
+        { name: 'summa', type: ['null', 'double'], default: null },
+      ],
+    };
+    expect(jsonSchemaToAvro(avroToJsonSchema(avro))).toEqual(avro);
+  });
+});
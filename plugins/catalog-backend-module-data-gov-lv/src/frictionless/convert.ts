@@ -0,0 +1,234 @@
+/**
+ * Conversion between the Avro schemas and JSON Schemas of the distributions. The custom attributes
+ * of the inferred Avro schemas (`confidence`, `csv_delimiter`, `sheet`...) have no JSON Schema
+ * counterpart and are left out.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+const JSON_SCHEMA_DRAFT = 'http://json-schema.org/draft-07/schema#';
+
+const AVRO_PRIMITIVES: Record<string, JsonObject> = {
+  null: { type: 'null' },
+  boolean: { type: 'boolean' },
+  int: { type: 'integer' },
+  long: { type: 'integer' },
+  float: { type: 'number' },
+  double: { type: 'number' },
+  string: { type: 'string' },
+  bytes: { type: 'string', contentEncoding: 'base64' },
+};
+
+const AVRO_LOGICAL_TYPES: Record<string, JsonObject> = {
+  date: { type: 'string', format: 'date' },
+  'time-millis': { type: 'string', format: 'time' },
+  'time-micros': { type: 'string', format: 'time' },
+  'timestamp-millis': { type: 'string', format: 'date-time' },
+  'timestamp-micros': { type: 'string', format: 'date-time' },
+  uuid: { type: 'string', format: 'uuid' },
+};
+
+const AVRO_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNullable(type: unknown): boolean {
+  return type === 'null' || (Array.isArray(type) && type.includes('null'));
+}
+
+function avroTypeToJsonSchema(type: unknown): JsonObject {
+  if (typeof type === 'string') {
+    return { ...(AVRO_PRIMITIVES[type] ?? {}) };
+  }
+
+  if (Array.isArray(type)) {
+    const members = type.filter(member => member !== 'null').map(avroTypeToJsonSchema);
+    const nullable = members.length < type.length;
+    // `["null", "string"]` is a nullable type, other unions are alternatives
+    if (members.length === 1 && typeof members[0].type === 'string') {
+      return { ...members[0], type: nullable ? [members[0].type, 'null'] : members[0].type };
+    }
+    return { anyOf: nullable ? [...members, { type: 'null' }] : members };
+  }
+
+  if (!isObject(type)) {
+    return {};
+  }
+  if (typeof type.logicalType === 'string' && AVRO_LOGICAL_TYPES[type.logicalType]) {
+    return { ...AVRO_LOGICAL_TYPES[type.logicalType] };
+  }
+  switch (type.type) {
+    case 'record': {
+      const fields = Array.isArray(type.fields) ? type.fields.filter(isObject) : [];
+      return {
+        type: 'object',
+        ...(type.name ? { title: type.name } : {}),
+        ...(type.doc ? { description: type.doc } : {}),
+        properties: Object.fromEntries(fields.map(field => [
+          field.name,
+          { ...avroTypeToJsonSchema(field.type), ...(field.doc ? { description: field.doc } : {}) },
+        ])),
+        required: fields.filter(field => !isNullable(field.type)).map(field => field.name),
+      };
+    }
+    case 'enum':
+      return { type: 'string', enum: type.symbols };
+    case 'array':
+      return { type: 'array', items: avroTypeToJsonSchema(type.items) };
+    case 'map':
+      return { type: 'object', additionalProperties: avroTypeToJsonSchema(type.values) };
+    case 'fixed':
+      return { type: 'string', contentEncoding: 'base64' };
+    default: {
+      const schema = avroTypeToJsonSchema(type.type);
+      // The enumerated strings of the probes that are not valid Avro enum symbols
+      return Array.isArray(type['x-enum']) ? { ...schema, enum: type['x-enum'] } : schema;
+    }
+  }
+}
+
+/**
+ * The JSON Schema of the values of an Avro schema. A union of records, e.g. the sheets
+ * of a workbook, is one of the record schemas.
+ */
+export function avroToJsonSchema(avro: unknown): JsonObject {
+  const schema = Array.isArray(avro) && avro.every(member => isObject(member) && member.type === 'record')
+    ? { oneOf: avro.map(avroTypeToJsonSchema) }
+    : avroTypeToJsonSchema(avro);
+  return { $schema: JSON_SCHEMA_DRAFT, ...schema };
+}
+
+/**
+ * A valid Avro name: other characters become underscores, a leading digit gets an underscore.
+ */
+function avroName(name: string): string {
+  if (AVRO_NAME.test(name)) {
+    return name;
+  }
+  const replaced = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[A-Za-z_]/.test(replaced) ? replaced : `_${replaced}`;
+}
+
+function jsonTypes(schema: JsonObject): string[] {
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(String);
+  } else if (typeof schema.type === 'string') {
+    return [schema.type];
+  } else if (isObject(schema.properties)) {
+    return ['object'];
+  } else if (isObject(schema.items)) {
+    return ['array'];
+  }
+  return [];
+}
+
+class JsonSchemaToAvro {
+  private readonly names = new Set<string>();
+
+  /** Record and enum names must be unique within an Avro schema */
+  private uniqueName(name: string): string {
+    let unique = avroName(name);
+    for (let suffix = 2; this.names.has(unique); suffix++) {
+      unique = `${avroName(name)}_${suffix}`;
+    }
+    this.names.add(unique);
+    return unique;
+  }
+
+  convert(schema: unknown, name: string): unknown {
+    if (!isObject(schema)) {
+      return 'string';
+    }
+
+    const alternatives = [schema.anyOf, schema.oneOf].find(Array.isArray);
+    if (alternatives) {
+      // Avro unions cannot be nested or repeat a type, and `null` comes first for a null default
+      const members = alternatives.flatMap((member, index) => [this.convert(member, `${name}_${index + 1}`)].flat());
+      const unique = [...new Map(members.map(member => [JSON.stringify(member), member])).values()]
+        .sort((a, b) => Number(b === 'null') - Number(a === 'null'));
+      return unique.length === 1 ? unique[0] : unique;
+    }
+
+    const types = jsonTypes(schema);
+    const members = types.filter(type => type !== 'null').map(type => this.convertType(schema, type, name));
+    if (members.length === 0) {
+      // Avro has no type for any value
+      return types.includes('null') ? 'null' : 'string';
+    }
+    if (types.includes('null')) {
+      return ['null', ...members];
+    }
+    return members.length === 1 ? members[0] : members;
+  }
+
+  private convertType(schema: JsonObject, type: string, name: string): unknown {
+    switch (type) {
+      case 'boolean':
+        return 'boolean';
+      case 'integer':
+        return 'long';
+      case 'number':
+        return 'double';
+      case 'array':
+        return { type: 'array', items: this.convert(schema.items, `${name}_item`) };
+      case 'object':
+        if (!isObject(schema.properties)) {
+          return { type: 'map', values: isObject(schema.additionalProperties) ? this.convert(schema.additionalProperties, `${name}_value`) : 'string' };
+        }
+        return this.record(schema, name);
+      case 'string':
+        if (schema.format === 'date') {
+          return { type: 'int', logicalType: 'date' };
+        } else if (schema.format === 'date-time') {
+          return { type: 'long', logicalType: 'timestamp-millis' };
+        } else if (Array.isArray(schema.enum) && schema.enum.every(symbol => typeof symbol === 'string' && AVRO_NAME.test(symbol))) {
+          return { type: 'enum', name: this.uniqueName(`${name}_values`), symbols: schema.enum };
+        } else if (Array.isArray(schema.enum)) {
+          return { type: 'string', 'x-enum': schema.enum };
+        }
+        return 'string';
+      default:
+        return 'string';
+    }
+  }
+
+  private record(schema: JsonObject, name: string): JsonObject {
+    const recordName = this.uniqueName(typeof schema.title === 'string' ? schema.title : name);
+    const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+    const fieldNames = new Set<string>();
+    const fields = Object.entries(schema.properties as JsonObject).map(([property, propertySchema]) => {
+      let fieldName = avroName(property);
+      for (let suffix = 2; fieldNames.has(fieldName); suffix++) {
+        fieldName = `${avroName(property)}_${suffix}`;
+      }
+      fieldNames.add(fieldName);
+
+      const type = this.convert(propertySchema, `${recordName}_${fieldName}`);
+      const optional = !required.has(property) && !isNullable(type);
+      const description = isObject(propertySchema) ? propertySchema.description : undefined;
+      return {
+        name: fieldName,
+        ...(fieldName !== property ? { json_name: property } : {}),
+        type: optional ? ['null', ...[type].flat()] : type,
+        ...(optional || isNullable(type) ? { default: null } : {}),
+        ...(description ? { doc: description } : {}),
+      };
+    });
+    return {
+      type: 'record',
+      name: recordName,
+      ...(schema.description ? { doc: schema.description } : {}),
+      fields,
+    };
+  }
+}
+
+/**
+ * The Avro schema of the values of a JSON Schema. Optional properties become nullable fields,
+ * properties that are not valid Avro names keep their name in `json_name`.
+ */
+export function jsonSchemaToAvro(schema: unknown, name = 'Root'): unknown {
+  return new JsonSchemaToAvro().convert(schema, name);
+}
@@ -0,0 +1,140 @@
+import { DatasetEntityV1alpha1, DistributionEntityV1alpha1 } from '../kinds';
+import { ANNOTATION_CKAN_ID, slugify } from '../names';
+import { avroRecordToTableSchema, TableSchema } from './table-schema';
+
+/**
+ * Frictionless Data Packages of the datasets, see https://datapackage.org/standard/data-package/
+ * Tabular distributions, the ones with an Avro record definition, are Tabular Data Resources
+ * with a Table Schema and a Table Dialect.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+export type DataResource = {
+  name: string;
+  path: string;
+  profile: 'data-resource' | 'tabular-data-resource';
+  title?: string;
+  description?: string;
+  format?: string;
+  /** `utf-8-sig` for UTF-8 with a byte order mark, as the Frictionless Framework reads it */
+  encoding?: string;
+  dialect?: {
+    delimiter?: string;
+    header?: boolean;
+    sheetName?: string;
+    headerRows?: number[];
+  };
+  schema?: TableSchema;
+};
+
+export type DataPackage = {
+  profile: 'data-package' | 'tabular-data-package';
+  name: string;
+  id?: string;
+  title?: string;
+  description?: string;
+  homepage?: string;
+  keywords?: string[];
+  licenses?: { name?: string; path?: string; title?: string }[];
+  sources?: { title: string; path?: string }[];
+  contributors?: { title: string; role: string }[];
+  resources: DataResource[];
+};
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseDefinition(definition: string): unknown {
+  try {
+    return JSON.parse(definition);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The resources of a distribution: one for a file, one per sheet for a workbook.
+ * Distributions without a URL, e.g. APIs without a download, have no resource.
+ */
+function distributionResources(distribution: DistributionEntityV1alpha1): DataResource[] {
+  const spec = distribution.spec;
+  if (!spec.url) {
+    return [];
+  }
+
+  const resource: DataResource = {
+    name: distribution.metadata.name,
+    path: spec.url,
+    profile: 'data-resource',
+    ...(distribution.metadata.title ? { title: distribution.metadata.title } : {}),
+    ...(distribution.metadata.description ? { description: distribution.metadata.description } : {}),
+    ...(spec.format ? { format: spec.format.toLowerCase() } : {}),
+    ...(spec.charset ? { encoding: spec.charset } : {}),
+  };
+  const definition = spec.type === 'avro' ? parseDefinition(spec.definition) : undefined;
+
+  if (isObject(definition) && definition.type === 'record') {
+    return [{
+      ...resource,
+      profile: 'tabular-data-resource',
+      dialect: {
+        ...(definition.csv_delimiter ? { delimiter: `${definition.csv_delimiter}` } : {}),
+        header: true,
+      },
+      schema: avroRecordToTableSchema(definition),
+    }];
+  }
+
+  if (Array.isArray(definition)) {
+    return definition.filter(isObject).map(sheet => ({
+      ...resource,
+      name: `${resource.name}-${slugify(`${sheet.sheet ?? sheet.name}`) || 'sheet'}`,
+      title: `${resource.title ?? resource.name}: ${sheet.sheet ?? sheet.name}`,
+      profile: 'tabular-data-resource',
+      dialect: {
+        sheetName: `${sheet.sheet ?? sheet.name}`,
+        headerRows: [Number(sheet.header_row ?? 1)],
+      },
+      schema: avroRecordToTableSchema(sheet),
+    }));
+  }
+
+  return [resource];
+}
+
+/**
+ * The Data Package of a dataset and its distributions, with the licence, keywords,
+ * maintainer and the portal page as the source.
+ */
+export function datasetDataPackage(dataset: DatasetEntityV1alpha1, distributions: DistributionEntityV1alpha1[]): DataPackage {
+  const { metadata } = dataset;
+  const labels = metadata.labels ?? {};
+  const homepage = metadata.links?.[0]?.url;
+  const resources = [...distributions]
+    .sort((a, b) => a.metadata.name.localeCompare(b.metadata.name))
+    .flatMap(distributionResources);
+
+  return {
+    profile: resources.length > 0 && resources.every(resource => resource.profile === 'tabular-data-resource')
+      ? 'tabular-data-package'
+      : 'data-package',
+    name: metadata.name,
+    ...(metadata.annotations?.[ANNOTATION_CKAN_ID] ? { id: metadata.annotations[ANNOTATION_CKAN_ID] } : {}),
+    ...(metadata.title ? { title: metadata.title } : {}),
+    ...(metadata.description ? { description: metadata.description } : {}),
+    ...(homepage ? { homepage } : {}),
+    ...(metadata.tags?.length ? { keywords: metadata.tags } : {}),
+    ...(labels.license_id || labels.license_url ? {
+      licenses: [{
+        ...(labels.license_id ? { name: labels.license_id } : {}),
+        ...(labels.license_url ? { path: labels.license_url } : {}),
+        ...(labels.license_title ? { title: labels.license_title } : {}),
+      }],
+    } : {}),
+    ...(homepage ? { sources: [{ title: metadata.title ?? metadata.name, path: homepage }] } : {}),
+    ...(labels.maintainer ? { contributors: [{ title: labels.maintainer, role: 'maintainer' }] } : {}),
+    resources,
+  };
+}
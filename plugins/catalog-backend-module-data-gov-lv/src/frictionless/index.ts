@@ -0,0 +1,7 @@
+export { avroToJsonSchema, jsonSchemaToAvro } from './convert';
+export { datasetDataPackage } from './datapackage';
+export type { DataPackage, DataResource } from './datapackage';
+export { avroRecordToTableSchema } from './table-schema';
+export type { TableSchema, TableSchemaField } from './table-schema';
+export { createFrictionlessRouter } from './router';
+export type { FrictionlessRouterOptions } from './router';
@@ -0,0 +1,106 @@
+import { errorHandler, TokenManager } from '@backstage/backend-common';
+import { CatalogApi } from '@backstage/catalog-client';
+import { RELATION_PART_OF, stringifyEntityRef } from '@backstage/catalog-model';
+import express from 'express';
+import Router from 'express-promise-router';
+import { isDatasetEntity, isDistributionEntity } from '../kinds';
+import { avroToJsonSchema, jsonSchemaToAvro } from './convert';
+import { datasetDataPackage } from './datapackage';
+import { avroRecordToTableSchema } from './table-schema';
+
+export type FrictionlessRouterOptions = {
+  catalogApi: CatalogApi;
+  tokenManager: TokenManager;
+};
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseDefinition(definition: string): unknown {
+  try {
+    return JSON.parse(definition);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The formats a definition can be converted to, by the type of the stored definition.
+ * A conversion returns undefined for a definition it cannot convert.
+ */
+const CONVERSIONS: Record<string, Record<string, (definition: unknown) => unknown>> = {
+  'avro': {
+    'avro': definition => definition,
+    'json-schema': avroToJsonSchema,
+    // A workbook has a record per sheet
+    'table-schema': definition => {
+      if (Array.isArray(definition)) {
+        return Object.fromEntries(definition.filter(isObject)
+          .map(sheet => [`${sheet.sheet ?? sheet.name}`, avroRecordToTableSchema(sheet)]));
+      }
+      return isObject(definition) ? avroRecordToTableSchema(definition) : undefined;
+    },
+  },
+  'json-schema': {
+    'json-schema': definition => definition,
+    'avro': definition => jsonSchemaToAvro(definition),
+  },
+};
+
+/**
+ * `GET /datasets/:namespace/:name/datapackage.json` returns the Frictionless Data Package of a dataset,
+ * `GET /distributions/:namespace/:name/definition?format=json-schema` the definition of a distribution
+ * converted to `avro`, `json-schema` or `table-schema`.
+ */
+export async function createFrictionlessRouter(options: FrictionlessRouterOptions): Promise<express.Router> {
+  const router = Router();
+
+  router.get('/datasets/:namespace/:name/datapackage.json', async (request, response) => {
+    const { token } = await options.tokenManager.getToken();
+    const datasetRef = stringifyEntityRef({ kind: 'Dataset', ...request.params });
+    const dataset = await options.catalogApi.getEntityByRef(datasetRef, { token });
+    if (!dataset || !isDatasetEntity(dataset)) {
+      response.status(404).json({ error: `No dataset ${datasetRef}` });
+      return;
+    }
+
+    const { items } = await options.catalogApi.getEntities({
+      filter: {
+        kind: 'Distribution',
+        [`relations.${RELATION_PART_OF}`]: datasetRef,
+      },
+    }, { token });
+    response.json(datasetDataPackage(dataset, items.filter(isDistributionEntity)));
+  });
+
+  router.get('/distributions/:namespace/:name/definition', async (request, response) => {
+    const { token } = await options.tokenManager.getToken();
+    const distributionRef = stringifyEntityRef({ kind: 'Distribution', ...request.params });
+    const distribution = await options.catalogApi.getEntityByRef(distributionRef, { token });
+    if (!distribution || !isDistributionEntity(distribution)) {
+      response.status(404).json({ error: `No distribution ${distributionRef}` });
+      return;
+    }
+
+    const { type, definition } = distribution.spec;
+    const format = typeof request.query.format === 'string' ? request.query.format : type;
+    const convert = CONVERSIONS[type]?.[format];
+    if (!convert) {
+      response.status(400).json({ error: `A ${type} definition cannot be converted to ${format}` });
+      return;
+    }
+    const parsed = parseDefinition(definition);
+    const converted = parsed === undefined ? undefined : convert(parsed);
+    if (converted === undefined) {
+      response.status(422).json({ error: `The ${type} definition of ${distributionRef} cannot be converted to ${format}` });
+      return;
+    }
+    response.json(converted);
+  });
+
+  router.use(errorHandler());
+  return router;
+}
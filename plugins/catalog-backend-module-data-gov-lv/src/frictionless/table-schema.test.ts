@@ -0,0 +1,63 @@
+import { NULLS } from '../schema/values';
+import { avroRecordToTableSchema } from './table-schema';
+
+describe('avroRecordToTableSchema', () => {
+  it('maps the field types of an inferred CSV record', () => {
+    const schema = avroRecordToTableSchema({
+      type: 'record',
+      name: 'Row',
+      csv_delimiter: ';',
+      fields: [
+        { name: 'kods', type: 'long', confidence: 1 },
+        { name: 'summa', type: ['null', 'double'], default: null, decimal_separator: ',', confidence: 1 },
+        { name: 'aktivs', type: 'boolean', confidence: 1 },
+        { name: 'nosaukums', type: 'string', doc: 'Nosaukums latviski', confidence: 1 },
+        { name: 'jaukts', type: ['long', 'string'], confidence: 1 },
+      ],
+    });
+    expect(schema).toEqual({
+      fields: [
+        { name: 'kods', type: 'integer' },
+        { name: 'summa', type: 'number', decimalChar: ',' },
+        { name: 'aktivs', type: 'boolean' },
+        { name: 'nosaukums', type: 'string', description: 'Nosaukums latviski' },
+        { name: 'jaukts', type: 'any' },
+      ],
+      missingValues: [...NULLS],
+    });
+  });
+
+  it('converts the date patterns of the probes to strptime formats', () => {
+    const { fields } = avroRecordToTableSchema({
+      fields: [
+        { name: 'iso', type: { type: 'int', logicalType: 'date' }, format: 'yyyy-MM-dd' },
+        { name: 'lv', type: { type: 'int', logicalType: 'date' }, format: 'dd.MM.yyyy.' },
+        { name: 'laiks', type: { type: 'long', logicalType: 'timestamp-millis' }, format: "yyyy-MM-dd'T'HH:mm:ss" },
+        { name: 'lv_laiks', type: ['null', { type: 'long', logicalType: 'timestamp-millis' }], format: 'dd.MM.yyyy HH:mm:ss' },
+      ],
+    });
+    expect(fields).toEqual([
+      { name: 'iso', type: 'date' },
+      { name: 'lv', type: 'date', format: '%d.%m.%Y.' },
+      { name: 'laiks', type: 'datetime', format: 'any' },
+      { name: 'lv_laiks', type: 'datetime', format: '%d.%m.%Y %H:%M:%S' },
+    ]);
+  });
+
+  it('constrains enumerated strings', () => {
+    const { fields } = avroRecordToTableSchema({
+      fields: [
+        { name: 'statuss', type: { type: 'enum', name: 'statuss_values', symbols: ['aktivs', 'slegts'] } },
+        { name: 'pilseta', type: ['null', { type: 'string', 'x-enum': ['Ogre', 'Rīga'] }] },
+      ],
+    });
+    expect(fields).toEqual([
+      { name: 'statuss', type: 'string', constraints: { enum: ['aktivs', 'slegts'] } },
+      { name: 'pilseta', type: 'string', constraints: { enum: ['Ogre', 'Rīga'] } },
+    ]);
+  });
+
+  it('has no fields for a record without them', () => {
+    expect(avroRecordToTableSchema({ type: 'record' }).fields).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { NULLS } from '../schema/values';
+
+/**
+ * Frictionless Table Schemas of the Avro records of tabular distributions, see
+ * https://specs.frictionlessdata.io/table-schema/
+ */
+
+type JsonObject = Record<string, unknown>;
+
+export type TableSchemaField = {
+  name: string;
+  type: string;
+  format?: string;
+  description?: string;
+  decimalChar?: string;
+  constraints?: { enum?: string[] };
+};
+
+export type TableSchema = {
+  fields: TableSchemaField[];
+  missingValues: string[];
+};
+
+/** Date patterns of the probes, e.g. `dd.MM.yyyy`, as the strptime patterns of Table Schema */
+const PATTERN_TOKENS: [RegExp, string][] = [
+  [/yyyy/g, '%Y'],
+  [/MM/g, '%m'],
+  [/dd/g, '%d'],
+  [/HH/g, '%H'],
+  [/mm/g, '%M'],
+  [/ss/g, '%S'],
+  [/'/g, ''],
+];
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function dateFormat(type: string, pattern: unknown): string | undefined {
+  if (typeof pattern !== 'string' || pattern === 'yyyy-MM-dd') {
+    return undefined;
+  } else if (type === 'datetime' && pattern.startsWith('yyyy-MM-dd')) {
+    // ISO timestamps of the probes may or may not have seconds and a time zone
+    return 'any';
+  }
+  return PATTERN_TOKENS.reduce((result, [token, replacement]) => result.replace(token, replacement), pattern);
+}
+
+function fieldType(type: unknown): Pick<TableSchemaField, 'type' | 'constraints'> {
+  if (Array.isArray(type)) {
+    const members = type.filter(member => member !== 'null');
+    return members.length === 1 ? fieldType(members[0]) : { type: 'any' };
+  }
+  if (isObject(type)) {
+    if (type.logicalType === 'date') {
+      return { type: 'date' };
+    } else if (type.logicalType === 'timestamp-millis' || type.logicalType === 'timestamp-micros') {
+      return { type: 'datetime' };
+    } else if (type.type === 'enum') {
+      return { type: 'string', constraints: { enum: type.symbols as string[] } };
+    } else if (Array.isArray(type['x-enum'])) {
+      return { type: 'string', constraints: { enum: type['x-enum'] } };
+    }
+    return fieldType(type.type);
+  }
+  switch (type) {
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'int':
+    case 'long':
+      return { type: 'integer' };
+    case 'float':
+    case 'double':
+      return { type: 'number' };
+    case 'string':
+      return { type: 'string' };
+    default:
+      return { type: 'any' };
+  }
+}
+
+/**
+ * The Table Schema of an Avro record: the field types, the date patterns of the probes as formats
+ * and their decimal commas as `decimalChar`, with the values the probes read as missing.
+ */
+export function avroRecordToTableSchema(record: JsonObject): TableSchema {
+  const fields = (Array.isArray(record.fields) ? record.fields : []).filter(isObject).map(field => {
+    const { type, constraints } = fieldType(field.type);
+    const format = type === 'date' || type === 'datetime' ? dateFormat(type, field.format) : undefined;
+    return {
+      name: `${field.name}`,
+      type,
+      ...(format ? { format } : {}),
+      ...(field.doc ? { description: `${field.doc}` } : {}),
+      ...(field.decimal_separator ? { decimalChar: `${field.decimal_separator}` } : {}),
+      ...(constraints ? { constraints } : {}),
+    };
+  });
+  return { fields, missingValues: [...NULLS] };
+}
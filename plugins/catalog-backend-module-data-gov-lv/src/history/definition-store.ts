@@ -0,0 +1,107 @@
+import { PluginDatabaseManager } from '@backstage/backend-common';
+import { Knex } from 'knex';
+import { getMigratedClient } from '../database';
+import { DefinitionChange } from './diff';
+
+export type DefinitionVersion = {
+  id: number;
+  entityRef: string;
+  /** SHA-256 of the type and the normalized definition */
+  hash: string;
+  type: string;
+  /** Only included when a single version is read */
+  definition?: string;
+  /** The changes from the previous version, empty for the first one */
+  changes: DefinitionChange[];
+  breaking: boolean;
+  createdAt: Date;
+};
+
+type DefinitionVersionRow = {
+  id: number;
+  entity_ref: string;
+  hash: string;
+  type: string;
+  definition: string;
+  changes: string;
+  breaking: boolean | number;
+  created_at: Date | string;
+};
+
+type DefinitionVersionListRow = Omit<DefinitionVersionRow, 'definition'>;
+
+const LIST_COLUMNS: (keyof DefinitionVersionListRow)[] = [
+  'id',
+  'entity_ref',
+  'hash',
+  'type',
+  'changes',
+  'breaking',
+  'created_at',
+];
+
+/**
+ * Keeps every distinct spec.definition of the entities in the catalog database.
+ */
+export class DefinitionStore {
+  static async create(database: PluginDatabaseManager): Promise<DefinitionStore> {
+    return new DefinitionStore(await getMigratedClient(database));
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async add(version: Omit<DefinitionVersion, 'id'> & { definition: string }): Promise<void> {
+    await this.db<DefinitionVersionRow>('definition_versions').insert({
+      entity_ref: version.entityRef,
+      hash: version.hash,
+      type: version.type,
+      definition: version.definition,
+      changes: JSON.stringify(version.changes),
+      breaking: version.breaking,
+      created_at: version.createdAt,
+    });
+  }
+
+  /**
+   * The current version of the definition of an entity, with the definition.
+   */
+  async latest(entityRef: string): Promise<DefinitionVersion | undefined> {
+    const row = await this.db<DefinitionVersionRow>('definition_versions')
+      .where({ entity_ref: entityRef })
+      .orderBy('id', 'desc')
+      .first();
+    return row && this.toVersion(row);
+  }
+
+  /**
+   * The versions of the definition of an entity, newest first, without the definitions.
+   */
+  async list(entityRef: string): Promise<DefinitionVersion[]> {
+    const rows = await this.db<DefinitionVersionRow>('definition_versions')
+      .select(LIST_COLUMNS)
+      .where({ entity_ref: entityRef })
+      .orderBy('id', 'desc');
+    return rows.map(row => this.toVersion(row));
+  }
+
+  async get(id: number): Promise<DefinitionVersion | undefined> {
+    const row = await this.db<DefinitionVersionRow>('definition_versions')
+      .where({ id })
+      .first();
+    return row && this.toVersion(row);
+  }
+
+  private toVersion(row: DefinitionVersionListRow & { definition?: string }): DefinitionVersion {
+    return {
+      id: Number(row.id),
+      entityRef: row.entity_ref,
+      hash: row.hash,
+      type: row.type,
+      definition: row.definition,
+      changes: JSON.parse(row.changes),
+      // SQLite returns booleans as 0 and 1
+      breaking: Boolean(row.breaking),
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
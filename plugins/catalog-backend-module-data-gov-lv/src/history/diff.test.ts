@@ -0,0 +1,147 @@
+import { definitionFields, diffDefinitions, normalizeDefinition } from './diff';
+
+function avro(fields: { name: string; type: unknown }[]) {
+  return { type: 'avro', definition: JSON.stringify({ type: 'record', name: 'Row', confidence: 0.9, fields }) };
+}
+
+function openApi(parameters: unknown[]) {
+  return {
+    type: 'openapi',
+    definition: JSON.stringify({ openapi: '3.0.0', paths: { '/vehicles': { get: { parameters } } } }),
+  };
+}
+
+describe('normalizeDefinition', () => {
+  it('drops the inference statistics of Avro and archive definitions', () => {
+    const definition = JSON.stringify({ type: 'record', sample_rows: 100, confidence: 0.9, fields: [] });
+    expect(normalizeDefinition('avro', definition)).toBe('{"type":"record","fields":[]}');
+    expect(normalizeDefinition('json-schema', definition)).toBe(definition);
+    expect(normalizeDefinition('avro', '{not json')).toBe('{not json');
+  });
+});
+
+describe('definitionFields', () => {
+  it('flattens Avro records, including the records of a union', () => {
+    const fields = definitionFields('avro', JSON.stringify([
+      { type: 'record', name: 'Lapa1', fields: [{ name: 'summa', type: ['null', 'double'] }] },
+      {
+        type: 'record',
+        name: 'Lapa2',
+        fields: [
+          { name: 'datums', type: { type: 'int', logicalType: 'date' } },
+          { name: 'adrese', type: { type: 'record', name: 'Adrese', fields: [{ name: 'iela', type: 'string' }] } },
+        ],
+      },
+    ]));
+    expect(Object.fromEntries(fields!)).toEqual({
+      'Lapa1.summa': { type: 'double|null' },
+      'Lapa2.datums': { type: 'int:date' },
+      'Lapa2.adrese': { type: 'record' },
+      'Lapa2.adrese.iela': { type: 'string' },
+    });
+  });
+
+  it('flattens JSON Schema properties and array items', () => {
+    const fields = definitionFields('json-schema', JSON.stringify({
+      type: 'array',
+      items: { type: 'object', properties: { id: { type: 'integer' }, tags: { type: 'array', items: { type: 'string' } } } },
+    }));
+    expect(Object.fromEntries(fields!)).toEqual({
+      '[].id': { type: 'integer' },
+      '[].tags': { type: 'array<string>' },
+    });
+  });
+
+  it('flattens OpenAPI operations, parameters and schemas', () => {
+    const fields = definitionFields('openapi', JSON.stringify({
+      paths: { '/vehicles': { get: { parameters: [{ in: 'query', name: 'regNr', required: true, schema: { type: 'string' } }] } } },
+      components: { schemas: { Vehicle: { properties: { make: { type: 'string' } } } } },
+    }));
+    expect(Object.fromEntries(fields!)).toEqual({
+      'GET /vehicles': { type: 'operation' },
+      'GET /vehicles query:regNr': { type: 'string', required: true },
+      '#Vehicle.make': { type: 'string' },
+    });
+  });
+
+  it('flattens XSD elements and attributes by their path', () => {
+    const fields = definitionFields('xsd', [
+      '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">',
+      '<xs:element name="adrese"><xs:complexType><xs:sequence>',
+      '<xs:element name="iela" type="xs:string" minOccurs="0"/>',
+      '</xs:sequence><xs:attribute name="kods" type="xs:long"/></xs:complexType></xs:element>',
+      '</xs:schema>',
+    ].join(''));
+    expect(Object.fromEntries(fields!)).toEqual({
+      adrese: { type: 'element' },
+      'adrese.iela': { type: 'xs:string[0..1]' },
+      'adrese.@kods': { type: 'xs:long' },
+    });
+  });
+
+  it('flattens the members of an archive and their schemas', () => {
+    const fields = definitionFields('archive', JSON.stringify({
+      members: [
+        { name: 'aw.csv', type: 'csv', schema: { type: 'avro', definition: { type: 'record', fields: [{ name: 'kods', type: 'long' }] } } },
+        { name: 'readme.txt', type: 'text' },
+      ],
+    }));
+    expect(Object.fromEntries(fields!)).toEqual({
+      'aw.csv': { type: 'csv' },
+      'aw.csv:kods': { type: 'long' },
+      'readme.txt': { type: 'text' },
+    });
+  });
+
+  it('has no fields for other types and invalid definitions', () => {
+    expect(definitionFields('graphql', 'type Query { a: Int }')).toBeUndefined();
+    expect(definitionFields('avro', '{not json')).toBeUndefined();
+  });
+});
+
+describe('diffDefinitions', () => {
+  it('finds added, removed and changed fields', () => {
+    const before = avro([{ name: 'kods', type: 'int' }, { name: 'iela', type: 'string' }, { name: 'nr', type: 'string' }]);
+    const after = avro([{ name: 'kods', type: 'long' }, { name: 'iela', type: 'double' }, { name: 'pasta_indekss', type: 'string' }]);
+    expect(diffDefinitions(before, after)).toEqual([
+      { kind: 'type-changed', path: 'kods', from: 'int', to: 'long', breaking: false },
+      { kind: 'type-changed', path: 'iela', from: 'string', to: 'double', breaking: true },
+      { kind: 'removed', path: 'nr', from: 'string', breaking: true },
+      { kind: 'added', path: 'pasta_indekss', to: 'string', breaking: false },
+    ]);
+  });
+
+  it('does not break readers when a field becomes nullable', () => {
+    expect(diffDefinitions(avro([{ name: 'a', type: 'long' }]), avro([{ name: 'a', type: ['null', 'long'] }]))).toEqual([
+      { kind: 'type-changed', path: 'a', from: 'long', to: 'long|null', breaking: false },
+    ]);
+    expect(diffDefinitions(avro([{ name: 'a', type: ['null', 'long'] }]), avro([{ name: 'a', type: 'long' }]))[0].breaking)
+      .toBe(true);
+  });
+
+  it('breaks clients when a required parameter is added', () => {
+    const optional = { in: 'query', name: 'regNr', schema: { type: 'string' } };
+    expect(diffDefinitions(openApi([]), openApi([{ ...optional, required: true }]))).toEqual([
+      { kind: 'added', path: 'GET /vehicles query:regNr', to: 'string, required', breaking: true },
+    ]);
+    expect(diffDefinitions(openApi([optional]), openApi([{ ...optional, required: true }]))).toEqual([
+      { kind: 'type-changed', path: 'GET /vehicles query:regNr', from: 'string', to: 'string, required', breaking: true },
+    ]);
+    expect(diffDefinitions(openApi([{ ...optional, required: true }]), openApi([optional]))[0].breaking).toBe(false);
+  });
+
+  it('has no changes for versions that only differ in the statistics', () => {
+    const before = avro([{ name: 'a', type: 'long' }]);
+    const after = { ...before, definition: before.definition.replace('0.9', '0.5') };
+    expect(diffDefinitions(before, after)).toEqual([]);
+  });
+
+  it('tells that definitions that cannot be compared by fields changed', () => {
+    expect(diffDefinitions({ type: 'graphql', definition: 'a' }, { type: 'graphql', definition: 'b' })).toEqual([
+      { kind: 'changed', path: '', from: 'graphql', to: 'graphql', breaking: false },
+    ]);
+    expect(diffDefinitions(avro([]), { type: 'unknown', definition: '' })).toEqual([
+      { kind: 'changed', path: '', from: 'avro', to: 'unknown', breaking: true },
+    ]);
+  });
+});
@@ -0,0 +1,304 @@
+import sax from 'sax';
+
+/**
+ * Structural comparison of two versions of a spec.definition. Every definition type is flattened
+ * to the paths of its fields (Avro fields, JSON Schema properties, XSD elements, OpenAPI operations
+ * and parameters, archive members) with their types, and the paths are compared.
+ */
+
+export type ChangeKind = 'added' | 'removed' | 'type-changed' | 'changed';
+
+export type DefinitionChange = {
+  /** `changed` when the definition type cannot be compared by its fields */
+  kind: ChangeKind;
+  /** Dotted path of the field, e.g. `amount`, `Sheet1.amount` or `GET /vehicles query:regNr` */
+  path: string;
+  /** The type before, for `removed` and `type-changed` */
+  from?: string;
+  /** The type after, for `added` and `type-changed` */
+  to?: string;
+  /** Whether the existing consumers of the data or clients of the API can break */
+  breaking: boolean;
+};
+
+type FieldShape = {
+  type: string;
+  /** A required input, e.g. an API parameter, breaks the existing clients when added */
+  required?: boolean;
+};
+
+type Fields = Map<string, FieldShape>;
+
+/** Inference statistics of the probes, they change with the data without the structure changing */
+const STATISTICS_KEYS = new Set(['confidence', 'sample_rows']);
+
+/** Avro type promotions, and JSON Schema integer to number, that the readers of the old type accept */
+const PROMOTIONS: Record<string, string[]> = {
+  int: ['long', 'float', 'double'],
+  long: ['float', 'double'],
+  float: ['double'],
+  string: ['bytes'],
+  bytes: ['string'],
+  integer: ['number'],
+};
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The definition without the inference statistics, versions that only differ in them are the same.
+ */
+export function normalizeDefinition(type: string, definition: string): string {
+  if (type !== 'avro' && type !== 'archive') {
+    return definition;
+  }
+  try {
+    return JSON.stringify(JSON.parse(definition), (key, value) => (STATISTICS_KEYS.has(key) ? undefined : value));
+  } catch {
+    return definition;
+  }
+}
+
+function avroType(type: unknown): string {
+  if (typeof type === 'string') {
+    return type;
+  } else if (Array.isArray(type)) {
+    return type.map(avroType).sort().join('|');
+  } else if (isObject(type)) {
+    if (type.logicalType) {
+      return `${type.type}:${type.logicalType}`;
+    } else if (type.type === 'array') {
+      return `array<${avroType(type.items)}>`;
+    } else if (type.type === 'map') {
+      return `map<${avroType(type.values)}>`;
+    } else if (type.type === 'enum') {
+      return `enum(${(type.symbols as string[] ?? []).join(',')})`;
+    } else if (type.type === 'record' || type.type === 'fixed') {
+      return `${type.type}`;
+    }
+    return avroType(type.type);
+  }
+  return 'unknown';
+}
+
+function avroFields(schema: unknown, prefix: string, fields: Fields): void {
+  if (Array.isArray(schema)) {
+    // A union of records, e.g. one per sheet of a workbook
+    for (const member of schema) {
+      if (isObject(member) && member.type === 'record') {
+        avroFields(member, `${prefix}${member.name}.`, fields);
+      }
+    }
+  } else if (isObject(schema)) {
+    if (schema.type === 'record' && Array.isArray(schema.fields)) {
+      for (const field of schema.fields.filter(isObject)) {
+        const path = `${prefix}${field.name}`;
+        fields.set(path, { type: avroType(field.type) });
+        avroFields(field.type, `${path}.`, fields);
+      }
+    } else if (schema.type === 'array') {
+      avroFields(schema.items, prefix, fields);
+    } else if (isObject(schema.type) || Array.isArray(schema.type)) {
+      avroFields(schema.type, prefix, fields);
+    }
+  }
+}
+
+function jsonSchemaType(schema: JsonObject): string {
+  if (Array.isArray(schema.type)) {
+    return [...schema.type].sort().join('|');
+  } else if (schema.type) {
+    return schema.type === 'array' && isObject(schema.items) ? `array<${jsonSchemaType(schema.items)}>` : `${schema.type}`;
+  } else if (schema.$ref) {
+    return `${schema.$ref}`;
+  } else if (schema.properties) {
+    return 'object';
+  }
+  return 'any';
+}
+
+function jsonSchemaFields(schema: unknown, prefix: string, fields: Fields): void {
+  if (!isObject(schema)) {
+    return;
+  }
+  if (isObject(schema.properties)) {
+    for (const [name, property] of Object.entries(schema.properties)) {
+      if (isObject(property)) {
+        const path = `${prefix}${name}`;
+        fields.set(path, { type: jsonSchemaType(property) });
+        jsonSchemaFields(property, `${path}.`, fields);
+      }
+    }
+  }
+  if (isObject(schema.items)) {
+    jsonSchemaFields(schema.items, `${prefix}[].`, fields);
+  }
+}
+
+/**
+ * XSD, and WSDL with its embedded schemas: the named elements, attributes, types and operations
+ * by their path of names, so the same name in different parents is a different field.
+ */
+function xmlFields(definition: string): Fields {
+  const fields: Fields = new Map();
+  const named = new Set(['element', 'attribute', 'complexType', 'simpleType', 'portType', 'binding', 'operation', 'message', 'part']);
+  const stack: (string | undefined)[] = [];
+  const parser = sax.parser(true, {});
+  parser.onopentag = tag => {
+    const localName = tag.name.slice(tag.name.indexOf(':') + 1);
+    const attributes = tag.attributes as Record<string, string>;
+    const name = named.has(localName) ? attributes.name ?? attributes.ref : undefined;
+    stack.push(name && (localName === 'attribute' ? `@${name}` : name));
+    if (name) {
+      const path = stack.filter(part => part !== undefined).join('.');
+      const occurs = attributes.minOccurs !== undefined || attributes.maxOccurs !== undefined
+        ? `[${attributes.minOccurs ?? 1}..${attributes.maxOccurs ?? 1}]`
+        : '';
+      const type = attributes.type ?? attributes.element ?? (attributes.ref ? 'ref' : localName);
+      fields.set(path, { type: `${type}${occurs}` });
+    }
+  };
+  parser.onclosetag = () => {
+    stack.pop();
+  };
+  parser.write(definition).close();
+  return fields;
+}
+
+/**
+ * OpenAPI and Swagger 2.0: the operations with their parameters, and the properties of the named schemas.
+ */
+function openApiFields(document: JsonObject): Fields {
+  const fields: Fields = new Map();
+  for (const [path, item] of Object.entries(isObject(document.paths) ? document.paths : {})) {
+    if (!isObject(item)) {
+      continue;
+    }
+    for (const method of HTTP_METHODS.filter(m => isObject(item[m]))) {
+      const operation = item[method] as JsonObject;
+      const operationPath = `${method.toUpperCase()} ${path}`;
+      fields.set(operationPath, { type: 'operation' });
+      const parameters = [
+        ...(Array.isArray(item.parameters) ? item.parameters : []),
+        ...(Array.isArray(operation.parameters) ? operation.parameters : []),
+      ].filter(isObject);
+      for (const parameter of parameters) {
+        const schema = isObject(parameter.schema) ? parameter.schema : parameter;
+        fields.set(`${operationPath} ${parameter.in}:${parameter.name ?? parameter.$ref}`, {
+          type: jsonSchemaType(schema),
+          required: parameter.required === true,
+        });
+      }
+    }
+  }
+
+  const components = isObject(document.components) ? document.components : {};
+  const schemas = isObject(components.schemas) ? components.schemas : document.definitions;
+  for (const [name, schema] of Object.entries(isObject(schemas) ? schemas : {})) {
+    jsonSchemaFields(schema, `#${name}.`, fields);
+  }
+  return fields;
+}
+
+function archiveFields(definition: JsonObject): Fields {
+  const fields: Fields = new Map();
+  for (const member of Array.isArray(definition.members) ? definition.members.filter(isObject) : []) {
+    fields.set(`${member.name}`, { type: `${member.type}` });
+    const schema = isObject(member.schema) ? member.schema : undefined;
+    if (schema?.type === 'avro') {
+      avroFields(schema.definition, `${member.name}:`, fields);
+    } else if (schema?.type === 'json-schema') {
+      jsonSchemaFields(schema.definition, `${member.name}:`, fields);
+    }
+  }
+  return fields;
+}
+
+/**
+ * The fields of a definition, undefined when its type cannot be compared by fields or it does not parse.
+ */
+export function definitionFields(type: string, definition: string): Fields | undefined {
+  try {
+    switch (type.toLowerCase()) {
+      case 'avro': {
+        const fields: Fields = new Map();
+        avroFields(JSON.parse(definition), '', fields);
+        return fields;
+      }
+      case 'json-schema': {
+        const fields: Fields = new Map();
+        jsonSchemaFields(JSON.parse(definition), '', fields);
+        return fields;
+      }
+      case 'archive':
+        return archiveFields(JSON.parse(definition));
+      case 'openapi':
+      case 'swagger':
+        return openApiFields(JSON.parse(definition));
+      case 'xsd':
+      case 'wsdl':
+        // api.viss.gov.lv has the generated OpenAPI document as the definition of SOAP APIs too
+        return definition.trimStart().startsWith('{') ? openApiFields(JSON.parse(definition)) : xmlFields(definition);
+      default:
+        return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether every member of the old type is in the new type or promotes to one of its members,
+ * e.g. `long` to `long|null` or `int` to `double`.
+ */
+function isWidening(from: string, to: string): boolean {
+  const toTypes = new Set(to.split('|'));
+  return from.split('|').every(type => toTypes.has(type) || (PROMOTIONS[type] ?? []).some(promoted => toTypes.has(promoted)));
+}
+
+function describe(field: FieldShape): string {
+  return field.required ? `${field.type}, required` : field.type;
+}
+
+/**
+ * The changes from one version of a definition to the next. When either version cannot be
+ * compared by fields, a single `changed` change tells that the definition changed, as breaking
+ * when the type of the definition changed.
+ */
+export function diffDefinitions(
+  before: { type: string; definition: string },
+  after: { type: string; definition: string },
+): DefinitionChange[] {
+  const beforeFields = before.type === after.type ? definitionFields(before.type, before.definition) : undefined;
+  const afterFields = beforeFields && definitionFields(after.type, after.definition);
+  if (!beforeFields || !afterFields) {
+    return [{ kind: 'changed', path: '', from: before.type, to: after.type, breaking: before.type !== after.type }];
+  }
+
+  const changes: DefinitionChange[] = [];
+  for (const [path, field] of beforeFields) {
+    const next = afterFields.get(path);
+    if (!next) {
+      changes.push({ kind: 'removed', path, from: describe(field), breaking: true });
+    } else if (next.type !== field.type || Boolean(next.required) !== Boolean(field.required)) {
+      changes.push({
+        kind: 'type-changed',
+        path,
+        from: describe(field),
+        to: describe(next),
+        breaking: !isWidening(field.type, next.type) || (next.required === true && !field.required),
+      });
+    }
+  }
+  for (const [path, field] of afterFields) {
+    if (!beforeFields.has(path)) {
+      changes.push({ kind: 'added', path, to: describe(field), breaking: field.required === true });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,7 @@
+export { diffDefinitions, normalizeDefinition } from './diff';
+export type { ChangeKind, DefinitionChange } from './diff';
+export { DefinitionStore } from './definition-store';
+export type { DefinitionVersion } from './definition-store';
+export { DefinitionHistoryProcessor } from './processor';
+export { createDefinitionsRouter } from './router';
+export type { DefinitionsRouterOptions } from './router';
@@ -0,0 +1,46 @@
+import { Entity, stringifyEntityRef } from '@backstage/catalog-model';
+import { CatalogProcessor } from '@backstage/plugin-catalog-node';
+import { createHash } from 'crypto';
+import { DefinitionStore } from './definition-store';
+import { diffDefinitions, normalizeDefinition } from './diff';
+
+/**
+ * Records a new version in the definition history whenever the spec.definition of a Distribution
+ * or an API differs from the latest recorded one, with the changes classified against it.
+ */
+export class DefinitionHistoryProcessor implements CatalogProcessor {
+  constructor(private readonly definitionStore: DefinitionStore) {}
+
+  getProcessorName(): string {
+    return 'DefinitionHistoryProcessor';
+  }
+
+  // After the placeholders, e.g. $text, of the definition have been resolved
+  async postProcessEntity(entity: Entity): Promise<Entity> {
+    const spec = entity.spec;
+    if ((entity.kind !== 'Distribution' && entity.kind !== 'API') || typeof spec?.type !== 'string' || typeof spec.definition !== 'string') {
+      return entity;
+    }
+
+    const entityRef = stringifyEntityRef(entity);
+    const current = { type: spec.type, definition: spec.definition };
+    const hash = createHash('sha256')
+      .update(`${current.type}\n${normalizeDefinition(current.type, current.definition)}`)
+      .digest('hex');
+    const latest = await this.definitionStore.latest(entityRef);
+    if (latest?.hash === hash) {
+      return entity;
+    }
+
+    const changes = latest ? diffDefinitions({ type: latest.type, definition: latest.definition! }, current) : [];
+    await this.definitionStore.add({
+      entityRef,
+      hash,
+      ...current,
+      changes,
+      breaking: changes.some(change => change.breaking),
+      createdAt: new Date(),
+    });
+    return entity;
+  }
+}
@@ -0,0 +1,38 @@
+import { errorHandler } from '@backstage/backend-common';
+import express from 'express';
+import Router from 'express-promise-router';
+import { DefinitionStore } from './definition-store';
+
+export type DefinitionsRouterOptions = {
+  definitionStore: DefinitionStore;
+};
+
+/**
+ * `GET /definitions?entityRef=...` lists the definition versions of an entity with their changes,
+ * `GET /definitions/:id` returns one version with its definition.
+ */
+export async function createDefinitionsRouter(options: DefinitionsRouterOptions): Promise<express.Router> {
+  const router = Router();
+
+  router.get('/definitions', async (request, response) => {
+    const { entityRef } = request.query;
+    if (typeof entityRef !== 'string') {
+      response.status(400).json({ error: 'entityRef is required' });
+      return;
+    }
+    response.json({ items: await options.definitionStore.list(entityRef) });
+  });
+
+  router.get('/definitions/:id', async (request, response) => {
+    const id = Number(request.params.id);
+    const version = Number.isInteger(id) ? await options.definitionStore.get(id) : undefined;
+    if (!version) {
+      response.status(404).json({ error: `No definition version ${request.params.id}` });
+      return;
+    }
+    response.json(version);
+  });
+
+  router.use(errorHandler());
+  return router;
+}
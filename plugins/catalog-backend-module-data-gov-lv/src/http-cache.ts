@@ -0,0 +1,85 @@
+import { PluginDatabaseManager } from '@backstage/backend-common';
+import { createHash } from 'crypto';
+import { Knex } from 'knex';
+import { getMigratedClient } from './database';
+import { SchemaInfo } from './types';
+
+type HttpCacheRow = {
+  url_hash: string;
+  url: string;
+  etag: string | null;
+  last_modified: string | null;
+  schema_info: string;
+  fetched_at: Date;
+};
+
+/**
+ * Caches the SchemaInfo inferred from a resource per URL and ETag/Last-Modified,
+ * so that unchanged files are answered with 304 Not Modified instead of being downloaded again.
+ * Shared by all providers, it lives in the catalog database.
+ */
+export class HttpCache {
+  static async create(database: PluginDatabaseManager): Promise<HttpCache> {
+    return new HttpCache(await getMigratedClient(database));
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  /**
+   * Makes a conditional request for the URL. On 304 the cached SchemaInfo is returned,
+   * on 200 (or 206 for range requests) the response is passed to `infer` and the result cached when the server sent validators.
+   */
+  async probe(
+    url: string,
+    fetchUrl: (headers: Record<string, string>) => Promise<Response>,
+    infer: (response: Response) => Promise<SchemaInfo | undefined>,
+  ): Promise<SchemaInfo | undefined> {
+    const urlHash = createHash('sha256').update(url).digest('hex');
+    const cached = await this.db<HttpCacheRow>('http_cache')
+      .where({ url_hash: urlHash })
+      .first();
+
+    const headers: Record<string, string> = {};
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.last_modified) {
+      headers['If-Modified-Since'] = cached.last_modified;
+    }
+
+    const response = await fetchUrl(headers);
+    if (response.status === 304 && cached) {
+      await response.body?.cancel();
+      return JSON.parse(cached.schema_info);
+    } else if (response.status !== 200 && response.status !== 206) {
+      const responseText = await response.text();
+      if (response.status !== 404) {
+        console.error(`Resource: ${url} returned ${response.status} - ${response.statusText}`);
+        console.error(`${responseText}`);
+      }
+      return undefined;
+    }
+
+    const etag = response.headers.get('ETag');
+    const lastModified = response.headers.get('Last-Modified');
+    const schemaInfo = await infer(response);
+    if (schemaInfo && (etag || lastModified)) {
+      await this.db<HttpCacheRow>('http_cache')
+        .insert({
+          url_hash: urlHash,
+          url,
+          etag,
+          last_modified: lastModified,
+          schema_info: JSON.stringify(schemaInfo),
+          fetched_at: new Date(),
+        })
+        .onConflict('url_hash')
+        .merge();
+    } else if (cached) {
+      await this.db<HttpCacheRow>('http_cache')
+        .where({ url_hash: urlHash })
+        .delete();
+    }
+    return schemaInfo;
+  }
+}
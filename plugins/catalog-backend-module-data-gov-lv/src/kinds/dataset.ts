@@ -0,0 +1,30 @@
+import { Entity, entityKindSchemaValidator, KindValidator } from '@backstage/catalog-model';
+import schema from './Dataset.v1alpha1.schema.json';
+
+export const DATASET_API_VERSION = 'data.gov.lv/v1alpha1';
+
+/**
+ * A dataset of an open data portal, see `Dataset.v1alpha1.schema.json`.
+ */
+export interface DatasetEntityV1alpha1 extends Entity {
+  apiVersion: typeof DATASET_API_VERSION;
+  kind: 'Dataset';
+  spec: {
+    owner: string;
+    lifecycle: string;
+    system?: string;
+    groups?: string[];
+  };
+}
+
+const validator = entityKindSchemaValidator<DatasetEntityV1alpha1>(schema);
+
+export const datasetEntityV1alpha1Validator: KindValidator = {
+  async check(data: Entity) {
+    return validator(data) === data;
+  },
+};
+
+export function isDatasetEntity(entity: Entity): entity is DatasetEntityV1alpha1 {
+  return entity.kind === 'Dataset';
+}
@@ -0,0 +1,35 @@
+import { Entity, entityKindSchemaValidator, KindValidator } from '@backstage/catalog-model';
+import { DATASET_API_VERSION } from './dataset';
+import schema from './Distribution.v1alpha1.schema.json';
+
+/**
+ * A file or service of a dataset, see `Distribution.v1alpha1.schema.json`.
+ * `type` and `definition` are those of an API entity, so the API docs widgets can render the definition.
+ */
+export interface DistributionEntityV1alpha1 extends Entity {
+  apiVersion: typeof DATASET_API_VERSION;
+  kind: 'Distribution';
+  spec: {
+    type: string;
+    lifecycle: string;
+    owner: string;
+    dataset: string;
+    url?: string;
+    format?: string;
+    definition: string;
+    startsWithBom?: boolean;
+    charset?: string;
+  };
+}
+
+const validator = entityKindSchemaValidator<DistributionEntityV1alpha1>(schema);
+
+export const distributionEntityV1alpha1Validator: KindValidator = {
+  async check(data: Entity) {
+    return validator(data) === data;
+  },
+};
+
+export function isDistributionEntity(entity: Entity): entity is DistributionEntityV1alpha1 {
+  return entity.kind === 'Distribution';
+}
@@ -0,0 +1,3 @@
+export * from './dataset';
+export * from './distribution';
+export { DatasetEntitiesProcessor } from './processor';
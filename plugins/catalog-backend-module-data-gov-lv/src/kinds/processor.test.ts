@@ -0,0 +1,33 @@
+import { Entity } from '@backstage/catalog-model';
+import { DatasetEntitiesProcessor } from './processor';
+
+function distribution(charset: string): Entity {
+  return {
+    apiVersion: 'data.gov.lv/v1alpha1',
+    kind: 'Distribution',
+    metadata: { name: 'kadastrs-csv', namespace: 'data-gov-lv' },
+    spec: {
+      type: 'avro',
+      lifecycle: 'production',
+      owner: 'group:vzd',
+      dataset: 'dataset:data-gov-lv/kadastrs',
+      definition: '{}',
+      charset,
+    },
+  };
+}
+
+describe('DatasetEntitiesProcessor', () => {
+  const processor = new DatasetEntitiesProcessor();
+
+  it('keeps a charset that can be decoded', async () => {
+    const entity = distribution('windows-1257');
+    expect(await processor.preProcessEntity(entity)).toBe(entity);
+  });
+
+  it('leaves an unknown charset unset and accepts the distribution', async () => {
+    const entity = await processor.preProcessEntity(distribution('baltic'));
+    expect(entity.spec).not.toHaveProperty('charset');
+    expect(await processor.validateEntityKind(entity)).toBe(true);
+  });
+});
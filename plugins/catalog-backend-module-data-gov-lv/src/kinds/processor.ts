@@ -0,0 +1,86 @@
+import {
+  Entity,
+  getCompoundEntityRef,
+  parseEntityRef,
+  RELATION_HAS_MEMBER,
+  RELATION_HAS_PART,
+  RELATION_MEMBER_OF,
+  RELATION_OWNED_BY,
+  RELATION_OWNER_OF,
+  RELATION_PART_OF,
+} from '@backstage/catalog-model';
+import { LocationSpec } from '@backstage/plugin-catalog-common';
+import {
+  CatalogProcessor,
+  CatalogProcessorEmit,
+  processingResult,
+} from '@backstage/plugin-catalog-node';
+import { isDecodableCharset } from '../charset';
+import { datasetEntityV1alpha1Validator, isDatasetEntity } from './dataset';
+import { distributionEntityV1alpha1Validator, isDistributionEntity } from './distribution';
+
+/**
+ * Validates the Dataset and Distribution kinds and emits their relations,
+ * like the BuiltinKindsEntityProcessor does for the built-in kinds.
+ */
+export class DatasetEntitiesProcessor implements CatalogProcessor {
+  private readonly validators = [
+    datasetEntityV1alpha1Validator,
+    distributionEntityV1alpha1Validator,
+  ];
+
+  getProcessorName(): string {
+    return 'DatasetEntitiesProcessor';
+  }
+
+  /**
+   * Leaves the charset of a Distribution unset when it is not an encoding that TextDecoder knows,
+   * rather than failing the entity over it.
+   */
+  async preProcessEntity(entity: Entity): Promise<Entity> {
+    if (!isDistributionEntity(entity) || !entity.spec.charset || isDecodableCharset(entity.spec.charset)) {
+      return entity;
+    }
+    const { charset: _charset, ...spec } = entity.spec;
+    return { ...entity, spec };
+  }
+
+  async validateEntityKind(entity: Entity): Promise<boolean> {
+    for (const validator of this.validators) {
+      if (await validator.check(entity)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async postProcessEntity(entity: Entity, _location: LocationSpec, emit: CatalogProcessorEmit): Promise<Entity> {
+    const selfRef = getCompoundEntityRef(entity);
+
+    function doEmit(
+      targets: string | string[] | undefined,
+      context: { defaultKind?: string; defaultNamespace: string },
+      outgoingRelation: string,
+      incomingRelation: string,
+    ): void {
+      if (!targets) {
+        return;
+      }
+      for (const target of [targets].flat()) {
+        const targetRef = parseEntityRef(target, context);
+        emit(processingResult.relation({ source: selfRef, type: outgoingRelation, target: targetRef }));
+        emit(processingResult.relation({ source: targetRef, type: incomingRelation, target: selfRef }));
+      }
+    }
+
+    if (isDatasetEntity(entity)) {
+      doEmit(entity.spec.owner, { defaultKind: 'Group', defaultNamespace: selfRef.namespace }, RELATION_OWNED_BY, RELATION_OWNER_OF);
+      doEmit(entity.spec.system, { defaultKind: 'System', defaultNamespace: selfRef.namespace }, RELATION_PART_OF, RELATION_HAS_PART);
+      doEmit(entity.spec.groups, { defaultKind: 'Group', defaultNamespace: selfRef.namespace }, RELATION_MEMBER_OF, RELATION_HAS_MEMBER);
+    } else if (isDistributionEntity(entity)) {
+      doEmit(entity.spec.owner, { defaultKind: 'Group', defaultNamespace: selfRef.namespace }, RELATION_OWNED_BY, RELATION_OWNER_OF);
+      doEmit(entity.spec.dataset, { defaultKind: 'Dataset', defaultNamespace: selfRef.namespace }, RELATION_PART_OF, RELATION_HAS_PART);
+    }
+    return entity;
+  }
+}
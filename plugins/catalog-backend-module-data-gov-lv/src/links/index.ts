@@ -0,0 +1,7 @@
+export { LinkChecker, ENDPOINT_LINK_TYPE } from './link-checker';
+export type { LinkCheckerOptions } from './link-checker';
+export { LinkStore } from './link-store';
+export type { LinkCheck, LinkType } from './link-store';
+export { LinkHealthProcessor, ANNOTATION_LINK_HEALTH, ANNOTATION_LINK_CHECKED_AT, linkHealth } from './processor';
+export { createLinksRouter } from './router';
+export type { LinksRouterOptions } from './router';
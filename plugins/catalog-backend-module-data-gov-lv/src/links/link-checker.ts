@@ -0,0 +1,142 @@
+import { TokenManager } from '@backstage/backend-common';
+import { TaskScheduleDefinition } from '@backstage/backend-tasks';
+import { CatalogApi } from '@backstage/catalog-client';
+import { Entity, RELATION_OWNED_BY, stringifyEntityRef } from '@backstage/catalog-model';
+import { Config } from '@backstage/config';
+import { durationToMilliseconds } from '@backstage/types';
+import PQueue from 'p-queue';
+import { LinkCheckerConfig, readLinkCheckerConfig } from '../config';
+import { isDistributionEntity } from '../kinds';
+import { LinkCheck, LinkStore, LinkType } from './link-store';
+
+/** Links of an entity with this `type` are endpoints of a service, e.g. the environments of an API */
+export const ENDPOINT_LINK_TYPE = 'endpoint';
+
+const MAX_REDIRECTS = 5;
+
+export type LinkCheckerOptions = {
+  catalogApi: CatalogApi;
+  tokenManager: TokenManager;
+  linkStore: LinkStore;
+};
+
+type Link = {
+  entity: Entity;
+  type: LinkType;
+  url: string;
+};
+
+/**
+ * Checks the data file URLs of the Distributions and the endpoint links of the APIs,
+ * and records the results in the link history.
+ */
+export class LinkChecker {
+  private readonly catalogApi: CatalogApi;
+  private readonly tokenManager: TokenManager;
+  private readonly linkStore: LinkStore;
+  private readonly timeout: number;
+  private readonly historyAge: number;
+  private readonly pqueue: PQueue;
+
+  readonly schedule: TaskScheduleDefinition;
+
+  static fromConfig(config: Config, options: LinkCheckerOptions): LinkChecker {
+    return new LinkChecker(readLinkCheckerConfig(config), options);
+  }
+
+  constructor(config: LinkCheckerConfig, options: LinkCheckerOptions) {
+    this.catalogApi = options.catalogApi;
+    this.tokenManager = options.tokenManager;
+    this.linkStore = options.linkStore;
+    this.timeout = durationToMilliseconds(config.timeout);
+    this.historyAge = durationToMilliseconds(config.historyAge);
+    this.schedule = config.schedule;
+    this.pqueue = new PQueue({ concurrency: config.concurrency });
+  }
+
+  async run(): Promise<void> {
+    const links = await this.getLinks();
+    console.log(`Links:\t${links.length}`);
+
+    const checks = await Promise.all(links.map(link => this.pqueue.add(() => this.check(link))));
+    await this.linkStore.add(checks);
+    await this.linkStore.deleteBefore(new Date(Date.now() - this.historyAge));
+
+    console.log(`Broken links:\t${checks.filter(check => check.broken).length}\n`);
+  }
+
+  async getLinks(): Promise<Link[]> {
+    const { token } = await this.tokenManager.getToken();
+    const { items } = await this.catalogApi.getEntities({
+      filter: [{ kind: 'Distribution' }, { kind: 'API' }],
+      fields: ['apiVersion', 'kind', 'metadata', 'spec.url', 'relations'],
+    }, { token });
+
+    return items.flatMap((entity): Link[] => {
+      if (isDistributionEntity(entity)) {
+        return entity.spec?.url ? [{ entity, type: 'file', url: entity.spec.url }] : [];
+      }
+      return (entity.metadata.links ?? [])
+        .filter(link => link.type === ENDPOINT_LINK_TYPE)
+        .map(link => ({ entity, type: 'endpoint', url: link.url }));
+    });
+  }
+
+  /**
+   * Requests the URL with HEAD, or with a one byte GET when HEAD is not allowed, following redirects.
+   * A file is broken unless it ends with a 2xx response. An endpoint is broken on a 5xx or a failed request,
+   * since an API answers its base URL with 401, 404 or 405 as well.
+   */
+  async check(link: Link): Promise<LinkCheck> {
+    const owner = link.entity.relations?.find(relation => relation.type === RELATION_OWNED_BY);
+    const result: LinkCheck = {
+      entityRef: stringifyEntityRef(link.entity),
+      ownerRef: owner?.targetRef,
+      linkType: link.type,
+      url: link.url,
+      broken: true,
+      checkedAt: new Date(),
+    };
+
+    const start = Date.now();
+    try {
+      let url = link.url;
+      let response = await this.request(url);
+      for (let redirects = 0; isRedirect(response.status) && redirects < MAX_REDIRECTS; redirects++) {
+        const location = response.headers.get('Location');
+        if (!location) {
+          break;
+        }
+        url = new URL(location, url).toString();
+        response = await this.request(url);
+      }
+      result.status = response.status;
+      result.redirectUrl = url !== link.url ? url : undefined;
+      result.responseTime = Date.now() - start;
+      result.broken = link.type === 'file'
+        ? response.status < 200 || response.status >= 300
+        : response.status >= 500;
+    } catch (error) {
+      // fetch rejects with a TypeError whose cause is the network error
+      const cause = (error as { cause?: unknown }).cause;
+      result.error = `${cause ?? error}`;
+    }
+    return result;
+  }
+
+  private async request(url: string): Promise<Response> {
+    const init = { redirect: 'manual' as const, signal: AbortSignal.timeout(this.timeout) };
+    const response = await fetch(url, { ...init, method: 'HEAD' });
+    if (response.status !== 403 && response.status !== 405 && response.status !== 501) {
+      return response;
+    }
+    // Some servers only answer GET
+    const getResponse = await fetch(url, { ...init, headers: { Range: 'bytes=0-0' } });
+    await getResponse.body?.cancel();
+    return getResponse;
+  }
+}
+
+function isRedirect(status: number): boolean {
+  return status >= 300 && status < 400 && status !== 304;
+}
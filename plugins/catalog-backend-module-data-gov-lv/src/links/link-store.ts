@@ -0,0 +1,120 @@
+import { PluginDatabaseManager } from '@backstage/backend-common';
+import { Knex } from 'knex';
+import { getMigratedClient } from '../database';
+
+export type LinkType = 'file' | 'endpoint';
+
+export type LinkCheck = {
+  entityRef: string;
+  ownerRef?: string;
+  linkType: LinkType;
+  url: string;
+  /** The HTTP status after redirects, undefined when the request failed */
+  status?: number;
+  redirectUrl?: string;
+  error?: string;
+  /** Milliseconds until the response headers, with redirects */
+  responseTime?: number;
+  broken: boolean;
+  checkedAt: Date;
+};
+
+type LinkCheckRow = {
+  id: number;
+  entity_ref: string;
+  owner_ref: string | null;
+  link_type: LinkType;
+  url: string;
+  status: number | null;
+  redirect_url: string | null;
+  error: string | null;
+  response_time: number | null;
+  broken: boolean | number;
+  checked_at: Date | string;
+};
+
+/**
+ * Keeps the history of the link checks in the catalog database.
+ */
+export class LinkStore {
+  static async create(database: PluginDatabaseManager): Promise<LinkStore> {
+    return new LinkStore(await getMigratedClient(database));
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async add(checks: LinkCheck[]): Promise<void> {
+    await this.db.batchInsert<Omit<LinkCheckRow, 'id'>>(
+      'link_checks',
+      checks.map(check => ({
+        entity_ref: check.entityRef,
+        owner_ref: check.ownerRef ?? null,
+        link_type: check.linkType,
+        url: check.url,
+        status: check.status ?? null,
+        redirect_url: check.redirectUrl ?? null,
+        error: check.error ?? null,
+        response_time: check.responseTime ?? null,
+        broken: check.broken,
+        checked_at: check.checkedAt,
+      })),
+      100,
+    );
+  }
+
+  /**
+   * The latest check of each URL, of one entity or of all of them.
+   */
+  async latest(filter: { entityRef?: string; ownerRef?: string; broken?: boolean } = {}): Promise<LinkCheck[]> {
+    const latestIds = this.db<LinkCheckRow>('link_checks')
+      .max('id')
+      .groupBy('entity_ref', 'url');
+    if (filter.entityRef) {
+      latestIds.where({ entity_ref: filter.entityRef });
+    }
+
+    const query = this.db<LinkCheckRow>('link_checks')
+      .whereIn('id', latestIds)
+      .orderBy('checked_at', 'desc');
+    if (filter.ownerRef) {
+      query.where({ owner_ref: filter.ownerRef });
+    }
+    if (filter.broken !== undefined) {
+      query.where({ broken: filter.broken });
+    }
+    return (await query).map(row => this.toCheck(row));
+  }
+
+  /**
+   * The checks of a URL of an entity, newest first.
+   */
+  async history(entityRef: string, url: string, limit: number): Promise<LinkCheck[]> {
+    const rows = await this.db<LinkCheckRow>('link_checks')
+      .where({ entity_ref: entityRef, url })
+      .orderBy('id', 'desc')
+      .limit(limit);
+    return rows.map(row => this.toCheck(row));
+  }
+
+  async deleteBefore(date: Date): Promise<void> {
+    await this.db<LinkCheckRow>('link_checks')
+      .where('checked_at', '<', date)
+      .delete();
+  }
+
+  private toCheck(row: LinkCheckRow): LinkCheck {
+    return {
+      entityRef: row.entity_ref,
+      ownerRef: row.owner_ref ?? undefined,
+      linkType: row.link_type,
+      url: row.url,
+      status: row.status ?? undefined,
+      redirectUrl: row.redirect_url ?? undefined,
+      error: row.error ?? undefined,
+      responseTime: row.response_time ?? undefined,
+      // SQLite returns booleans as 0 and 1
+      broken: Boolean(row.broken),
+      checkedAt: new Date(row.checked_at),
+    };
+  }
+}
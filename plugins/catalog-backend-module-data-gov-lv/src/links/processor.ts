@@ -0,0 +1,58 @@
+import { Entity, stringifyEntityRef } from '@backstage/catalog-model';
+import { CatalogProcessor } from '@backstage/plugin-catalog-node';
+import { LinkCheck, LinkStore } from './link-store';
+
+/** `ok`, `redirected` or `broken` by the latest checks of the links of an entity */
+export const ANNOTATION_LINK_HEALTH = 'data.gov.lv/link-health';
+
+/** When the links of an entity were last checked */
+export const ANNOTATION_LINK_CHECKED_AT = 'data.gov.lv/link-checked-at';
+
+/**
+ * The health of the links of an entity by their latest checks: `broken` when any of them is,
+ * `redirected` when any of them redirects, `ok` otherwise.
+ */
+export function linkHealth(checks: LinkCheck[]): 'ok' | 'redirected' | 'broken' {
+  if (checks.some(check => check.broken)) {
+    return 'broken';
+  } else if (checks.some(check => check.redirectUrl)) {
+    return 'redirected';
+  }
+  return 'ok';
+}
+
+/**
+ * Marks the entities with checked links with their health, from the latest checks in the link history.
+ */
+export class LinkHealthProcessor implements CatalogProcessor {
+  constructor(private readonly linkStore: LinkStore) {}
+
+  getProcessorName(): string {
+    return 'LinkHealthProcessor';
+  }
+
+  async preProcessEntity(entity: Entity): Promise<Entity> {
+    if (entity.kind !== 'Distribution' && entity.kind !== 'API') {
+      return entity;
+    }
+
+    const checks = await this.linkStore.latest({ entityRef: stringifyEntityRef(entity) });
+    if (checks.length === 0) {
+      return entity;
+    }
+
+    const checkedAt = Math.max(...checks.map(check => check.checkedAt.getTime()));
+
+    return {
+      ...entity,
+      metadata: {
+        ...entity.metadata,
+        annotations: {
+          ...entity.metadata.annotations,
+          [ANNOTATION_LINK_HEALTH]: linkHealth(checks),
+          [ANNOTATION_LINK_CHECKED_AT]: new Date(checkedAt).toISOString(),
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { errorHandler } from '@backstage/backend-common';
+import express from 'express';
+import Router from 'express-promise-router';
+import { LinkStore } from './link-store';
+
+export type LinksRouterOptions = {
+  linkStore: LinkStore;
+};
+
+/**
+ * `GET /links?broken=true&owner=group:default/vzd` lists the latest check of each link,
+ * `GET /links/history?entityRef=...&url=...` the checks of one link.
+ */
+export async function createLinksRouter(options: LinksRouterOptions): Promise<express.Router> {
+  const router = Router();
+
+  router.get('/links', async (request, response) => {
+    const broken = request.query.broken;
+    const owner = request.query.owner;
+    const checks = await options.linkStore.latest({
+      broken: broken === undefined ? undefined : broken === 'true',
+      ownerRef: typeof owner === 'string' ? owner : undefined,
+    });
+    response.json({ items: checks });
+  });
+
+  router.get('/links/history', async (request, response) => {
+    const { entityRef, url } = request.query;
+    if (typeof entityRef !== 'string' || typeof url !== 'string') {
+      response.status(400).json({ error: 'entityRef and url are required' });
+      return;
+    }
+    response.json({ items: await options.linkStore.history(entityRef, url, 100) });
+  });
+
+  router.use(errorHandler());
+  return router;
+}
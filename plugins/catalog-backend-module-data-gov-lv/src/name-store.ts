@@ -0,0 +1,66 @@
+import { PluginDatabaseManager } from '@backstage/backend-common';
+import { Knex } from 'knex';
+import { getMigratedClient } from './database';
+import { withSuffix } from './names';
+
+type EntityNameRow = {
+  provider_name: string;
+  entity_id: string;
+  name: string;
+};
+
+/**
+ * Keeps the entity names assigned to CKAN resources in the catalog database. A name is derived
+ * from a title once and kept when the title changes, and is not given to another resource
+ * after the resource is deleted.
+ */
+export class CkanNameStore {
+  static async create(database: PluginDatabaseManager): Promise<CkanNameStore> {
+    return new CkanNameStore(await getMigratedClient(database));
+  }
+
+  /** Assignments run one at a time, so that two datasets cannot claim the same name */
+  private lock: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly db: Knex) {}
+
+  /**
+   * The names of the given CKAN ids. A new id gets its candidate name,
+   * with a `-2`, `-3`... suffix when the name is taken.
+   */
+  async assignNames(providerName: string, candidates: Map<string, string>): Promise<Map<string, string>> {
+    const result = this.lock.then(() => this.assign(providerName, candidates));
+    this.lock = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async assign(providerName: string, candidates: Map<string, string>): Promise<Map<string, string>> {
+    return this.db.transaction(async tx => {
+      const rows = await tx<EntityNameRow>('ckan_entity_names')
+        .where({ provider_name: providerName })
+        .whereIn('entity_id', [...candidates.keys()]);
+      const names = new Map(rows.map(row => [row.entity_id, row.name]));
+
+      for (const [id, candidate] of candidates) {
+        if (names.has(id)) {
+          continue;
+        }
+        let name = candidate;
+        for (let suffix = 2; await this.isTaken(tx, providerName, name); suffix++) {
+          name = withSuffix(candidate, suffix);
+        }
+        await tx<EntityNameRow>('ckan_entity_names')
+          .insert({ provider_name: providerName, entity_id: id, name });
+        names.set(id, name);
+      }
+      return names;
+    });
+  }
+
+  private async isTaken(tx: Knex.Transaction, providerName: string, name: string): Promise<boolean> {
+    const row = await tx<EntityNameRow>('ckan_entity_names')
+      .where({ provider_name: providerName, name })
+      .first();
+    return row !== undefined;
+  }
+}
@@ -0,0 +1,50 @@
+import { ckanEntityName, distributionName, MAX_NAME_LENGTH, slugify, withSuffix } from './names';
+
+describe('slugify', () => {
+  it('makes lowercase ASCII words joined by dashes', () => {
+    expect(slugify('Ģeotelpiskie dati (ĶVĒDS)')).toBe('geotelpiskie-dati-kveds');
+    expect(slugify(' -- Ūdens_kvalitāte 2023. gadā -- ')).toBe('udens-kvalitate-2023-gada');
+    expect(slugify('***')).toBe('');
+  });
+});
+
+describe('ckanEntityName', () => {
+  it('keeps valid CKAN names', () => {
+    expect(ckanEntityName('adreses')).toBe('adreses');
+    expect(ckanEntityName('vzd_adreses.2023')).toBe('vzd_adreses.2023');
+  });
+
+  it('cuts long names and ends them with a hash of the full name', () => {
+    const long = `${'valsts-adresu-registra-informacija-'.repeat(2)}2023`;
+    const name = ckanEntityName(long);
+    expect(name).toMatch(/^valsts-adresu-registra-informacija-valsts-adresu-registr-[0-9a-f]{6}$/);
+    expect(name.length).toBeLessThanOrEqual(MAX_NAME_LENGTH);
+    expect(ckanEntityName(long)).toBe(name);
+    expect(ckanEntityName(`${long}-2024`)).not.toBe(name);
+  });
+
+  it('hashes names that are not valid entity names', () => {
+    expect(ckanEntityName('Adreses')).toMatch(/^adreses-[0-9a-f]{6}$/);
+    expect(ckanEntityName('---')).toMatch(/^[0-9a-f]{6}$/);
+  });
+});
+
+describe('distributionName', () => {
+  it('joins the dataset name and the title of the resource', () => {
+    expect(distributionName('adreses', 'AW_CSV.zip')).toBe('adreses-aw-csv-zip');
+    expect(distributionName('adreses', '')).toBe('adreses-resource');
+  });
+
+  it('cuts the title and then the dataset name', () => {
+    const name = distributionName('a'.repeat(60), 'Adrešu reģistra teksta datnes (CSV formātā)');
+    expect(name).toBe(`${'a'.repeat(33)}-adresu-registra-teksta-datnes`);
+    expect(name.length).toBe(MAX_NAME_LENGTH);
+  });
+});
+
+describe('withSuffix', () => {
+  it('adds the suffix within the length limit', () => {
+    expect(withSuffix('adreses', 2)).toBe('adreses-2');
+    expect(withSuffix(`${'a'.repeat(60)}-bcd`, 12)).toBe(`${'a'.repeat(60)}-12`);
+  });
+});
@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+
+/** The CKAN id of the package, resource, organization or group an entity was created from */
+export const ANNOTATION_CKAN_ID = 'data.gov.lv/ckan-id';
+
+/** The CKAN name of the package, organization or group an entity was created from */
+export const ANNOTATION_CKAN_NAME = 'data.gov.lv/ckan-name';
+
+/** Entity names are limited like Kubernetes object names */
+export const MAX_NAME_LENGTH = 63;
+
+/** Characters of the title of a resource kept in the name of its distribution */
+const MAX_TITLE_LENGTH = 30;
+
+const VALID_NAME = /^[a-z0-9]([a-z0-9_.-]*[a-z0-9])?$/;
+
+/**
+ * Lowercase ASCII words joined by dashes, Latvian letters lose their diacritics,
+ * e.g. `Ģeotelpiskie dati (ĶVĒDS)` becomes `geotelpiskie-dati-kveds`.
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function truncate(slug: string, length: number): string {
+  return slug.slice(0, length).replace(/[-_.]+$/, '');
+}
+
+/**
+ * The name for a CKAN name, which may be up to 100 characters long. Longer names are cut
+ * and end with a hash of the full name instead, so that they stay unique and stable.
+ */
+export function ckanEntityName(name: string): string {
+  if (name.length <= MAX_NAME_LENGTH && VALID_NAME.test(name)) {
+    return name;
+  }
+  const hash = createHash('sha1').update(name).digest('hex').slice(0, 6);
+  return [truncate(slugify(name), MAX_NAME_LENGTH - hash.length - 1), hash].filter(Boolean).join('-');
+}
+
+/**
+ * The name for a distribution from the name of its dataset and its own title,
+ * e.g. `adreses-aw-csv-zip`. The dataset part is cut to make room for the title.
+ */
+export function distributionName(dataset: string, title: string): string {
+  const resource = truncate(slugify(title), MAX_TITLE_LENGTH) || 'resource';
+  return [truncate(slugify(dataset), MAX_NAME_LENGTH - resource.length - 1), resource].filter(Boolean).join('-');
+}
+
+/**
+ * The name with a `-2`, `-3`... suffix for a collision, cut to stay within the length limit.
+ */
+export function withSuffix(name: string, suffix: number): string {
+  return `${truncate(name, MAX_NAME_LENGTH - `${suffix}`.length - 1)}-${suffix}`;
+}
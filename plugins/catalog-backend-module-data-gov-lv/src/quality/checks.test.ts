@@ -0,0 +1,111 @@
+import { ANNOTATION_DATA_MODIFIED } from '../freshness/frequency';
+import { DatasetEntityV1alpha1, DistributionEntityV1alpha1 } from '../kinds';
+import { ANNOTATION_LINK_HEALTH } from '../links/processor';
+import {
+  ANNOTATION_QUALITY_FAILED_CHECKS,
+  ANNOTATION_QUALITY_SCORE,
+  QualityCheck,
+  scoreDataset,
+  withQualityScore,
+} from './checks';
+
+const adreses: DatasetEntityV1alpha1 = {
+  apiVersion: 'data.gov.lv/v1alpha1',
+  kind: 'Dataset',
+  metadata: {
+    name: 'adreses',
+    description: 'Valsts adrešu reģistra informācija',
+    labels: { license_id: 'cc-by-4.0', maintainer: 'VZD' },
+    tags: ['adreses'],
+  },
+  spec: { owner: 'group:vzd', lifecycle: 'production' },
+};
+
+const csv: DistributionEntityV1alpha1 = {
+  apiVersion: 'data.gov.lv/v1alpha1',
+  kind: 'Distribution',
+  metadata: { name: 'adreses-aw-csv-zip' },
+  spec: {
+    type: 'avro',
+    lifecycle: 'production',
+    owner: 'group:vzd',
+    dataset: 'dataset:adreses',
+    definition: '{}',
+    startsWithBom: false,
+    charset: 'utf-8',
+  },
+};
+
+describe('scoreDataset', () => {
+  it('passes a complete dataset', () => {
+    expect(scoreDataset(adreses, [csv])).toEqual({ score: 100, failedChecks: [] });
+  });
+
+  it('fails the metadata checks of an empty dataset', () => {
+    const empty = {
+      ...adreses,
+      metadata: { ...adreses.metadata, description: ' ', labels: { license_id: 'notspecified' }, tags: [] },
+    };
+    expect(scoreDataset(empty, [])).toEqual({
+      score: 0,
+      failedChecks: ['description', 'license', 'maintainer', 'tags', 'distributions'],
+    });
+  });
+
+  it('weighs the share of the distributions that pass', () => {
+    const legacy = {
+      ...csv,
+      spec: { ...csv.spec, type: 'unknown', lifecycle: 'deprecated', startsWithBom: true, charset: 'windows-1257' },
+    };
+    // Half of schema, no-bom, utf-8 and active fail, 2.5 of the 13 weights
+    expect(scoreDataset(adreses, [csv, legacy])).toEqual({
+      score: 81,
+      failedChecks: ['schema', 'no-bom', 'utf-8', 'active'],
+    });
+  });
+
+  it('checks the charset of the text distributions only', () => {
+    const zip = { ...csv, spec: { ...csv.spec, type: 'zip', charset: undefined } };
+    expect(scoreDataset(adreses, [csv, zip]).failedChecks).not.toContain('utf-8');
+  });
+
+  it('checks the links of the checked distributions only', () => {
+    const withHealth = (health: string) => ({
+      ...csv,
+      metadata: { ...csv.metadata, annotations: { [ANNOTATION_LINK_HEALTH]: health } },
+    });
+    expect(scoreDataset(adreses, [csv]).failedChecks).toEqual([]);
+    expect(scoreDataset(adreses, [csv, withHealth('redirected')]).failedChecks).toEqual([]);
+    expect(scoreDataset(adreses, [csv, withHealth('broken')]).failedChecks).toEqual(['links']);
+  });
+
+  it('checks the freshness of datasets with a regular frequency', () => {
+    const daily = (modified: string) => ({
+      ...adreses,
+      metadata: {
+        ...adreses.metadata,
+        labels: { ...adreses.metadata.labels, frequency: 'daily' },
+        annotations: { [ANNOTATION_DATA_MODIFIED]: modified },
+      },
+    });
+    expect(scoreDataset(daily(new Date().toISOString()), [csv]).failedChecks).toEqual([]);
+    expect(scoreDataset(daily('2020-01-01'), [csv]).failedChecks).toEqual(['fresh']);
+  });
+
+  it('is 0 when no check applies', () => {
+    const checks: QualityCheck[] = [{ id: 'never', weight: 1, check: () => undefined }];
+    expect(scoreDataset(adreses, [], checks)).toEqual({ score: 0, failedChecks: [] });
+  });
+});
+
+describe('withQualityScore', () => {
+  it('annotates a copy of the dataset with the score and the failed checks', () => {
+    const untagged = { ...adreses, metadata: { ...adreses.metadata, annotations: { 'data.gov.lv/ckan-id': '1' }, tags: [] } };
+    expect(withQualityScore(untagged, [csv]).metadata.annotations).toEqual({
+      'data.gov.lv/ckan-id': '1',
+      [ANNOTATION_QUALITY_SCORE]: '92',
+      [ANNOTATION_QUALITY_FAILED_CHECKS]: 'tags',
+    });
+    expect(untagged.metadata.annotations).toEqual({ 'data.gov.lv/ckan-id': '1' });
+  });
+});
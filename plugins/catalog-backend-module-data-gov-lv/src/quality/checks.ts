@@ -0,0 +1,165 @@
+import { isUtf8 } from '../charset';
+import { DatasetEntityV1alpha1, DistributionEntityV1alpha1 } from '../kinds';
+import { ANNOTATION_LINK_HEALTH } from '../links/processor';
+import { datasetFreshness } from '../freshness/frequency';
+
+/** The quality score of a dataset, 0 to 100 */
+export const ANNOTATION_QUALITY_SCORE = 'data.gov.lv/quality-score';
+
+/** Comma separated ids of the quality checks a dataset fails */
+export const ANNOTATION_QUALITY_FAILED_CHECKS = 'data.gov.lv/quality-failed-checks';
+
+export type QualityCheck = {
+  id: string;
+  /** How much the check counts in the score compared to the others */
+  weight: number;
+  /**
+   * The share of the dataset that passes, from 0 to 1, e.g. the share of its distributions.
+   * Undefined when the check does not apply.
+   */
+  check(dataset: DatasetEntityV1alpha1, distributions: DistributionEntityV1alpha1[]): number | undefined;
+};
+
+export type QualityResult = {
+  score: number;
+  failedChecks: string[];
+};
+
+/** The share of distributions that pass, undefined without distributions */
+function share(
+  distributions: DistributionEntityV1alpha1[],
+  passes: (distribution: DistributionEntityV1alpha1) => boolean,
+): number | undefined {
+  if (distributions.length === 0) {
+    return undefined;
+  }
+  return distributions.filter(passes).length / distributions.length;
+}
+
+export const QUALITY_CHECKS: QualityCheck[] = [
+  {
+    id: 'description',
+    weight: 2,
+    check: dataset => (dataset.metadata.description?.trim() ? 1 : 0),
+  },
+  {
+    id: 'license',
+    weight: 2,
+    // CKAN uses `notspecified` for "License not specified"
+    check: dataset => {
+      const license = dataset.metadata.labels?.license_id;
+      return license && license !== 'notspecified' ? 1 : 0;
+    },
+  },
+  {
+    id: 'maintainer',
+    weight: 1,
+    check: dataset => (dataset.metadata.labels?.maintainer?.trim() ? 1 : 0),
+  },
+  {
+    id: 'tags',
+    weight: 1,
+    check: dataset => (dataset.metadata.tags?.length ? 1 : 0),
+  },
+  {
+    id: 'fresh',
+    weight: 2,
+    check: dataset => {
+      const freshness = datasetFreshness(dataset);
+      return freshness && (freshness.status === 'fresh' ? 1 : 0);
+    },
+  },
+  {
+    id: 'distributions',
+    weight: 2,
+    check: (_dataset, distributions) => (distributions.length > 0 ? 1 : 0),
+  },
+  {
+    id: 'schema',
+    weight: 2,
+    check: (_dataset, distributions) =>
+      share(distributions, distribution => !['unknown', 'error'].includes(distribution.spec.type)),
+  },
+  {
+    id: 'no-bom',
+    weight: 1,
+    check: (_dataset, distributions) => share(distributions, distribution => !distribution.spec.startsWithBom),
+  },
+  {
+    id: 'utf-8',
+    weight: 1,
+    // Only the text distributions, the others have no charset
+    check: (_dataset, distributions) =>
+      share(
+        distributions.filter(distribution => distribution.spec.charset),
+        distribution => isUtf8(distribution.spec.charset!),
+      ),
+  },
+  {
+    id: 'links',
+    weight: 2,
+    // Only the distributions whose links have been checked
+    check: (_dataset, distributions) =>
+      share(
+        distributions.filter(distribution => distribution.metadata.annotations?.[ANNOTATION_LINK_HEALTH]),
+        distribution => distribution.metadata.annotations?.[ANNOTATION_LINK_HEALTH] !== 'broken',
+      ),
+  },
+  {
+    id: 'active',
+    weight: 1,
+    check: (_dataset, distributions) =>
+      share(distributions, distribution => distribution.spec.lifecycle === 'production'),
+  },
+];
+
+/**
+ * Runs the checks on a dataset and its distributions. The score is the weighted share of what passes
+ * among the checks that apply, a check fails unless all of the dataset passes it.
+ */
+export function scoreDataset(
+  dataset: DatasetEntityV1alpha1,
+  distributions: DistributionEntityV1alpha1[],
+  checks: QualityCheck[] = QUALITY_CHECKS,
+): QualityResult {
+  let total = 0;
+  let passed = 0;
+  const failedChecks: string[] = [];
+  for (const check of checks) {
+    const result = check.check(dataset, distributions);
+    if (result === undefined) {
+      continue;
+    }
+    total += check.weight;
+    passed += check.weight * result;
+    if (result < 1) {
+      failedChecks.push(check.id);
+    }
+  }
+  return {
+    score: total === 0 ? 0 : Math.round(passed / total * 100),
+    failedChecks,
+  };
+}
+
+/**
+ * The dataset with its score and failed checks as annotations.
+ */
+export function withQualityScore(
+  dataset: DatasetEntityV1alpha1,
+  distributions: DistributionEntityV1alpha1[],
+  checks: QualityCheck[] = QUALITY_CHECKS,
+): DatasetEntityV1alpha1 {
+  const result = scoreDataset(dataset, distributions, checks);
+  return {
+    ...dataset,
+    metadata: {
+      ...dataset.metadata,
+      annotations: {
+        ...dataset.metadata.annotations,
+        [ANNOTATION_QUALITY_SCORE]: `${result.score}`,
+        [ANNOTATION_QUALITY_FAILED_CHECKS]: result.failedChecks.join(','),
+      },
+    },
+  };
+}
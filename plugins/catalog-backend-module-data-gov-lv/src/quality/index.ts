@@ -0,0 +1,3 @@
+export * from './checks';
+export { DatasetQualityProcessor } from './processor';
+export type { DatasetQualityProcessorOptions } from './processor';
@@ -0,0 +1,77 @@
+import { Entity } from '@backstage/catalog-model';
+import { ANNOTATION_LINK_HEALTH } from '../links/processor';
+import { ANNOTATION_QUALITY_FAILED_CHECKS, ANNOTATION_QUALITY_SCORE } from './checks';
+import { DatasetQualityProcessor } from './processor';
+
+const dataset: Entity = {
+  apiVersion: 'data.gov.lv/v1alpha1',
+  kind: 'Dataset',
+  metadata: {
+    name: 'adreses',
+    namespace: 'data-gov-lv',
+    description: 'Valsts adrešu reģistra informācija',
+    labels: { license_id: 'cc-by-4.0', maintainer: 'VZD' },
+    tags: ['adreses'],
+    annotations: { [ANNOTATION_QUALITY_SCORE]: '100', [ANNOTATION_QUALITY_FAILED_CHECKS]: '' },
+  },
+  spec: { owner: 'group:vzd', lifecycle: 'production' },
+};
+
+function csv(name: string, datasetRef: string, health: string): Entity {
+  return {
+    apiVersion: 'data.gov.lv/v1alpha1',
+    kind: 'Distribution',
+    metadata: { name, namespace: 'data-gov-lv', annotations: { [ANNOTATION_LINK_HEALTH]: health } },
+    spec: {
+      type: 'avro',
+      lifecycle: 'production',
+      owner: 'group:vzd',
+      dataset: datasetRef,
+      definition: '{}',
+      charset: 'utf-8',
+    },
+  };
+}
+
+describe('DatasetQualityProcessor', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('keeps the score of the provider until it has seen a distribution of the dataset', async () => {
+    const processor = new DatasetQualityProcessor();
+    await processor.preProcessEntity(csv('cits', 'dataset:data-gov-lv/cits', 'broken'));
+    expect(await processor.preProcessEntity(dataset)).toBe(dataset);
+  });
+
+  it('scores the dataset again with the distributions it processed', async () => {
+    const processor = new DatasetQualityProcessor();
+    await processor.preProcessEntity(csv('adreses-csv', 'dataset:data-gov-lv/adreses', 'ok'));
+    // A relative ref in the namespace of the distribution
+    await processor.preProcessEntity(csv('adreses-xml', 'adreses', 'broken'));
+
+    const scored = await processor.preProcessEntity(dataset);
+    expect(scored.metadata.annotations).toMatchObject({
+      [ANNOTATION_QUALITY_SCORE]: '93',
+      [ANNOTATION_QUALITY_FAILED_CHECKS]: 'links',
+    });
+  });
+
+  it('forgets a distribution that moved to another dataset or was not processed again', async () => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T00:00:00Z') });
+    const processor = new DatasetQualityProcessor({ maxAge: { hours: 1 } });
+    await processor.preProcessEntity(csv('adreses-csv', 'dataset:data-gov-lv/adreses', 'ok'));
+    await processor.preProcessEntity(csv('adreses-xml', 'dataset:data-gov-lv/adreses', 'broken'));
+    await processor.preProcessEntity(csv('adreses-xml', 'dataset:data-gov-lv/cits', 'broken'));
+    expect((await processor.preProcessEntity(dataset)).metadata.annotations)
+      .toMatchObject({ [ANNOTATION_QUALITY_FAILED_CHECKS]: '' });
+
+    jest.setSystemTime(new Date('2024-03-01T00:30:00Z'));
+    await processor.preProcessEntity(csv('adreses-json', 'dataset:data-gov-lv/adreses', 'broken'));
+    jest.setSystemTime(new Date('2024-03-01T01:15:00Z'));
+    expect((await processor.preProcessEntity(dataset)).metadata.annotations).toMatchObject({
+      [ANNOTATION_QUALITY_SCORE]: '87',
+      [ANNOTATION_QUALITY_FAILED_CHECKS]: 'links',
+    });
+  });
+});
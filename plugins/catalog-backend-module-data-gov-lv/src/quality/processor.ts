@@ -0,0 +1,96 @@
+import { DEFAULT_NAMESPACE, Entity, parseEntityRef, stringifyEntityRef } from '@backstage/catalog-model';
+import { CatalogProcessor } from '@backstage/plugin-catalog-node';
+import { durationToMilliseconds, HumanDuration } from '@backstage/types';
+import { DistributionEntityV1alpha1, isDatasetEntity, isDistributionEntity } from '../kinds';
+import { QUALITY_CHECKS, QualityCheck, withQualityScore } from './checks';
+
+export type DatasetQualityProcessorOptions = {
+  /** Default: `QUALITY_CHECKS` */
+  checks?: QualityCheck[];
+  /** How long a processed distribution counts for its dataset without being processed again. Default: a day */
+  maxAge?: HumanDuration;
+};
+
+type ProcessedDistribution = {
+  distribution: DistributionEntityV1alpha1;
+  datasetRef: string;
+  processedAt: number;
+};
+
+const DEFAULT_MAX_AGE: HumanDuration = { days: 1 };
+
+/**
+ * Scores the quality of each Dataset on every processing, so the `fresh` and `links` checks of a dataset
+ * that did not change in CKAN catch up without waiting for its provider to emit it again.
+ * The distributions are the ones this processor saw last, register it after the `LinkHealthProcessor`
+ * so that they count with their link health. Until it has seen a distribution of a dataset,
+ * the dataset keeps the score its provider gave it.
+ */
+export class DatasetQualityProcessor implements CatalogProcessor {
+  private readonly checks: QualityCheck[];
+  private readonly maxAge: number;
+  private readonly processed = new Map<string, ProcessedDistribution>();
+  /** Distribution refs by dataset ref */
+  private readonly datasetDistributions = new Map<string, Set<string>>();
+
+  constructor(options: DatasetQualityProcessorOptions = {}) {
+    this.checks = options.checks ?? QUALITY_CHECKS;
+    this.maxAge = durationToMilliseconds(options.maxAge ?? DEFAULT_MAX_AGE);
+  }
+
+  getProcessorName(): string {
+    return 'DatasetQualityProcessor';
+  }
+
+  async preProcessEntity(entity: Entity): Promise<Entity> {
+    if (isDistributionEntity(entity)) {
+      this.remember(entity);
+      return entity;
+    } else if (!isDatasetEntity(entity)) {
+      return entity;
+    }
+
+    const distributions = this.recentDistributions(stringifyEntityRef(entity));
+    if (distributions.length === 0) {
+      return entity;
+    }
+    return withQualityScore(entity, distributions, this.checks);
+  }
+
+  private remember(distribution: DistributionEntityV1alpha1) {
+    const ref = stringifyEntityRef(distribution);
+    const datasetRef = stringifyEntityRef(parseEntityRef(distribution.spec.dataset, {
+      defaultKind: 'Dataset',
+      defaultNamespace: distribution.metadata.namespace ?? DEFAULT_NAMESPACE,
+    }));
+    // A distribution that moved to another dataset no longer counts for the previous one
+    const previous = this.processed.get(ref);
+    if (previous && previous.datasetRef !== datasetRef) {
+      this.datasetDistributions.get(previous.datasetRef)?.delete(ref);
+    }
+    this.processed.set(ref, { distribution, datasetRef, processedAt: Date.now() });
+    const refs = this.datasetDistributions.get(datasetRef) ?? new Set();
+    refs.add(ref);
+    this.datasetDistributions.set(datasetRef, refs);
+  }
+
+  /**
+   * The distributions of a dataset. The ones that were not processed within `maxAge`,
+   * e.g. because they were deleted, are forgotten.
+   */
+  private recentDistributions(datasetRef: string): DistributionEntityV1alpha1[] {
+    const refs = this.datasetDistributions.get(datasetRef) ?? new Set<string>();
+    const since = Date.now() - this.maxAge;
+    const distributions: DistributionEntityV1alpha1[] = [];
+    for (const ref of refs) {
+      const processed = this.processed.get(ref)!;
+      if (processed.processedAt < since) {
+        refs.delete(ref);
+        this.processed.delete(ref);
+      } else {
+        distributions.push(processed.distribution);
+      }
+    }
+    return distributions;
+  }
+}
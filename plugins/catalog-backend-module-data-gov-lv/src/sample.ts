@@ -0,0 +1,66 @@
+export type Sample = {
+  bytes: Uint8Array;
+  /** The response had more data than was read */
+  truncated: boolean;
+};
+
+/**
+ * Reads the response body chunk by chunk.
+ */
+export async function* readChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // Stops the download when the consumer does not read to the end
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Reads at most `maxBytes` of the response body, the rest is never downloaded.
+ * Works with both 206 Partial Content responses and servers that ignore the Range header.
+ */
+export async function readSample(response: Response, maxBytes: number): Promise<Sample> {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let truncated = false;
+  if (response.body) {
+    for await (const chunk of readChunks(response.body)) {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length > maxBytes) {
+        truncated = true;
+        break;
+      }
+    }
+  }
+
+  if (response.status === 206) {
+    // Content-Range: bytes 0-1048575/7340032
+    const total = response.headers.get('Content-Range')?.match(/\/(\d+)$/)?.[1];
+    truncated ||= total === undefined || Number(total) > length;
+  }
+
+  const bytes = new Uint8Array(Math.min(length, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return { bytes, truncated };
+}
+
+/**
+ * The Range header for the first `maxBytes` of a resource.
+ */
+export function sampleRange(maxBytes: number): string {
+  return `bytes=0-${maxBytes - 1}`;
+}
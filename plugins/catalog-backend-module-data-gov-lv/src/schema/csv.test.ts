@@ -0,0 +1,65 @@
+import { csvAvroSchema, inferCsvSchema } from './csv';
+
+describe('inferCsvSchema', () => {
+  it('finds the delimiter and infers the column types', () => {
+    const schema = inferCsvSchema('kods;nosaukums;platiba\n0100;Rīga;304,2\n0200;Ogre;\n', {
+      maxRows: 100,
+      truncated: false,
+    });
+    expect(schema?.delimiter).toBe(';');
+    expect(schema?.rows).toBe(2);
+    expect(schema?.fields.map(field => [field.name, field.type])).toEqual([
+      ['kods', 'string'],
+      ['nosaukums', 'string'],
+      ['platiba', ['null', 'double']],
+    ]);
+  });
+
+  it('tries the other delimiters', () => {
+    expect(inferCsvSchema('a,b\n1,2\n', { maxRows: 100, truncated: false })?.delimiter).toBe(',');
+    expect(inferCsvSchema('a\tb\n1\t2\n', { maxRows: 100, truncated: false })?.delimiter).toBe('\t');
+  });
+
+  it('reads quoted fields and skips comment lines', () => {
+    const schema = inferCsvSchema('# Avots: VZD\na,b\n"1;2",3\n', { maxRows: 100, truncated: false });
+    expect(schema?.delimiter).toBe(',');
+    expect(schema?.fields.map(field => field.name)).toEqual(['a', 'b']);
+  });
+
+  it('drops the partial last line of a truncated text', () => {
+    const schema = inferCsvSchema('a;b\n1;2\n3;"nepabeig', { maxRows: 100, truncated: true });
+    expect(schema?.rows).toBe(1);
+    expect(schema?.fields[1].type).toBe('long');
+  });
+
+  it('reads at most maxRows rows', () => {
+    const text = `a;b\n${'1;2\n'.repeat(20)}`;
+    expect(inferCsvSchema(text, { maxRows: 5, truncated: false })?.rows).toBe(5);
+  });
+
+  it('has an unknown delimiter for a single column', () => {
+    expect(inferCsvSchema('a\n1\n2\n', { maxRows: 100, truncated: false })).toMatchObject({
+      delimiter: 'unknown',
+      rows: 2,
+      fields: [{ name: 'a', type: 'long' }],
+    });
+  });
+
+  it('has no schema for an empty text', () => {
+    expect(inferCsvSchema('', { maxRows: 100, truncated: false })).toBeUndefined();
+  });
+});
+
+describe('csvAvroSchema', () => {
+  it('is a record with the CSV dialect and the confidence', () => {
+    const schema = inferCsvSchema(`a;b\n${'1;x\n'.repeat(10)}`, { maxRows: 100, truncated: false })!;
+    expect(csvAvroSchema(schema)).toEqual({
+      type: 'record',
+      name: 'Row',
+      csv_delimiter: ';',
+      sample_rows: 10,
+      confidence: 1,
+      fields: schema.fields,
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { parse } from 'csv-parse/sync';
+import { AvroField, inferField, recordConfidence } from './values';
+
+export type CsvSchema = {
+  delimiter: string;
+  rows: number;
+  fields: AvroField[];
+};
+
+const PARSE_OPTIONS = [
+  { delimiter: ";", relax_quotes: false },
+  { delimiter: ",", relax_quotes: false },
+  { delimiter: "|", relax_quotes: false },
+  { delimiter: "\t", relax_quotes: false },
+  // Stuff like this '=""; ="Nē"; =""; =""; =""; =""'...
+  { delimiter: ";", relax_quotes: true },
+  { delimiter: ",", relax_quotes: true },
+  { delimiter: "|", relax_quotes: true },
+  { delimiter: "\t", relax_quotes: true },
+];
+
+/**
+ * Finds the delimiter and infers the column types from the first `maxRows` rows of the text.
+ * When the text is only the beginning of a file, the last (possibly partial) line is dropped.
+ */
+export function inferCsvSchema(text: string, options: { maxRows: number; truncated: boolean }): CsvSchema | undefined {
+  const sample = options.truncated ? text.slice(0, text.lastIndexOf("\n") + 1) : text;
+
+  let fallback: CsvSchema | undefined;
+  for (const tryOptions of PARSE_OPTIONS) {
+    let records: string[][];
+    try {
+      records = parse(sample, {
+        ...tryOptions,
+        to: options.maxRows + 1,
+        cast: false,
+        comment: "#",
+        comment_no_infix: true,
+        skip_empty_lines: true,
+      });
+    } catch {
+      // try another delimiter
+      continue;
+    }
+
+    const [headers, ...rows] = records;
+    if (headers === undefined) {
+      return undefined;
+    } else if (headers.length === 1) {
+      fallback ??= { delimiter: "unknown", rows: rows.length, fields: [inferField(headers[0], rows.map(row => row[0] ?? ""))] };
+      continue;
+    }
+
+    return {
+      delimiter: tryOptions.delimiter,
+      rows: rows.length,
+      fields: headers.map((header, index) => inferField(header, rows.map(row => row[index] ?? ""))),
+    };
+  }
+  return fallback;
+}
+
+/**
+ * The Avro record of a CSV row, with the CSV dialect and the inference confidence as extra attributes.
+ */
+export function csvAvroSchema(schema: CsvSchema) {
+  return {
+    "type": "record",
+    "name": "Row",
+    "csv_delimiter": schema.delimiter,
+    "sample_rows": schema.rows,
+    "confidence": recordConfidence(schema.fields),
+    "fields": schema.fields,
+  };
+}
@@ -0,0 +1,108 @@
+import { inferJsonSchema, JsonSchemaSampler } from './json';
+
+async function* chunks(...parts: (string | Uint8Array)[]): AsyncIterable<Uint8Array> {
+  for (const part of parts) {
+    yield typeof part === 'string' ? Buffer.from(part) : part;
+  }
+}
+
+function sample(...parts: string[]): Record<string, unknown> {
+  const sampler = new JsonSchemaSampler({ maxArrayItems: 100 });
+  parts.forEach(part => sampler.write(part));
+  sampler.end();
+  return sampler.toJsonSchema();
+}
+
+describe('JsonSchemaSampler', () => {
+  it('infers the types and required properties of objects in an array', () => {
+    expect(sample('[{"id": 1, "nosaukums": "Rīga", "platiba": 304.2}, {"id": 2, "platiba": null}]')).toEqual({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          nosaukums: { type: 'string' },
+          platiba: { type: ['number', 'null'] },
+        },
+        required: ['id', 'platiba'],
+      },
+    });
+  });
+
+  it('widens integers to numbers', () => {
+    expect(sample('[1, 2.5, -3e2]')).toMatchObject({ type: 'array', items: { type: 'number' } });
+  });
+
+  it('reads tokens split across chunks', () => {
+    expect(sample('{"na', 'me": "a\\"', 'b", "count": 12', '3, "ok": tr', 'ue}')).toMatchObject({
+      type: 'object',
+      properties: { name: { type: 'string' }, count: { type: 'integer' }, ok: { type: 'boolean' } },
+    });
+  });
+
+  it('reads empty containers and a scalar document', () => {
+    expect(sample('{"a": [], "b": {}}')).toMatchObject({
+      properties: { a: { type: 'array', items: {} }, b: { type: 'object', properties: {} } },
+    });
+    expect(sample('42')).toMatchObject({ type: 'integer' });
+  });
+
+  it('samples only the first items of every array', () => {
+    const sampler = new JsonSchemaSampler({ maxArrayItems: 2 });
+    sampler.write('[{"a": 1}, {"a": 2}, {"a": "trīs", "b": true}]');
+    sampler.end();
+    expect(sampler.toJsonSchema()).toMatchObject({
+      items: { type: 'object', properties: { a: { type: 'integer' } }, required: ['a'] },
+    });
+  });
+
+  it('throws on invalid JSON', () => {
+    expect(() => sample('{"a" 1}')).toThrow('Unexpected "1" in JSON at position 5');
+    expect(() => sample('[tru]')).toThrow('Invalid JSON token tru at position 4');
+  });
+});
+
+describe('inferJsonSchema', () => {
+  const options = { maxArrayItems: 100, maxBytes: 1024 };
+
+  it('infers the schema of a whole document', async () => {
+    const result = await inferJsonSchema(chunks('{"a": [1, ', '2]}'), options);
+    expect(result).toEqual({
+      schema: {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        $comment: 'Inferred from the first 100 items of every array',
+        type: 'object',
+        properties: { a: { type: 'array', items: { type: 'integer' } } },
+        required: ['a'],
+      },
+      hasBom: false,
+      charset: 'utf-8',
+      truncated: false,
+    });
+  });
+
+  it('skips a byte order mark', async () => {
+    const bom = Uint8Array.from([0xef, 0xbb, 0xbf]);
+    const result = await inferJsonSchema(chunks(bom, '{"iela": "Brīvības"}'), options);
+    expect(result).toMatchObject({ hasBom: true, charset: 'utf-8-sig', truncated: false });
+    expect(result.schema.properties).toEqual({ iela: { type: 'string' } });
+  });
+
+  it('samples the beginning of a document longer than maxBytes', async () => {
+    const text = `[${Array.from({ length: 200 }, (_, id) => `{"id": ${id}}`).join(', ')}]`;
+    const result = await inferJsonSchema(chunks(text.slice(0, 1000), text.slice(1000)), options);
+    expect(result.truncated).toBe(true);
+    expect(result.schema).toMatchObject({
+      $comment: 'Inferred from the first 1024 bytes, the first 100 items of every array',
+      type: 'array',
+      items: { type: 'object', properties: { id: { type: 'integer' } } },
+    });
+  });
+
+  it('detects a Baltic single-byte encoding', async () => {
+    const windows1257 = Uint8Array.from([...Buffer.from('{"iela": "R'), 0xee, ...Buffer.from('gas"}')]);
+    const result = await inferJsonSchema(chunks(windows1257), options);
+    expect(result).toMatchObject({ hasBom: false, charset: 'windows-1257' });
+  });
+});
@@ -0,0 +1,331 @@
+import { Charset, charsetDecoder, detectCharset, DETECTION_BYTES } from '../charset';
+
+/**
+ * Streaming JSON Schema inference: the document is tokenized chunk by chunk and only
+ * the shape is kept, so memory does not grow with the size of the file.
+ */
+
+type JsonType = 'null' | 'boolean' | 'integer' | 'number' | 'string' | 'object' | 'array';
+
+type SchemaNode = {
+  types: Set<JsonType>;
+  /** Number of objects seen, a property is required when it was present in all of them */
+  objects: number;
+  properties: Map<string, { node: SchemaNode; count: number }>;
+  items?: SchemaNode;
+};
+
+type Frame = {
+  kind: 'object' | 'array';
+  /** undefined when the container is outside of the sample */
+  node?: SchemaNode;
+  key?: string;
+  index: number;
+};
+
+type Mode = 'value' | 'afterValue' | 'key' | 'colon' | 'string' | 'number' | 'literal' | 'done';
+
+export type JsonSchemaOptions = {
+  /** Only the first items of every array are sampled */
+  maxArrayItems: number;
+};
+
+function newNode(): SchemaNode {
+  return { types: new Set(), objects: 0, properties: new Map() };
+}
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r']);
+
+export class JsonSchemaSampler {
+  private readonly root = newNode();
+  private readonly stack: Frame[] = [];
+  private mode: Mode = 'value';
+  private token = '';
+  private stringIsKey = false;
+  private escape = false;
+  private position = 0;
+
+  constructor(private readonly options: JsonSchemaOptions) {}
+
+  write(text: string): void {
+    for (let i = 0; i < text.length; i++, this.position++) {
+      const char = text[i];
+      switch (this.mode) {
+        case 'string':
+          if (this.escape) {
+            this.escape = false;
+          } else if (char === '\\') {
+            this.escape = true;
+          } else if (char === '"') {
+            this.endString();
+            continue;
+          }
+          if (this.stringIsKey) {
+            this.token += char;
+          }
+          continue;
+        case 'number':
+        case 'literal':
+          if (/[0-9a-zA-Z.+-]/.test(char)) {
+            this.token += char;
+            continue;
+          }
+          this.endScalar();
+          break;
+        default:
+          break;
+      }
+
+      if (WHITESPACE.has(char)) {
+        continue;
+      }
+      this.structural(char);
+    }
+  }
+
+  /** Finishes a complete document, a number at the very end is only terminated here */
+  end(): void {
+    if (this.mode === 'number' || this.mode === 'literal') {
+      this.endScalar();
+    }
+  }
+
+  toJsonSchema(): Record<string, unknown> {
+    return {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      ...JsonSchemaSampler.nodeSchema(this.root),
+    };
+  }
+
+  private structural(char: string): void {
+    switch (this.mode) {
+      case 'value':
+        if (char === '{') {
+          const node = this.valueNode('object');
+          if (node) {
+            node.objects++;
+          }
+          this.stack.push({ kind: 'object', node, index: 0 });
+          this.mode = 'key';
+        } else if (char === '[') {
+          this.stack.push({ kind: 'array', node: this.valueNode('array'), index: 0 });
+        } else if (char === ']' && this.top()?.kind === 'array' && this.top()!.index === 0) {
+          this.closeContainer();
+        } else if (char === '"') {
+          this.startString(false);
+        } else if (/[-0-9]/.test(char)) {
+          this.mode = 'number';
+          this.token = char;
+        } else if (/[tfn]/.test(char)) {
+          this.mode = 'literal';
+          this.token = char;
+        } else {
+          this.fail(char);
+        }
+        return;
+      case 'key':
+        if (char === '"') {
+          this.startString(true);
+        } else if (char === '}' && this.top()!.index === 0) {
+          this.closeContainer();
+        } else {
+          this.fail(char);
+        }
+        return;
+      case 'colon':
+        if (char !== ':') {
+          this.fail(char);
+        }
+        this.mode = 'value';
+        return;
+      case 'afterValue': {
+        const frame = this.top();
+        if (!frame) {
+          this.fail(char);
+        } else if (char === ',') {
+          frame.index++;
+          this.mode = frame.kind === 'object' ? 'key' : 'value';
+        } else if ((char === '}' && frame.kind === 'object') || (char === ']' && frame.kind === 'array')) {
+          this.closeContainer();
+        } else {
+          this.fail(char);
+        }
+        return;
+      }
+      default:
+        this.fail(char);
+    }
+  }
+
+  private top(): Frame | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  /**
+   * The schema node of the value that starts now, with its type recorded,
+   * or undefined when the value is outside of the sample.
+   */
+  private valueNode(type: JsonType): SchemaNode | undefined {
+    const frame = this.top();
+    let node: SchemaNode | undefined;
+    if (!frame) {
+      node = this.root;
+    } else if (!frame.node) {
+      node = undefined;
+    } else if (frame.kind === 'array') {
+      if (frame.index < this.options.maxArrayItems) {
+        frame.node.items ??= newNode();
+        node = frame.node.items;
+      }
+    } else {
+      const property = frame.node.properties.get(frame.key!) ?? { node: newNode(), count: 0 };
+      property.count++;
+      frame.node.properties.set(frame.key!, property);
+      node = property.node;
+    }
+    node?.types.add(type);
+    return node;
+  }
+
+  private startString(isKey: boolean): void {
+    this.mode = 'string';
+    this.stringIsKey = isKey;
+    this.token = '';
+  }
+
+  private endString(): void {
+    if (this.stringIsKey) {
+      this.top()!.key = JSON.parse(`"${this.token}"`);
+      this.token = '';
+      this.mode = 'colon';
+    } else {
+      this.valueNode('string');
+      this.endValue();
+    }
+  }
+
+  private endScalar(): void {
+    const token = this.token;
+    this.token = '';
+    if (token === 'true' || token === 'false') {
+      this.valueNode('boolean');
+    } else if (token === 'null') {
+      this.valueNode('null');
+    } else if (/^-?(0|[1-9]\d*)$/.test(token)) {
+      this.valueNode('integer');
+    } else if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(token)) {
+      this.valueNode('number');
+    } else {
+      throw new Error(`Invalid JSON token ${token} at position ${this.position}`);
+    }
+    this.endValue();
+  }
+
+  private closeContainer(): void {
+    this.stack.pop();
+    this.endValue();
+  }
+
+  private endValue(): void {
+    this.mode = this.stack.length === 0 ? 'done' : 'afterValue';
+  }
+
+  private fail(char: string): never {
+    throw new Error(`Unexpected ${JSON.stringify(char)} in JSON at position ${this.position}`);
+  }
+
+  private static nodeSchema(node: SchemaNode): Record<string, unknown> {
+    const types = [...node.types].filter(type => type !== 'integer' || !node.types.has('number'));
+    const schema: Record<string, unknown> = {};
+    if (types.length === 1) {
+      schema.type = types[0];
+    } else if (types.length > 1) {
+      schema.type = types;
+    }
+    if (node.types.has('object')) {
+      schema.properties = Object.fromEntries(
+        [...node.properties].map(([key, property]) => [key, JsonSchemaSampler.nodeSchema(property.node)]),
+      );
+      const required = [...node.properties]
+        .filter(([, property]) => property.count === node.objects)
+        .map(([key]) => key);
+      if (required.length > 0) {
+        schema.required = required;
+      }
+    }
+    if (node.types.has('array')) {
+      schema.items = node.items ? JsonSchemaSampler.nodeSchema(node.items) : {};
+    }
+    return schema;
+  }
+}
+
+export type JsonSample = {
+  schema: Record<string, unknown>;
+  hasBom: boolean;
+  charset: string;
+  /** The document was longer than `maxBytes` and only its beginning was sampled */
+  truncated: boolean;
+};
+
+/**
+ * Infers the JSON Schema from at most `maxBytes` of the document.
+ * The encoding is detected from the beginning of the document, a byte order mark is skipped.
+ */
+export async function inferJsonSchema(
+  chunks: AsyncIterable<Uint8Array>,
+  options: JsonSchemaOptions & { maxBytes: number },
+): Promise<JsonSample> {
+  const sampler = new JsonSchemaSampler(options);
+  let decoder: TextDecoder | undefined;
+  let detected: Charset | undefined;
+  let pending: Uint8Array[] = [];
+  let bytes = 0;
+  let truncated = false;
+
+  const write = (chunk: Uint8Array) => {
+    let data = chunk;
+    if (!detected) {
+      // Chunks are held back until there are enough bytes for the detection
+      pending.push(chunk);
+      if (pending.reduce((length, part) => length + part.length, 0) < DETECTION_BYTES) {
+        return;
+      }
+      data = Buffer.concat(pending);
+      pending = [];
+      detected = detectCharset(data);
+      decoder = charsetDecoder(detected.charset);
+      data = data.subarray(detected.bomLength);
+    }
+    sampler.write(decoder!.decode(data, { stream: true }));
+  };
+
+  for await (const chunk of chunks) {
+    bytes += chunk.length;
+    if (bytes > options.maxBytes) {
+      write(chunk.subarray(0, chunk.length - (bytes - options.maxBytes)));
+      truncated = true;
+      break;
+    }
+    write(chunk);
+  }
+
+  if (!detected) {
+    detected = detectCharset(Buffer.concat(pending));
+    decoder = charsetDecoder(detected.charset);
+    sampler.write(decoder.decode(Buffer.concat(pending).subarray(detected.bomLength), { stream: true }));
+  }
+  if (!truncated) {
+    sampler.write(decoder!.decode());
+    sampler.end();
+  }
+
+  const { hasBom, charset } = detected;
+  const schema = sampler.toJsonSchema();
+  if (truncated) {
+    schema.$comment = `Inferred from the first ${options.maxBytes} bytes, the first ${options.maxArrayItems} items of every array`;
+  } else {
+    schema.$comment = `Inferred from the first ${options.maxArrayItems} items of every array`;
+  }
+  return { schema, hasBom, charset, truncated };
+}
@@ -0,0 +1,162 @@
+import { read, SSF, utils, WorkSheet } from 'xlsx';
+import { AvroField, inferField, recordConfidence } from './values';
+
+export type SheetSchema = {
+  sheet: string;
+  /** 1-based row number of the header, as shown by spreadsheet applications */
+  headerRow: number;
+  rows: number;
+  fields: AvroField[];
+};
+
+/** Rows above the header searched for it: titles, notes, empty lines */
+const MAX_HEADER_SEARCH_ROWS = 20;
+
+type Cell = string | number | boolean | null;
+
+/**
+ * Reads the sheets of an XLSX, XLSM, XLS or ODS workbook and infers the column types of each of them
+ * from the first `maxRows` rows below the header.
+ */
+export function inferSpreadsheetSchema(bytes: Uint8Array, options: { maxRows: number }): SheetSchema[] {
+  const workbook = read(bytes, {
+    type: 'array',
+    cellNF: true,
+    cellFormula: false,
+    cellHTML: false,
+    cellStyles: false,
+    sheetRows: MAX_HEADER_SEARCH_ROWS + options.maxRows,
+  });
+
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  return workbook.SheetNames
+    .map(name => inferSheetSchema(name, formatDateCells(workbook.Sheets[name], date1904), options.maxRows))
+    .filter((schema): schema is SheetSchema => schema !== undefined);
+}
+
+function inferSheetSchema(sheet: string, worksheet: WorkSheet, maxRows: number): SheetSchema | undefined {
+  const rows = utils.sheet_to_json<Cell[]>(worksheet, { header: 1, raw: true, defval: null, blankrows: true });
+  const headerIndex = findHeaderRow(rows);
+  if (headerIndex === undefined) {
+    return undefined;
+  }
+
+  const headerRow = rows[headerIndex];
+  const data = rows.slice(headerIndex + 1, headerIndex + 1 + maxRows)
+    .filter(row => row.some(cell => !isEmpty(cell)));
+  const fields = uniqueHeaders(headerRow)
+    .map((header, index) => inferField(header, data.map(row => cellText(row[index] ?? null))))
+    // Spacer columns without a header nor values
+    .filter((field, index) => !isEmpty(headerRow[index]) || field.type !== 'null');
+  return {
+    sheet,
+    headerRow: headerIndex + 1,
+    rows: data.length,
+    fields,
+  };
+}
+
+function isEmpty(cell: Cell): boolean {
+  return cell === null || (typeof cell === 'string' && cell.trim() === '');
+}
+
+function filled(row: Cell[]): number {
+  return row.filter(cell => !isEmpty(cell)).length;
+}
+
+/**
+ * The header is the first row that is about as wide as the table and has only text in it.
+ * Titles above the table usually fill a single cell, so they are skipped.
+ */
+function findHeaderRow(rows: Cell[][]): number | undefined {
+  const candidates = rows.slice(0, MAX_HEADER_SEARCH_ROWS);
+  const width = Math.max(0, ...rows.map(filled));
+  if (width === 0) {
+    return undefined;
+  }
+
+  const header = candidates.findIndex(row =>
+    filled(row) >= Math.max(Math.min(2, width), width / 2)
+    && row.every(cell => isEmpty(cell) || typeof cell === 'string'));
+  if (header !== -1) {
+    return header;
+  }
+  // No text row, the first non-empty one is taken as the header anyway
+  return rows.findIndex(row => filled(row) > 0);
+}
+
+function uniqueHeaders(row: Cell[]): string[] {
+  let width = row.length;
+  while (width > 0 && isEmpty(row[width - 1])) {
+    width--;
+  }
+
+  const seen = new Map<string, number>();
+  return row.slice(0, width).map((cell, index) => {
+    const header = isEmpty(cell) ? `column_${index + 1}` : cellText(cell).trim();
+    const count = seen.get(header) ?? 0;
+    seen.set(header, count + 1);
+    return count === 0 ? header : `${header}_${count + 1}`;
+  });
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Replaces the date cells, numbers with a date format, with their ISO 8601 text for the type inference
+ * of `values.ts`. Spreadsheet dates have no time zone, so the serial number is formatted as it is:
+ * as a JS Date it would be local time, and a date-only cell the previous day in UTC east of Greenwich.
+ */
+function formatDateCells(worksheet: WorkSheet, date1904: boolean): WorkSheet {
+  for (const address of Object.keys(worksheet)) {
+    const cell = worksheet[address];
+    if (address.startsWith('!') || cell.t !== 'n' || !cell.z || !SSF.is_date(cell.z)) {
+      continue;
+    }
+    const { y, m, d, H, M, S } = SSF.parse_date_code(cell.v, { date1904 });
+    const date = `${y}-${pad(m)}-${pad(d)}`;
+    worksheet[address] = {
+      t: 's',
+      v: H === 0 && M === 0 && S === 0 ? date : `${date}T${pad(H)}:${pad(M)}:${pad(S)}`,
+    };
+  }
+  return worksheet;
+}
+
+function cellText(cell: Cell): string {
+  return cell === null ? '' : String(cell);
+}
+
+/**
+ * An Avro record name from the sheet name, e.g. `Iedzīvotāji 2023` becomes `Iedzivotaji_2023`.
+ */
+function recordName(sheet: string): string {
+  const name = sheet.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9_]+/g, '_');
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+}
+
+/**
+ * The sheets of a workbook as an Avro union of records, one per sheet,
+ * with the sheet name, header row and the inference confidence as extra attributes.
+ */
+export function spreadsheetAvroSchema(sheets: SheetSchema[]) {
+  const names = new Set<string>();
+  return sheets.map(schema => {
+    let name = recordName(schema.sheet);
+    for (let suffix = 2; names.has(name); suffix++) {
+      name = `${recordName(schema.sheet)}_${suffix}`;
+    }
+    names.add(name);
+    return {
+      "type": "record",
+      "name": name,
+      "sheet": schema.sheet,
+      "header_row": schema.headerRow,
+      "sample_rows": schema.rows,
+      "confidence": recordConfidence(schema.fields),
+      "fields": schema.fields,
+    };
+  });
+}
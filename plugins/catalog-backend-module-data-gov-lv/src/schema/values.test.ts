@@ -0,0 +1,121 @@
+import { classifyValue, inferField, inferValueType, recordConfidence } from './values';
+
+function repeat(values: string[], times: number): string[] {
+  return Array.from({ length: times }, () => values).flat();
+}
+
+describe('classifyValue', () => {
+  it.each([
+    ['', 'null', undefined],
+    [' N/A ', 'null', undefined],
+    ['-', 'null', undefined],
+    ['Jā', 'boolean', undefined],
+    ['false', 'boolean', undefined],
+    ['42', 'long', undefined],
+    ['-7', 'long', undefined],
+    ['3.14', 'double', undefined],
+    ['1e6', 'double', undefined],
+    ['3,14', 'double', ','],
+    ['1 234,5', 'double', ','],
+    ['2023-12-31', 'date', 'yyyy-MM-dd'],
+    ['2023-12-31T23:59:00Z', 'datetime', "yyyy-MM-dd'T'HH:mm:ss"],
+    ['31.12.2023', 'date', 'dd.MM.yyyy'],
+    ['31.12.2023.', 'date', 'dd.MM.yyyy.'],
+    ['31.12.2023 23:59', 'datetime', 'dd.MM.yyyy HH:mm:ss'],
+    ['LV-1050', 'string', undefined],
+  ])('reads %j as %s', (value, type, format) => {
+    expect(classifyValue(value)).toEqual(format ? { type, format } : { type });
+  });
+
+  it('reads codes with leading zeros as strings', () => {
+    expect(classifyValue('01010')).toEqual({ type: 'string' });
+  });
+
+  it('reads impossible dates as strings', () => {
+    expect(classifyValue('2023-13-01')).toEqual({ type: 'string' });
+    expect(classifyValue('32.01.2023')).toEqual({ type: 'string' });
+  });
+});
+
+describe('inferValueType', () => {
+  it('widens longs to doubles and dates to datetimes', () => {
+    expect(inferValueType(repeat(['1', '2.5'], 5)).type).toBe('double');
+    expect(inferValueType(repeat(['2023-12-31', '2023-12-31 10:00'], 5)).type).toBe('datetime');
+  });
+
+  it('tolerates up to 5% of values of another type', () => {
+    const values = [...repeat(['1'], 19), 'nav'];
+    expect(inferValueType(values)).toMatchObject({ type: 'long', confidence: 0.95 });
+    expect(inferValueType([...values, 'nav']).type).toBe('string');
+  });
+
+  it('lowers the confidence for fewer than 10 values', () => {
+    expect(inferValueType(['1', '2', '3', '', '']).confidence).toBe(0.3);
+    expect(inferValueType(repeat(['1'], 10)).confidence).toBe(1);
+  });
+
+  it('is nullable when some values are missing', () => {
+    expect(inferValueType(['1', 'NULL']).nullable).toBe(true);
+    expect(inferValueType(['1', '2']).nullable).toBe(false);
+    expect(inferValueType(['', ''])).toMatchObject({ type: 'null', nullable: true, confidence: 0 });
+  });
+
+  it('lists the symbols of a string column with few distinct values', () => {
+    expect(inferValueType(repeat(['Rīga', 'Ogre'], 10)).symbols).toEqual(['Ogre', 'Rīga']);
+    expect(inferValueType(repeat(['Rīga', 'Ogre'], 5)).symbols).toBeUndefined();
+  });
+});
+
+describe('inferField', () => {
+  it('makes missing values a null union with a null default', () => {
+    expect(inferField('skaits', [...repeat(['1'], 10), ''])).toEqual({
+      name: 'skaits',
+      type: ['null', 'long'],
+      default: null,
+      confidence: 1,
+    });
+  });
+
+  it('maps dates to logical types with their format', () => {
+    expect(inferField('datums', repeat(['31.12.2023'], 10))).toEqual({
+      name: 'datums',
+      type: { type: 'int', logicalType: 'date' },
+      format: 'dd.MM.yyyy',
+      confidence: 1,
+    });
+    expect(inferField('laiks', repeat(['2023-12-31T10:00:00'], 10)).type)
+      .toEqual({ type: 'long', logicalType: 'timestamp-millis' });
+  });
+
+  it('marks decimal-comma doubles', () => {
+    expect(inferField('summa', repeat(['1,5', '2'], 5))).toEqual({
+      name: 'summa',
+      type: 'double',
+      decimal_separator: ',',
+      confidence: 1,
+    });
+  });
+
+  it('makes enums of symbols that are Avro names', () => {
+    expect(inferField('statuss', repeat(['aktivs', 'slegts'], 10)).type)
+      .toEqual({ type: 'enum', name: 'statuss_values', symbols: ['aktivs', 'slegts'] });
+    expect(inferField('pilseta', repeat(['Rīga', 'Ogre'], 10)).type)
+      .toEqual({ type: 'string', 'x-enum': ['Ogre', 'Rīga'] });
+    expect(inferField('Pilsēta', repeat(['Riga', 'Ogre'], 10)).type)
+      .toEqual({ type: 'string', 'x-enum': ['Ogre', 'Riga'] });
+  });
+});
+
+describe('recordConfidence', () => {
+  it('is the mean confidence of the fields', () => {
+    expect(recordConfidence([
+      { name: 'a', type: 'long', confidence: 1 },
+      { name: 'b', type: 'string', confidence: 0.5 },
+      { name: 'c', type: 'string', confidence: 0.25 },
+    ])).toBe(0.58);
+  });
+
+  it('is 0 without fields', () => {
+    expect(recordConfidence([])).toBe(0);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Type inference for textual values of tabular data, shared by the CSV, spreadsheet and XML probes.
+ */
+
+export type ValueType = 'null' | 'boolean' | 'long' | 'double' | 'date' | 'datetime' | 'string';
+
+export type ValueFormat = {
+  type: ValueType;
+  /** Date pattern, e.g. `dd.MM.yyyy`, or `,` for decimal-comma numbers */
+  format?: string;
+};
+
+export type AvroField = {
+  name: string;
+  type: unknown;
+  default?: null;
+  format?: string;
+  decimal_separator?: string;
+  confidence: number;
+};
+
+/** Values read as missing, also the `missingValues` of the exported Table Schemas */
+export const NULLS = new Set(['', 'null', 'NULL', 'N/A', 'n/a', '-']);
+const BOOLEANS = new Set(['true', 'false', 'jā', 'ja', 'nē', 'ne', 'yes', 'no']);
+
+// Leading zeros are codes (postal, personal, registration numbers), not numbers
+const LONG = /^[+-]?(0|[1-9]\d{0,17})$/;
+const DOUBLE = /^[+-]?(\d+\.\d+|\d+(\.\d+)?[eE][+-]?\d+)$/;
+const DECIMAL_COMMA = /^[+-]?(\d+|\d{1,3}( \d{3})+),\d+$/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATETIME = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+// Latvian dates are written as 31.12.2023 or 31.12.2023.
+const LV_DATE = /^(\d{1,2})\.(\d{1,2})\.(\d{4})\.?$/;
+const LV_DATETIME = /^(\d{1,2})\.(\d{1,2})\.(\d{4})\.? (\d{1,2}):(\d{2})(:\d{2})?$/;
+
+const MIN_CONFIDENT_SAMPLE = 10;
+const MIN_ENUM_SAMPLE = 20;
+const MAX_ENUM_SYMBOLS = 10;
+const MIN_TYPE_RATIO = 0.95;
+
+function isDate(year: string, month: string, day: string): boolean {
+  const m = Number(month);
+  const d = Number(day);
+  return Number(year) > 0 && m >= 1 && m <= 12 && d >= 1 && d <= 31;
+}
+
+export function classifyValue(value: string): ValueFormat {
+  const text = value.trim();
+  if (NULLS.has(text)) {
+    return { type: 'null' };
+  } else if (BOOLEANS.has(text.toLowerCase())) {
+    return { type: 'boolean' };
+  } else if (LONG.test(text)) {
+    return { type: 'long' };
+  } else if (DOUBLE.test(text)) {
+    return { type: 'double' };
+  } else if (DECIMAL_COMMA.test(text)) {
+    return { type: 'double', format: ',' };
+  }
+
+  let match = text.match(ISO_DATE);
+  if (match && isDate(match[1], match[2], match[3])) {
+    return { type: 'date', format: 'yyyy-MM-dd' };
+  }
+  match = text.match(ISO_DATETIME);
+  if (match && isDate(match[1], match[2], match[3])) {
+    return { type: 'datetime', format: "yyyy-MM-dd'T'HH:mm:ss" };
+  }
+  match = text.match(LV_DATE);
+  if (match && isDate(match[3], match[2], match[1])) {
+    return { type: 'date', format: text.endsWith('.') ? 'dd.MM.yyyy.' : 'dd.MM.yyyy' };
+  }
+  match = text.match(LV_DATETIME);
+  if (match && isDate(match[3], match[2], match[1])) {
+    return { type: 'datetime', format: 'dd.MM.yyyy HH:mm:ss' };
+  }
+  return { type: 'string' };
+}
+
+/** Whether a value of type `value` can be read as `target` */
+function fits(value: ValueType, target: ValueType): boolean {
+  return value === target
+    || (target === 'double' && value === 'long')
+    || (target === 'datetime' && value === 'date')
+    || target === 'string';
+}
+
+function mostCommon(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value !== undefined) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function isAvroName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+}
+
+export type InferredType = ValueFormat & {
+  nullable: boolean;
+  /** Distinct values of a string column with few of them */
+  symbols?: string[];
+  confidence: number;
+};
+
+/**
+ * Infers the type of one column from its sampled values.
+ * The confidence is the share of sampled values that conform to the chosen type,
+ * lowered when there are fewer than 10 non-empty values to go by.
+ */
+export function inferValueType(values: string[]): InferredType {
+  const formats = values.map(classifyValue);
+  const present = formats.filter(format => format.type !== 'null');
+  const nullable = present.length < formats.length;
+  const sampleFactor = Math.min(1, present.length / MIN_CONFIDENT_SAMPLE);
+
+  let type: ValueType = present.length === 0 ? 'null' : 'string';
+  let ratio = 1;
+  for (const candidate of ['boolean', 'long', 'double', 'date', 'datetime'] as ValueType[]) {
+    const candidateRatio = present.filter(format => fits(format.type, candidate)).length / present.length;
+    if (present.length > 0 && candidateRatio >= MIN_TYPE_RATIO) {
+      type = candidate;
+      ratio = candidateRatio;
+      break;
+    }
+  }
+
+  let symbols: string[] | undefined;
+  if (type === 'string') {
+    const distinct = [...new Set(values.map(value => value.trim()).filter(value => !NULLS.has(value)))].sort();
+    if (present.length >= MIN_ENUM_SAMPLE && distinct.length <= MAX_ENUM_SYMBOLS && distinct.length <= present.length / 4) {
+      symbols = distinct;
+    }
+  }
+
+  return {
+    type,
+    format: mostCommon(present.filter(format => fits(format.type, type)).map(value => value.format)),
+    nullable,
+    symbols,
+    confidence: Math.round(ratio * sampleFactor * 100) / 100,
+  };
+}
+
+/**
+ * Infers an Avro field from sampled values of one column.
+ */
+export function inferField(name: string, values: string[]): AvroField {
+  const { type, format, nullable, symbols, confidence } = inferValueType(values);
+
+  let avroType: unknown;
+  switch (type) {
+    case 'date':
+      avroType = { type: 'int', logicalType: 'date' };
+      break;
+    case 'datetime':
+      avroType = { type: 'long', logicalType: 'timestamp-millis' };
+      break;
+    case 'string':
+      if (symbols) {
+        avroType = isAvroName(name) && symbols.every(isAvroName)
+          ? { type: 'enum', name: `${name}_values`, symbols }
+          : { type: 'string', 'x-enum': symbols };
+      } else {
+        avroType = 'string';
+      }
+      break;
+    default:
+      avroType = type;
+  }
+
+  return {
+    name,
+    type: nullable && type !== 'null' ? ['null', avroType] : avroType,
+    ...(nullable && type !== 'null' ? { default: null } : {}),
+    ...(format && format !== ',' ? { format } : {}),
+    ...(format === ',' && type === 'double' ? { decimal_separator: ',' } : {}),
+    confidence,
+  };
+}
+
+/**
+ * The confidence of a record is the mean confidence of its fields.
+ */
+export function recordConfidence(fields: AvroField[]): number {
+  if (fields.length === 0) {
+    return 0;
+  }
+  const sum = fields.reduce((total, field) => total + field.confidence, 0);
+  return Math.round(sum / fields.length * 100) / 100;
+}
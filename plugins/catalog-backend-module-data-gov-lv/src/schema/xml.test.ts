@@ -0,0 +1,105 @@
+import { decodeXml, inferXmlSchema } from './xml';
+
+const WHOLE = { truncated: false, sampleBytes: 1024 };
+
+describe('inferXmlSchema', () => {
+  it('infers the XSD and finds the referenced schemas', () => {
+    const text = [
+      '<adreses xmlns="urn:vzd:adreses" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+      ' xsi:schemaLocation="urn:vzd:adreses https://data.gov.lv/adreses.xsd">',
+      '<adrese kods="101"><iela>Brīvības</iela><nr>1</nr></adrese>',
+      '<adrese kods="102"><iela>Elizabetes</iela></adrese>',
+      '</adreses>',
+    ].join('');
+    expect(inferXmlSchema(text, WHOLE)).toEqual({
+      schemaLocations: ['https://data.gov.lv/adreses.xsd'],
+      xsd: [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns="urn:vzd:adreses" targetNamespace="urn:vzd:adreses" elementFormDefault="qualified">',
+        '  <xs:annotation>',
+        '    <xs:documentation>Inferred from the document</xs:documentation>',
+        '  </xs:annotation>',
+        '  <xs:element name="adreses">',
+        '    <xs:complexType>',
+        '      <xs:sequence>',
+        '        <xs:element name="adrese" minOccurs="2" maxOccurs="unbounded">',
+        '          <xs:complexType>',
+        '            <xs:sequence>',
+        '              <xs:element name="iela" type="xs:string"/>',
+        '              <xs:element name="nr" minOccurs="0" type="xs:long"/>',
+        '            </xs:sequence>',
+        '            <xs:attribute name="kods" type="xs:long" use="required"/>',
+        '          </xs:complexType>',
+        '        </xs:element>',
+        '      </xs:sequence>',
+        '    </xs:complexType>',
+        '  </xs:element>',
+        '</xs:schema>',
+      ].join('\n'),
+    });
+  });
+
+  it('reads a schema location without a namespace', () => {
+    const text = '<a xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation=" a.xsd "/>';
+    const { schemaLocations, xsd } = inferXmlSchema(text, WHOLE);
+    expect(schemaLocations).toEqual(['a.xsd']);
+    expect(xsd).toContain('<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" elementFormDefault="qualified">');
+  });
+
+  it('keeps Latvian dates and decimal commas strings', () => {
+    const { xsd } = inferXmlSchema('<a><d>2023-12-31</d><lv>31.12.2023</lv><n>1,5</n><x>1.5</x></a>', WHOLE);
+    expect(xsd).toContain('<xs:element name="d" type="xs:date"/>');
+    expect(xsd).toContain('<xs:element name="lv" type="xs:string"/>');
+    expect(xsd).toContain('<xs:element name="n" type="xs:string"/>');
+    expect(xsd).toContain('<xs:element name="x" type="xs:decimal"/>');
+  });
+
+  it('declares attributes of text elements as simple content', () => {
+    const { xsd } = inferXmlSchema('<a><summa valuta="EUR">1.5</summa><b c="1"/></a>', WHOLE);
+    expect(xsd).toContain('<xs:extension base="xs:decimal">');
+    expect(xsd).toContain('<xs:attribute name="valuta" type="xs:string" use="required"/>');
+    expect(xsd).not.toContain('<xs:element name="b" type=');
+  });
+
+  it('declares children in varying order as a choice', () => {
+    const { xsd } = inferXmlSchema('<a><r><x>1</x><y>2</y></r><r><y>3</y><x>4</x></r></a>', WHOLE);
+    expect(xsd).toContain('<xs:choice minOccurs="0" maxOccurs="unbounded">');
+    expect(xsd).toContain('<xs:element name="x" type="xs:long"/>');
+  });
+
+  it('infers the XSD from the beginning of a truncated document', () => {
+    const { xsd } = inferXmlSchema('<a><b>1</b><b>2</b><b>tr', { truncated: true, sampleBytes: 24 });
+    expect(xsd).toContain('<xs:documentation>Inferred from the first 24 bytes of the document</xs:documentation>');
+    expect(xsd).toContain('<xs:element name="b" maxOccurs="unbounded" type="xs:long"/>');
+  });
+
+  it('throws on invalid XML and a missing root element', () => {
+    expect(() => inferXmlSchema('<a><b></a>', WHOLE)).toThrow();
+    expect(() => inferXmlSchema('', { truncated: true, sampleBytes: 0 })).toThrow('No root element in the XML sample');
+  });
+});
+
+describe('decodeXml', () => {
+  it('decodes by the encoding of the XML declaration', () => {
+    const bytes = Uint8Array.from([...Buffer.from('<?xml version="1.0" encoding="Windows-1257"?><a>R'), 0xee, ...Buffer.from('ga</a>')]);
+    expect(decodeXml(bytes)).toEqual({
+      text: '<?xml version="1.0" encoding="Windows-1257"?><a>Rīga</a>',
+      charset: 'windows-1257',
+      hasBom: false,
+      bomLength: 0,
+    });
+  });
+
+  it('detects the encoding without a declaration', () => {
+    const bytes = Uint8Array.from([0xef, 0xbb, 0xbf, ...Buffer.from('<a>Rīga</a>')]);
+    expect(decodeXml(bytes)).toMatchObject({ text: '<a>Rīga</a>', charset: 'utf-8-sig', hasBom: true });
+  });
+
+  it('detects the encoding when the declared one is unknown', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const bytes = Buffer.from('<?xml version="1.0" encoding="x-nezinams"?><a/>');
+    expect(decodeXml(bytes)).toMatchObject({ charset: 'utf-8' });
+    expect(warn).toHaveBeenCalledWith('Unsupported XML encoding x-nezinams, detecting it');
+    warn.mockRestore();
+  });
+});
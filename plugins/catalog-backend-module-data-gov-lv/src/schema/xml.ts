@@ -0,0 +1,303 @@
+import sax from 'sax';
+import { Charset, decodeText } from '../charset';
+import { inferValueType } from './values';
+
+/**
+ * XML Schema inference: the elements are collected by their path from the root,
+ * so the same name in different parents gets its own declaration (Russian doll design).
+ * Elements are declared by their local name in the namespace of the root element.
+ */
+
+const XSI = 'http://www.w3.org/2001/XMLSchema-instance';
+
+const MAX_SAMPLED_VALUES = 1000;
+
+type AttributeStats = {
+  count: number;
+  values: string[];
+};
+
+type ChildStats = {
+  node: ElementNode;
+  /** Position of the first occurrence, used to check that the children always come in the same order */
+  order: number;
+  minOccurs: number;
+  maxOccurs: number;
+};
+
+type ElementNode = {
+  name: string;
+  /** Number of occurrences that were closed within the sample */
+  closed: number;
+  opened: number;
+  children: Map<string, ChildStats>;
+  attributes: Map<string, AttributeStats>;
+  /** Trimmed text of every occurrence, up to MAX_SAMPLED_VALUES */
+  texts: string[];
+  hasText: boolean;
+  ordered: boolean;
+};
+
+type Frame = {
+  node: ElementNode;
+  childCounts: Map<string, number>;
+  lastOrder: number;
+  text: string;
+};
+
+export type XmlSample = {
+  /** Locations from xsi:schemaLocation and xsi:noNamespaceSchemaLocation of the root element */
+  schemaLocations: string[];
+  /** The XSD inferred from the sample */
+  xsd: string;
+};
+
+function newNode(name: string): ElementNode {
+  return {
+    name,
+    closed: 0,
+    opened: 0,
+    children: new Map(),
+    attributes: new Map(),
+    texts: [],
+    hasText: false,
+    ordered: true,
+  };
+}
+
+/**
+ * Decodes the XML bytes by the encoding of the XML declaration, e.g. `<?xml version="1.0" encoding="windows-1257"?>`,
+ * otherwise by the byte order mark or the detected encoding, as files without a declaration are not always UTF-8.
+ */
+export function decodeXml(bytes: Uint8Array): Charset & { text: string } {
+  const declaration = new TextDecoder('latin1').decode(bytes.subarray(0, 200));
+  const encoding = declaration.match(/^\s*<\?xml[^>]*\sencoding\s*=\s*["']([A-Za-z0-9._:-]+)["']/)?.[1]?.toLowerCase();
+  if (encoding && !['utf-8', 'utf8', 'utf-16'].includes(encoding)) {
+    try {
+      const decoder = new TextDecoder(encoding);
+      return { text: decoder.decode(bytes), charset: decoder.encoding, hasBom: false, bomLength: 0 };
+    } catch {
+      console.warn(`Unsupported XML encoding ${encoding}, detecting it`);
+    }
+  }
+  return decodeText(bytes);
+}
+
+/**
+ * Parses the XML text, finds the referenced schemas and infers an XSD from the elements.
+ * When the text is only the beginning of a document, the unclosed elements are not validated by sax,
+ * so a partial last element does not fail the inference.
+ */
+export function inferXmlSchema(text: string, options: { truncated: boolean; sampleBytes: number }): XmlSample {
+  const parser = sax.parser(true, { xmlns: true, position: false });
+  const stack: Frame[] = [];
+  const schemaLocations: string[] = [];
+  let root: ElementNode | undefined;
+  let namespace = '';
+
+  parser.onerror = error => {
+    throw error;
+  };
+
+  parser.onopentag = tag => {
+    const { local, uri, attributes } = tag as sax.QualifiedTag;
+    const parent = stack[stack.length - 1];
+    let node: ElementNode;
+    if (!parent) {
+      root ??= newNode(local);
+      node = root;
+      namespace = uri;
+      for (const attribute of Object.values(attributes)) {
+        if (attribute.uri === XSI && attribute.local === 'schemaLocation') {
+          // Pairs of namespace and location
+          const parts = attribute.value.trim().split(/\s+/);
+          for (let i = 1; i < parts.length; i += 2) {
+            schemaLocations.push(parts[i]);
+          }
+        } else if (attribute.uri === XSI && attribute.local === 'noNamespaceSchemaLocation') {
+          schemaLocations.push(attribute.value.trim());
+        }
+      }
+    } else {
+      let child = parent.node.children.get(local);
+      if (!child) {
+        child = {
+          node: newNode(local),
+          order: parent.node.children.size,
+          // Absent from the occurrences of the parent seen so far
+          minOccurs: parent.node.closed > 0 ? 0 : Infinity,
+          maxOccurs: 0,
+        };
+        parent.node.children.set(local, child);
+      }
+      if (child.order < parent.lastOrder) {
+        parent.node.ordered = false;
+      }
+      parent.lastOrder = child.order;
+      parent.childCounts.set(local, (parent.childCounts.get(local) ?? 0) + 1);
+      node = child.node;
+    }
+
+    node.opened++;
+    for (const attribute of Object.values(attributes)) {
+      if (attribute.name === 'xmlns' || attribute.prefix === 'xmlns' || attribute.uri === XSI) {
+        continue;
+      }
+      const stats = node.attributes.get(attribute.local) ?? { count: 0, values: [] };
+      stats.count++;
+      if (stats.values.length < MAX_SAMPLED_VALUES) {
+        stats.values.push(attribute.value);
+      }
+      node.attributes.set(attribute.local, stats);
+    }
+    stack.push({ node, childCounts: new Map(), lastOrder: -1, text: '' });
+  };
+
+  parser.ontext = parser.oncdata = value => {
+    const frame = stack[stack.length - 1];
+    if (frame && frame.text.length < 10000) {
+      frame.text += value;
+    }
+  };
+
+  parser.onclosetag = () => {
+    const frame = stack.pop()!;
+    closeOccurrence(frame);
+    const trimmed = frame.text.trim();
+    frame.node.hasText ||= trimmed !== '';
+    if (frame.node.texts.length < MAX_SAMPLED_VALUES) {
+      frame.node.texts.push(trimmed);
+    }
+  };
+
+  parser.write(text);
+  if (!options.truncated) {
+    parser.close();
+  }
+
+  // Elements cut off by the end of the sample still tell which children they have,
+  // but not how many of them there are at least
+  for (const frame of stack) {
+    if (frame.node.closed === 0) {
+      closeOccurrence(frame, true);
+    }
+  }
+
+  if (!root) {
+    throw new Error('No root element in the XML sample');
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    namespace
+      ? `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns="${escapeXml(namespace)}" targetNamespace="${escapeXml(namespace)}" elementFormDefault="qualified">`
+      : '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" elementFormDefault="qualified">',
+    '  <xs:annotation>',
+    options.truncated
+      ? `    <xs:documentation>Inferred from the first ${options.sampleBytes} bytes of the document</xs:documentation>`
+      : '    <xs:documentation>Inferred from the document</xs:documentation>',
+    '  </xs:annotation>',
+    ...elementXsd(root, '', 1),
+    '</xs:schema>',
+  ];
+  return { schemaLocations, xsd: lines.join('\n') };
+}
+
+function closeOccurrence(frame: Frame, partial = false): void {
+  frame.node.closed++;
+  for (const [name, child] of frame.node.children) {
+    const count = frame.childCounts.get(name) ?? 0;
+    child.minOccurs = Math.min(child.minOccurs, partial ? Math.min(count, 1) : count);
+    child.maxOccurs = Math.max(child.maxOccurs, count);
+  }
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+const XS_TYPES: [string, string, RegExp][] = [
+  ['boolean', 'xs:boolean', /^(true|false|0|1)$/],
+  ['long', 'xs:long', /^[+-]?\d+$/],
+  ['double', 'xs:decimal', /^[+-]?(\d+(\.\d*)?|\.\d+)$/],
+  ['double', 'xs:double', /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/],
+  ['date', 'xs:date', /^\d{4}-\d{2}-\d{2}(Z|[+-]\d{2}:\d{2})?$/],
+  ['datetime', 'xs:dateTime', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/],
+];
+
+/**
+ * The XSD built-in type of the values. Unlike CSV columns, every sampled value must be valid,
+ * as the schema is used for validation: Latvian dates and decimal commas stay strings.
+ */
+function xsdType(values: string[]): string {
+  if (values.length === 0 || values.some(value => value.trim() === '')) {
+    return 'xs:string';
+  }
+  const { type } = inferValueType(values);
+  const xsType = XS_TYPES.find(([valueType, , pattern]) => valueType === type && values.every(value => pattern.test(value.trim())));
+  return xsType?.[1] ?? 'xs:string';
+}
+
+function occurs(child: ChildStats): string {
+  const minOccurs = child.minOccurs === Infinity ? 1 : child.minOccurs;
+  return (minOccurs !== 1 ? ` minOccurs="${minOccurs}"` : '')
+    + (child.maxOccurs > 1 ? ' maxOccurs="unbounded"' : '');
+}
+
+function attributesXsd(node: ElementNode, indent: string): string[] {
+  return [...node.attributes].map(([name, stats]) =>
+    `${indent}<xs:attribute name="${name}" type="${xsdType(stats.values)}"${stats.count === node.opened ? ' use="required"' : ''}/>`,
+  );
+}
+
+function elementXsd(node: ElementNode, occurrence: string, depth: number): string[] {
+  const indent = '  '.repeat(depth);
+  const start = `${indent}<xs:element name="${node.name}"${occurrence}`;
+
+  if (node.children.size === 0 && node.attributes.size === 0) {
+    return [`${start} type="${xsdType(node.texts)}"/>`];
+  } else if (node.children.size === 0) {
+    if (!node.hasText) {
+      return [
+        `${start}>`,
+        `${indent}  <xs:complexType>`,
+        ...attributesXsd(node, `${indent}    `),
+        `${indent}  </xs:complexType>`,
+        `${indent}</xs:element>`,
+      ];
+    }
+    return [
+      `${start}>`,
+      `${indent}  <xs:complexType>`,
+      `${indent}    <xs:simpleContent>`,
+      `${indent}      <xs:extension base="${xsdType(node.texts)}">`,
+      ...attributesXsd(node, `${indent}        `),
+      `${indent}      </xs:extension>`,
+      `${indent}    </xs:simpleContent>`,
+      `${indent}  </xs:complexType>`,
+      `${indent}</xs:element>`,
+    ];
+  }
+
+  const children = [...node.children.values()];
+  const group = node.ordered
+    ? [
+      `${indent}    <xs:sequence>`,
+      ...children.flatMap(child => elementXsd(child.node, occurs(child), depth + 3)),
+      `${indent}    </xs:sequence>`,
+    ]
+    : [
+      // The children come in varying order, only the set of them is known
+      `${indent}    <xs:choice minOccurs="0" maxOccurs="unbounded">`,
+      ...children.flatMap(child => elementXsd(child.node, '', depth + 3)),
+      `${indent}    </xs:choice>`,
+    ];
+  return [
+    `${start}>`,
+    `${indent}  <xs:complexType${node.hasText ? ' mixed="true"' : ''}>`,
+    ...group,
+    ...attributesXsd(node, `${indent}    `),
+    `${indent}  </xs:complexType>`,
+    `${indent}</xs:element>`,
+  ];
+}
@@ -0,0 +1,105 @@
+import { PluginDatabaseManager } from '@backstage/backend-common';
+import { Knex } from 'knex';
+import { getMigratedClient } from './database';
+
+export type CkanSyncState = {
+  cursor?: string;
+  lastFullSyncAt?: Date;
+  /** The organizations and groups emitted by the last sync, they are not tied to a dataset */
+  groupRefs?: string[];
+};
+
+type SyncStateRow = {
+  provider_name: string;
+  cursor: string | null;
+  last_full_sync_at: Date | string | null;
+  group_refs: string | null;
+};
+
+type SyncDatasetRow = {
+  provider_name: string;
+  dataset_name: string;
+  entity_refs: string;
+};
+
+/**
+ * Keeps the incremental sync cursor and the emitted entity refs of the CKAN providers
+ * in the catalog database, so that deleted datasets can be removed with delta mutations.
+ */
+export class CkanSyncStore {
+  static async create(database: PluginDatabaseManager): Promise<CkanSyncStore> {
+    return new CkanSyncStore(await getMigratedClient(database));
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async getState(providerName: string): Promise<CkanSyncState> {
+    const row = await this.db<SyncStateRow>('ckan_sync_state')
+      .where({ provider_name: providerName })
+      .first();
+    return {
+      cursor: row?.cursor ?? undefined,
+      lastFullSyncAt: row?.last_full_sync_at ? new Date(row.last_full_sync_at) : undefined,
+      groupRefs: row?.group_refs ? JSON.parse(row.group_refs) : undefined,
+    };
+  }
+
+  async setState(providerName: string, state: CkanSyncState): Promise<void> {
+    await this.db<SyncStateRow>('ckan_sync_state')
+      .insert({
+        provider_name: providerName,
+        cursor: state.cursor ?? null,
+        last_full_sync_at: state.lastFullSyncAt ?? null,
+        group_refs: state.groupRefs ? JSON.stringify(state.groupRefs) : null,
+      })
+      .onConflict('provider_name')
+      .merge();
+  }
+
+  async getDatasets(providerName: string): Promise<Map<string, string[]>> {
+    const rows = await this.db<SyncDatasetRow>('ckan_sync_datasets')
+      .where({ provider_name: providerName });
+    return new Map(rows.map(row => [row.dataset_name, JSON.parse(row.entity_refs)]));
+  }
+
+  async replaceDatasets(providerName: string, datasets: Map<string, string[]>): Promise<void> {
+    await this.db.transaction(async tx => {
+      await tx<SyncDatasetRow>('ckan_sync_datasets')
+        .where({ provider_name: providerName })
+        .delete();
+      await tx.batchInsert<SyncDatasetRow>(
+        'ckan_sync_datasets',
+        [...datasets].map(([datasetName, entityRefs]) => this.toRow(providerName, datasetName, entityRefs)),
+        100,
+      );
+    });
+  }
+
+  async upsertDatasets(providerName: string, datasets: Map<string, string[]>): Promise<void> {
+    const rows = [...datasets].map(([datasetName, entityRefs]) => this.toRow(providerName, datasetName, entityRefs));
+    for (let i = 0; i < rows.length; i += 100) {
+      await this.db<SyncDatasetRow>('ckan_sync_datasets')
+        .insert(rows.slice(i, i + 100))
+        .onConflict(['provider_name', 'dataset_name'])
+        .merge();
+    }
+  }
+
+  async deleteDatasets(providerName: string, datasetNames: string[]): Promise<void> {
+    if (datasetNames.length === 0) {
+      return;
+    }
+    await this.db<SyncDatasetRow>('ckan_sync_datasets')
+      .where({ provider_name: providerName })
+      .whereIn('dataset_name', datasetNames)
+      .delete();
+  }
+
+  private toRow(providerName: string, datasetName: string, entityRefs: string[]): SyncDatasetRow {
+    return {
+      provider_name: providerName,
+      dataset_name: datasetName,
+      entity_refs: JSON.stringify(entityRefs),
+    };
+  }
+}
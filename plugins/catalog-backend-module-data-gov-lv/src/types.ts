@@ -0,0 +1,8 @@
+export type SchemaInfo = {
+  type: string;
+  definition: string;
+  hasBom?: boolean;
+  charset?: string;
+  /** Where the definition was published, when it was not inferred */
+  schemaUrl?: string;
+};